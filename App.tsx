@@ -1,21 +1,50 @@
+import { BrowserRouter, Routes, Route, Navigate, useLocation, useNavigate } from 'react-router-dom';
 import LoginPage from './pages/LoginPage';
 import DashboardPage from './pages/DashboardPage';
+import CatalogPage from './pages/CatalogPage';
+import { MissionViewPage } from './pages/MissionViewPage';
+import MissionEditorPage from './pages/MissionEditorPage';
+import AnalyticsPage from './pages/AnalyticsPage';
+import FlashcardReviewPage from './pages/FlashcardReviewPage';
+import CertificateVerificationPage from './pages/CertificateVerificationPage';
 import Error500Page from './pages/Error500Page';
 import Error400Page from './pages/Error400Page';
 import ErrorBoundary from './components/ErrorBoundary';
+import { RequireAuth } from './components/RequireAuth';
+import { SettingsModal } from './components/SettingsModal';
 import { AuthProvider, useAuth } from './contexts/AuthContext';
 import { FlashErrorProvider } from './contexts/FlashErrorContext';
+import { ROUTES, RouteState } from './routes';
 
-function AppContent() {
-  const { user, loading, error, signOut } = useAuth();
+// Login page that sends already signed-in users back to where they were headed
+function LoginRoute() {
+  const { user } = useAuth();
+  const location = useLocation();
 
   const handleLogin = () => {
     // This will be called after successful Firebase authentication
-    // The authentication state is managed by the AuthContext
+    // The authentication state is managed by the AuthContext, the redirect below happens once it updates
   };
 
+  if (user) {
+    const from = (location.state as RouteState | null)?.from;
+    return <Navigate to={from ?? ROUTES.HOME} replace />;
+  }
+
+  return <LoginPage onLogin={handleLogin} />;
+}
+
+function AppContent() {
+  const { loading, error, signOut } = useAuth();
+  const location = useLocation();
+  const navigate = useNavigate();
+
+  // Modal routes (e.g. settings) keep rendering the page they were opened from underneath
+  const backgroundLocation = (location.state as RouteState | null)?.backgroundLocation;
+
   const handleLogout = async () => {
     await signOut();
+    navigate(ROUTES.LOGIN, { replace: true });
   };
 
   // Handle error states
@@ -37,10 +66,89 @@ function AppContent() {
 
   return (
     <div className="bg-white min-h-screen text-deep-navy">
-      {user ? (
-        <DashboardPage onLogout={handleLogout} />
-      ) : (
-        <LoginPage onLogin={handleLogin} />
+      <Routes location={backgroundLocation ?? location}>
+        <Route path={ROUTES.LOGIN} element={<LoginRoute />} />
+        <Route path={ROUTES.CERTIFICATE} element={<CertificateVerificationPage />} />
+        <Route
+          path={ROUTES.HOME}
+          element={
+            <RequireAuth>
+              <DashboardPage onLogout={handleLogout} />
+            </RequireAuth>
+          }
+        >
+          {/* Dashboard overlays - the dashboard reads these matches to decide which modal to show */}
+          <Route path={ROUTES.CREATE} />
+          <Route path={ROUTES.CREATE_SESSION} />
+          <Route path={ROUTES.SETTINGS} />
+          <Route path={ROUTES.MISSION_DETAILS} />
+        </Route>
+        <Route
+          path={ROUTES.CATALOG}
+          element={
+            <RequireAuth>
+              <CatalogPage onLogout={handleLogout} />
+            </RequireAuth>
+          }
+        />
+        <Route
+          path={ROUTES.ANALYTICS}
+          element={
+            <RequireAuth>
+              <AnalyticsPage onLogout={handleLogout} />
+            </RequireAuth>
+          }
+        />
+        <Route
+          path={ROUTES.REVIEW}
+          element={
+            <RequireAuth>
+              <FlashcardReviewPage onLogout={handleLogout} />
+            </RequireAuth>
+          }
+        />
+        <Route
+          path={ROUTES.MISSION_NEW}
+          element={
+            <RequireAuth>
+              <MissionEditorPage onLogout={handleLogout} />
+            </RequireAuth>
+          }
+        />
+        <Route
+          path={ROUTES.MISSION_EDIT}
+          element={
+            <RequireAuth>
+              <MissionEditorPage onLogout={handleLogout} />
+            </RequireAuth>
+          }
+        />
+        <Route
+          path={ROUTES.MISSION}
+          element={
+            <RequireAuth>
+              <MissionViewPage onLogout={handleLogout} />
+            </RequireAuth>
+          }
+        >
+          {/* Focused checkpoint - the mission view stays mounted while moving between checkpoints */}
+          <Route path={ROUTES.MISSION_JOURNEY} />
+        </Route>
+        <Route path="*" element={<Navigate to={ROUTES.HOME} replace />} />
+      </Routes>
+
+      {/* Settings opened on top of another page */}
+      {backgroundLocation && (
+        <Routes>
+          <Route
+            path={ROUTES.SETTINGS}
+            element={
+              <RequireAuth>
+                <SettingsModal isOpen onClose={() => navigate(-1)} />
+              </RequireAuth>
+            }
+          />
+        </Routes>
       )}
     </div>
   );
@@ -49,13 +157,15 @@ function AppContent() {
 function App() {
   return (
     <ErrorBoundary>
-      <FlashErrorProvider>
-        <AuthProvider>
-          <AppContent />
-        </AuthProvider>
-      </FlashErrorProvider>
+      <BrowserRouter>
+        <FlashErrorProvider>
+          <AuthProvider>
+            <AppContent />
+          </AuthProvider>
+        </FlashErrorProvider>
+      </BrowserRouter>
     </ErrorBoundary>
   );
 }
 
-export default App;
\ No newline at end of file
+export default App;
@@ -0,0 +1,71 @@
+import { getPolarisWebSocketUrl, getMissionAllyWebSocketUrl } from './config';
+import { AgentChatConfig } from './hooks/useAgentChat';
+import { DEFAULT_BACKOFF } from './utils/agentSocket';
+
+// Polaris — The Pathfinder: plans a new mission with the learner
+export const POLARIS_AGENT: AgentChatConfig = {
+  id: 'polaris',
+  name: 'Polaris',
+  prepare: async (apiClient, params) => {
+    // Resuming an unfinished planning session
+    if (params.session_id) {
+      return { session_id: params.session_id };
+    }
+    const sessionResponse = await apiClient.createWebSocketSession();
+    if (sessionResponse.error || !sessionResponse.data) {
+      throw sessionResponse.error ?? new Error('Failed to create session');
+    }
+    return { session_id: sessionResponse.data.session_id };
+  },
+  getUrl: (params, token) => getPolarisWebSocketUrl(params.session_id ?? '', token),
+  showConnectedMessage: true,
+  greeting: 'Polaris is connecting and will be with you in just a moment. Please send a message to start your learning journey!',
+  typingMode: 'until-reply',
+  handoverMessage: 'Polaris is crafting your personalized learning journey...',
+  handledEvents: [
+    'connected',
+    'historical_messages',
+    'agent_message',
+    'agent_message_delta',
+    'agent_message_done',
+    'agent_handover',
+    'user_message_ack',
+    'mission_created',
+    'mission_revised',
+    'session_closed',
+    'error',
+    'pong',
+  ],
+  // Proposals keep the session open so the learner can ask for changes
+  terminalEvents: ['session_closed'],
+  backoff: DEFAULT_BACKOFF,
+};
+
+// Lumina, the Mission Ally: guides the learner through an enrolled mission
+export const MISSION_ALLY_AGENT: AgentChatConfig = {
+  id: 'mission-ally',
+  name: 'Lumina',
+  getUrl: (params, token) => getMissionAllyWebSocketUrl(params.mission_id ?? '', token),
+  showConnectedMessage: false,
+  greeting: null,
+  typingMode: 'processing-events',
+  handoverMessage: null,
+  handledEvents: [
+    'connected',
+    'historical_messages',
+    'agent_processing_start',
+    'agent_message',
+    'agent_message_delta',
+    'agent_message_done',
+    'agent_processing_end',
+    'agent_handover',
+    'checkpoint_update',
+    'flashcards_generated',
+    'user_message_ack',
+    'session_closed',
+    'error',
+    'pong',
+  ],
+  terminalEvents: ['session_closed'],
+  backoff: DEFAULT_BACKOFF,
+};
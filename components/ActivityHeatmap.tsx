@@ -0,0 +1,72 @@
+import React, { useMemo } from 'react';
+import { startOfWeek, toDayKey } from '../utils/analytics';
+
+interface ActivityHeatmapProps {
+  dailyActivity: Map<string, number>;
+  weeks: number;
+  today?: Date;
+}
+
+const DAY_LABELS = ['Mon', '', 'Wed', '', 'Fri', '', ''];
+
+// Shade by share of the busiest day so a few heavy days don't wash out the rest
+const getCellClass = (count: number, max: number): string => {
+  if (count === 0) return 'bg-soft-gray';
+  const ratio = count / max;
+  if (ratio > 0.75) return 'bg-sky-blue';
+  if (ratio > 0.5) return 'bg-sky-blue/75';
+  if (ratio > 0.25) return 'bg-sky-blue/50';
+  return 'bg-sky-blue/25';
+};
+
+// GitHub-style grid: one column per week, one row per weekday
+export const ActivityHeatmap: React.FC<ActivityHeatmapProps> = ({ dailyActivity, weeks, today = new Date() }) => {
+  const columns = useMemo(() => {
+    const firstDay = startOfWeek(today);
+    firstDay.setDate(firstDay.getDate() - 7 * (weeks - 1));
+    const todayKey = toDayKey(today);
+    let reachedToday = false;
+
+    return Array.from({ length: weeks }, (_, week) =>
+      Array.from({ length: 7 }, (_, weekday) => {
+        const date = new Date(firstDay.getFullYear(), firstDay.getMonth(), firstDay.getDate() + week * 7 + weekday);
+        const key = toDayKey(date);
+        const isFuture = reachedToday;
+        if (key === todayKey) reachedToday = true;
+        return { key, date, count: dailyActivity.get(key) ?? 0, isFuture };
+      })
+    );
+  }, [dailyActivity, weeks, today]);
+
+  const max = Math.max(1, ...dailyActivity.values());
+
+  return (
+    <div className="overflow-x-auto">
+      <div className="inline-flex gap-1">
+        <div className="flex flex-col gap-1 mr-1">
+          {DAY_LABELS.map((label, index) => (
+            <span key={index} className="h-3 text-[10px] leading-3 text-gray-500">{label}</span>
+          ))}
+        </div>
+        {columns.map((days, week) => (
+          <div key={week} className="flex flex-col gap-1">
+            {days.map(day => (
+              <div
+                key={day.key}
+                className={`w-3 h-3 rounded-sm ${day.isFuture ? 'bg-transparent' : getCellClass(day.count, max)}`}
+                title={day.isFuture ? undefined : `${day.count} ${day.count === 1 ? 'activity' : 'activities'} on ${day.date.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })}`}
+              ></div>
+            ))}
+          </div>
+        ))}
+      </div>
+      <div className="flex items-center justify-end gap-1 mt-3 text-xs text-gray-500">
+        <span className="mr-1">Less</span>
+        {['bg-soft-gray', 'bg-sky-blue/25', 'bg-sky-blue/50', 'bg-sky-blue/75', 'bg-sky-blue'].map(className => (
+          <span key={className} className={`w-3 h-3 rounded-sm ${className}`}></span>
+        ))}
+        <span className="ml-1">More</span>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,93 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Certificate } from '../types';
+import { useFlashError } from '../contexts/FlashErrorContext';
+import {
+  CERTIFICATE_WIDTH,
+  CERTIFICATE_HEIGHT,
+  drawCertificate,
+  certificateToPng,
+  certificateToPdf,
+  getCertificateFilename,
+} from '../utils/certificate';
+import { downloadBlob } from '../utils/download';
+import { getCertificatePath } from '../routes';
+
+interface CertificateViewProps {
+  certificate: Certificate;
+  // Verification pages show the certificate without download buttons
+  showActions?: boolean;
+}
+
+// The rendered certificate with PNG/PDF downloads and a shareable verification link
+export const CertificateView: React.FC<CertificateViewProps> = ({ certificate, showActions = true }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [isExporting, setIsExporting] = useState(false);
+  const { showError, showSuccess } = useFlashError();
+  const verificationUrl = `${window.location.origin}${getCertificatePath(certificate.id)}`;
+
+  useEffect(() => {
+    if (canvasRef.current) {
+      drawCertificate(canvasRef.current, certificate, verificationUrl);
+    }
+  }, [certificate, verificationUrl]);
+
+  const handleDownload = async (format: 'png' | 'pdf') => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    setIsExporting(true);
+    try {
+      const blob = format === 'png' ? await certificateToPng(canvas) : await certificateToPdf(canvas);
+      downloadBlob(blob, getCertificateFilename(certificate, format));
+    } catch (error) {
+      showError(error instanceof Error ? error.message : 'Failed to export certificate');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const handleCopyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(verificationUrl);
+      showSuccess('Verification link copied');
+    } catch {
+      showError('Could not copy the link');
+    }
+  };
+
+  return (
+    <div>
+      <canvas
+        ref={canvasRef}
+        width={CERTIFICATE_WIDTH}
+        height={CERTIFICATE_HEIGHT}
+        className="w-full h-auto rounded-lg shadow-lg border border-soft-gray"
+        role="img"
+        aria-label={`Certificate of completion for ${certificate.mission_title}, awarded to ${certificate.user_name}`}
+      />
+      {showActions && (
+        <div className="flex flex-col sm:flex-row gap-3 mt-4">
+          <button
+            onClick={() => handleDownload('pdf')}
+            disabled={isExporting}
+            className="flex-1 px-5 py-3 bg-coral text-white font-semibold rounded-lg shadow-md hover:bg-coral/90 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Download PDF
+          </button>
+          <button
+            onClick={() => handleDownload('png')}
+            disabled={isExporting}
+            className="flex-1 px-5 py-3 border border-sky-blue text-sky-blue font-semibold rounded-lg hover:bg-sky-blue/10 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Download Image
+          </button>
+          <button
+            onClick={handleCopyLink}
+            className="flex-1 px-5 py-3 border border-soft-gray text-deep-navy font-semibold rounded-lg hover:bg-soft-gray transition-colors"
+          >
+            Copy Verification Link
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,45 @@
+import React from 'react';
+
+interface ChatErrorBannerProps {
+  error: string | null;
+  onRetry?: (() => void) | undefined;
+  onDismiss?: () => void;
+}
+
+export const ChatErrorBanner: React.FC<ChatErrorBannerProps> = ({ error, onRetry, onDismiss }) => {
+  if (!error) return null;
+
+  return (
+    <div className="px-6 lg:px-8 py-3 bg-red-50 border-b border-red-200 flex-shrink-0">
+      <div className="flex items-center justify-between gap-4">
+        <div className="flex items-center space-x-2 min-w-0">
+          <svg className="w-5 h-5 text-red-500 flex-shrink-0" fill="none" stroke="currentColor" viewBox="0 0 24 24" strokeWidth={2}>
+            <path strokeLinecap="round" strokeLinejoin="round" d="M12 8v4m0 4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
+          </svg>
+          <span className="text-red-700 text-sm font-normal">{error}</span>
+        </div>
+        <div className="flex items-center space-x-4 flex-shrink-0">
+          {onRetry && (
+            <button
+              onClick={onRetry}
+              className="text-red-600 hover:text-red-800 text-sm font-semibold"
+            >
+              Retry
+            </button>
+          )}
+          {onDismiss && (
+            <button
+              onClick={onDismiss}
+              className="text-red-400 hover:text-red-600"
+              aria-label="Dismiss error"
+            >
+              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24" strokeWidth={2}>
+                <path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,7 +1,21 @@
 import React from 'react';
 import { RocketIcon } from './icons/RocketIcon';
+import { ConnectionStatus } from './ConnectionStatus';
+import { AgentConnectionSnapshot } from '../utils/agentSocket';
 
-export const ChatHeader: React.FC = () => {
+interface ChatHeaderProps {
+  title: string;
+  subtitle: string;
+  connection: AgentConnectionSnapshot;
+  onClose?: () => void;
+}
+
+export const ChatHeader: React.FC<ChatHeaderProps> = ({
+  title,
+  subtitle,
+  connection,
+  onClose,
+}) => {
   return (
     <div className="px-6 lg:px-8 py-5 border-b border-soft-gray bg-gradient-to-r from-white via-sky-blue/5 to-white flex-shrink-0">
       <div className="flex items-center space-x-4">
@@ -9,12 +23,22 @@ export const ChatHeader: React.FC = () => {
           <RocketIcon className="h-6 w-6 text-sky-blue" strokeWidth={2} />
         </div>
         <div className="flex-1 min-w-0">
-          <h3 className="text-xl font-semibold text-deep-navy truncate">Mission Assistant</h3>
-          <p className="text-sm text-gray-600 mt-1">Get help and guidance</p>
+          <h3 className="text-xl font-semibold text-deep-navy truncate">{title}</h3>
+          <p className="text-sm text-gray-600 mt-1">{subtitle}</p>
         </div>
-        <div className="w-3 h-3 bg-green-400 rounded-full animate-pulse flex-shrink-0"></div>
+        <ConnectionStatus connection={connection} />
+        {onClose && (
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 transition-colors flex-shrink-0"
+            aria-label="Close"
+          >
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        )}
       </div>
     </div>
   );
 };
-
@@ -1,17 +1,23 @@
 import React from 'react';
+import { VALIDATION_LIMITS } from '../utils/validation';
 
 interface ChatInputProps {
   value: string;
   onChange: (value: string) => void;
   onSubmit: (e: React.FormEvent) => void;
+  placeholder: string;
   disabled?: boolean;
+  // When set, the send button becomes a stop button (the agent is generating)
+  onStop?: (() => void) | undefined;
 }
 
 export const ChatInput: React.FC<ChatInputProps> = ({
   value,
   onChange,
   onSubmit,
+  placeholder,
   disabled = false,
+  onStop,
 }) => {
   return (
     <div className="absolute bottom-0 left-0 right-0 px-6 lg:px-8 py-5 border-t border-soft-gray bg-gradient-to-r from-white to-gray-50/50 backdrop-blur-sm z-10 flex-shrink-0">
@@ -20,21 +26,35 @@ export const ChatInput: React.FC<ChatInputProps> = ({
           type="text"
           value={value}
           onChange={(e) => onChange(e.target.value)}
-          placeholder={disabled ? "Lumina is thinking..." : "Type your message..."}
+          placeholder={placeholder}
           disabled={disabled}
+          maxLength={VALIDATION_LIMITS.MESSAGE_MAX_LENGTH}
           className="flex-1 px-5 py-3.5 border-2 border-soft-gray rounded-xl focus:outline-none focus:ring-2 focus:ring-sky-blue focus:border-sky-blue text-base font-normal text-deep-navy transition-all duration-200 focus:shadow-lg bg-white disabled:opacity-60 disabled:cursor-not-allowed disabled:bg-gray-50"
         />
-        <button
-          type="submit"
-          disabled={disabled || !value.trim()}
-          className="px-6 py-3.5 bg-gradient-to-br from-sky-blue to-sky-blue/90 text-white rounded-xl hover:from-sky-blue/90 hover:to-sky-blue/80 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200 font-semibold hover:shadow-xl hover:scale-105 active:scale-100 disabled:hover:scale-100 flex-shrink-0"
-        >
-          <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24" strokeWidth={2}>
-            <path strokeLinecap="round" strokeLinejoin="round" d="M12 19l9 2-9-18-9 18 9-2zm0 0v-8" />
-          </svg>
-        </button>
+        {onStop ? (
+          <button
+            type="button"
+            onClick={onStop}
+            title="Stop generating"
+            aria-label="Stop generating"
+            className="px-6 py-3.5 bg-white border-2 border-coral text-coral rounded-xl hover:bg-coral hover:text-white transition-all duration-200 font-semibold hover:shadow-xl flex-shrink-0"
+          >
+            <svg className="w-5 h-5" fill="currentColor" viewBox="0 0 24 24">
+              <rect x="6" y="6" width="12" height="12" rx="2" />
+            </svg>
+          </button>
+        ) : (
+          <button
+            type="submit"
+            disabled={disabled || !value.trim()}
+            className="px-6 py-3.5 bg-gradient-to-br from-sky-blue to-sky-blue/90 text-white rounded-xl hover:from-sky-blue/90 hover:to-sky-blue/80 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200 font-semibold hover:shadow-xl hover:scale-105 active:scale-100 disabled:hover:scale-100 flex-shrink-0"
+          >
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24" strokeWidth={2}>
+              <path strokeLinecap="round" strokeLinejoin="round" d="M12 19l9 2-9-18-9 18 9-2zm0 0v-8" />
+            </svg>
+          </button>
+        )}
       </form>
     </div>
   );
 };
-
@@ -1,21 +1,235 @@
-import React, { useRef, useEffect } from 'react';
+import React, { useRef, useEffect, useMemo, useDeferredValue, memo } from 'react';
+import { ChatMessage, MessageDeliveryStatus } from '../types';
 import { RocketIcon } from './icons/RocketIcon';
 import { TypingIndicator } from './TypingIndicator';
 import { MarkdownMessage } from './MarkdownMessage';
-
-export interface ChatMessage {
-  from: 'user' | 'agent';
-  text: string;
-  timestamp: Date;
-}
+import { QuizResult } from '../utils/quiz';
+import { CodeRun } from '../utils/playground';
 
 interface ChatMessagesProps {
   messages: ChatMessage[];
   isTyping: boolean;
+  typingLabel: string;
+  emptyTitle?: string;
+  emptyDescription?: string;
+  onRetryMessage?: ((id: string) => void) | undefined;
+  // Offered on agent replies; selection is the highlighted part of the reply, if any
+  onSaveFlashcard?: ((message: ChatMessage, selection: string) => void) | undefined;
+  // Offered on every user and agent message; selection works as for flashcards
+  onSendToNotes?: ((message: ChatMessage, selection: string) => void) | undefined;
+  // Results of quizzes embedded in agent replies
+  onQuizComplete?: ((result: QuizResult) => boolean) | undefined;
+  // Code the learner ran in a playground block of an agent reply
+  onShareCodeRun?: ((run: CodeRun) => boolean) | undefined;
 }
 
-export const ChatMessages: React.FC<ChatMessagesProps> = ({ messages, isTyping }) => {
+const isSameDay = (a: Date, b: Date): boolean =>
+  a.getFullYear() === b.getFullYear() && a.getMonth() === b.getMonth() && a.getDate() === b.getDate();
+
+// "Today", "Yesterday", "Oct 12" (with the year once it's not the current one)
+const formatDayLabel = (date: Date, now: Date = new Date()): string => {
+  if (isSameDay(date, now)) return 'Today';
+  const yesterday = new Date(now.getFullYear(), now.getMonth(), now.getDate() - 1);
+  if (isSameDay(date, yesterday)) return 'Yesterday';
+  return date.toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    ...(date.getFullYear() !== now.getFullYear() && { year: 'numeric' }),
+  });
+};
+
+// Label to show before each message that starts a new calendar day; undated messages never start a day
+const getDaySeparators = (messages: ChatMessage[]): Array<string | null> => {
+  let lastDate: Date | null = null;
+  return messages.map(message => {
+    if (!message.timestamp) return null;
+    const startsDay = !lastDate || !isSameDay(lastDate, message.timestamp);
+    lastDate = message.timestamp;
+    return startsDay ? formatDayLabel(message.timestamp) : null;
+  });
+};
+
+const DELIVERY_LABELS: Record<MessageDeliveryStatus, string> = {
+  pending: 'Sending...',
+  sent: 'Sent',
+  acknowledged: 'Delivered',
+  failed: 'Not delivered',
+};
+
+const DeliveryStatus: React.FC<{ status: MessageDeliveryStatus; onRetry?: (() => void) | undefined }> = ({ status, onRetry }) => {
+  if (status === 'failed') {
+    return (
+      <span className="inline-flex items-center gap-1.5 font-semibold text-white">
+        <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24" strokeWidth={2} aria-hidden="true">
+          <path strokeLinecap="round" strokeLinejoin="round" d="M12 9v2m0 4h.01M12 3a9 9 0 100 18 9 9 0 000-18z" />
+        </svg>
+        {DELIVERY_LABELS.failed}
+        {onRetry && (
+          <button type="button" onClick={onRetry} className="underline hover:no-underline">
+            Retry
+          </button>
+        )}
+      </span>
+    );
+  }
+
+  return (
+    <span className="inline-flex items-center gap-1" title={DELIVERY_LABELS[status]}>
+      {status === 'pending' ? (
+        <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24" strokeWidth={2} aria-hidden="true">
+          <path strokeLinecap="round" strokeLinejoin="round" d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+        </svg>
+      ) : (
+        <svg className="w-4 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 28 24" strokeWidth={2} aria-hidden="true">
+          <path strokeLinecap="round" strokeLinejoin="round" d="M3 13l4 4L17 7" />
+          {status === 'acknowledged' && <path strokeLinecap="round" strokeLinejoin="round" d="M13 17L23 7" />}
+        </svg>
+      )}
+      <span className="sr-only">{DELIVERY_LABELS[status]}</span>
+    </span>
+  );
+};
+
+// Text the user highlighted inside container, or '' when the selection lies elsewhere
+const getSelectionWithin = (container: HTMLElement | null): string => {
+  const selection = window.getSelection();
+  if (!container || !selection || selection.isCollapsed) return '';
+  if (!container.contains(selection.anchorNode) || !container.contains(selection.focusNode)) return '';
+  return selection.toString().trim();
+};
+
+interface ChatMessageBubbleProps {
+  message: ChatMessage;
+  onRetry?: ((id: string) => void) | undefined;
+  onSaveFlashcard?: ((message: ChatMessage, selection: string) => void) | undefined;
+  onSendToNotes?: ((message: ChatMessage, selection: string) => void) | undefined;
+  onQuizComplete?: ((result: QuizResult) => boolean) | undefined;
+  onShareCodeRun?: ((run: CodeRun) => boolean) | undefined;
+}
+
+// Buttons that act on (part of) a message. preventDefault on mousedown keeps the
+// text selection alive until the click handler reads it.
+const MessageAction: React.FC<{ label: string; title: string; onClick: () => void; className: string }> = ({
+  label,
+  title,
+  onClick,
+  className,
+}) => (
+  <button
+    type="button"
+    onMouseDown={event => event.preventDefault()}
+    onClick={onClick}
+    className={`font-semibold transition-colors ${className}`}
+    title={title}
+  >
+    {label}
+  </button>
+);
+
+// Messages are immutable in the chat reducer, so only the bubble whose message changed
+// (e.g. the one receiving streamed deltas) re-renders and re-parses its markdown
+const ChatMessageBubble = memo<ChatMessageBubbleProps>(({
+  message,
+  onRetry,
+  onSaveFlashcard,
+  onSendToNotes,
+  onQuizComplete,
+  onShareCodeRun,
+}) => {
+  // Let React skip intermediate chunks when deltas arrive faster than we can render
+  const text = useDeferredValue(message.text);
+  const contentRef = useRef<HTMLDivElement>(null);
+  const canSaveFlashcard = Boolean(onSaveFlashcard) && message.from === 'agent' && !message.isStreaming;
+  const canSendToNotes = Boolean(onSendToNotes) && !message.isStreaming;
+  const actionClass = message.from === 'user' ? 'text-white hover:text-white/80' : 'text-sky-blue hover:text-deep-navy';
+  const actions = (canSaveFlashcard || canSendToNotes) && (
+    <span className={`flex items-center gap-3 ${message.from === 'user' ? 'mr-auto' : 'ml-auto'}`}>
+      {canSendToNotes && (
+        <MessageAction
+          label="→ Notes"
+          title="Add this message, or the highlighted part of it, to your notes"
+          onClick={() => onSendToNotes?.(message, getSelectionWithin(contentRef.current))}
+          className={actionClass}
+        />
+      )}
+      {canSaveFlashcard && (
+        <MessageAction
+          label="+ Flashcard"
+          title="Save this reply, or the highlighted part of it, as a flashcard"
+          onClick={() => onSaveFlashcard?.(message, getSelectionWithin(contentRef.current))}
+          className={actionClass}
+        />
+      )}
+    </span>
+  );
+
+  if (message.from === 'system') {
+    return (
+      <div className="flex justify-center animate-message-in">
+        <div className="max-w-[90%] rounded-xl px-4 py-2 bg-soft-gray/60 text-deep-navy text-xs sm:text-sm text-center">
+          <MarkdownMessage content={text} className="text-deep-navy" />
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className={`flex ${message.from === 'user' ? 'justify-end' : 'justify-start'} animate-message-in`}>
+      <div
+        className={`max-w-[85%] sm:max-w-[80%] rounded-2xl p-3 sm:p-4 shadow-lg transition-all duration-300 ${
+          message.from === 'user'
+            ? `bg-gradient-to-br from-sky-blue to-sky-blue/90 text-white ${message.status === 'failed' ? 'ring-2 ring-coral' : ''}`
+            : 'bg-white border-2 border-soft-gray text-deep-navy'
+        }`}
+        aria-busy={message.isStreaming || undefined}
+      >
+        <div ref={contentRef} className="text-xs sm:text-sm font-normal leading-relaxed">
+          <MarkdownMessage
+            content={text}
+            className={message.from === 'user' ? 'text-white' : 'text-deep-navy'}
+            onQuizComplete={message.from === 'agent' ? onQuizComplete : undefined}
+            onShareCodeRun={message.from === 'agent' ? onShareCodeRun : undefined}
+          />
+          {message.isStreaming && (
+            <span className="inline-block w-2 h-4 ml-0.5 align-text-bottom bg-sky-blue/70 animate-pulse" aria-hidden="true"></span>
+          )}
+        </div>
+        {message.isInterrupted && (
+          <p className="text-[10px] sm:text-xs mt-2 italic text-gray-500">Response stopped</p>
+        )}
+        {(message.timestamp || message.status || actions) && (
+          <div className={`flex items-center gap-2 text-[10px] sm:text-xs mt-2 sm:mt-2.5 ${
+            message.from === 'user' ? 'justify-end text-white/70' : 'text-gray-500'
+          }`}>
+            {message.from === 'user' && actions}
+            {message.timestamp?.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+            {message.status && (
+              <DeliveryStatus status={message.status} onRetry={onRetry && (() => onRetry(message.id))} />
+            )}
+            {message.from === 'agent' && actions}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+});
+
+ChatMessageBubble.displayName = 'ChatMessageBubble';
+
+export const ChatMessages: React.FC<ChatMessagesProps> = ({
+  messages,
+  isTyping,
+  typingLabel,
+  emptyTitle = 'Welcome to your Mission Assistant!',
+  emptyDescription = "I'm here to help you through your learning journey. Ask me anything about your mission!",
+  onRetryMessage,
+  onSaveFlashcard,
+  onSendToNotes,
+  onQuizComplete,
+  onShareCodeRun,
+}) => {
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const daySeparators = useMemo(() => getDaySeparators(messages), [messages]);
 
   useEffect(() => {
     if (messagesEndRef.current) {
@@ -25,47 +239,42 @@ export const ChatMessages: React.FC<ChatMessagesProps> = ({ messages, isTyping }
 
   return (
     <div className="flex-1 min-h-0 overflow-y-auto px-6 lg:px-8 py-6 space-y-4 bg-gradient-to-b from-white via-gray-50/20 to-white pb-24">
-      {messages.length === 0 ? (
+      {messages.length === 0 && !isTyping ? (
         <div className="text-center text-gray-500 mt-8 sm:mt-16 px-4 animate-fade-in">
           <div className="w-20 h-20 sm:w-24 sm:h-24 bg-gradient-to-br from-sky-blue/20 to-sky-blue/10 rounded-2xl flex items-center justify-center mx-auto mb-4 sm:mb-6 animate-pulse-slow shadow-lg">
             <RocketIcon className="h-10 w-10 sm:h-12 sm:w-12 text-sky-blue" strokeWidth={2} />
           </div>
-          <p className="text-base sm:text-lg font-semibold text-deep-navy mb-2 sm:mb-3 animate-slide-up">Welcome to your Mission Assistant!</p>
-          <p className="text-xs sm:text-sm font-normal text-gray-600 leading-relaxed max-w-sm mx-auto animate-slide-up-delay">I'm here to help you through your learning journey. Ask me anything about your mission!</p>
+          <p className="text-base sm:text-lg font-semibold text-deep-navy mb-2 sm:mb-3 animate-slide-up">{emptyTitle}</p>
+          <p className="text-xs sm:text-sm font-normal text-gray-600 leading-relaxed max-w-sm mx-auto animate-slide-up-delay">{emptyDescription}</p>
         </div>
       ) : (
         <>
-          {messages.map((message, index) => (
-            <div
-              key={index}
-              className={`flex ${message.from === 'user' ? 'justify-end' : 'justify-start'} animate-message-in`}
-            >
-              <div
-                className={`max-w-[85%] sm:max-w-[80%] rounded-2xl p-3 sm:p-4 shadow-lg transition-all duration-300 ${
-                  message.from === 'user'
-                    ? 'bg-gradient-to-br from-sky-blue to-sky-blue/90 text-white'
-                    : 'bg-white border-2 border-soft-gray text-deep-navy'
-                }`}
-              >
-                <div className="text-xs sm:text-sm font-normal leading-relaxed">
-                  <MarkdownMessage 
-                    content={message.text}
-                    className={message.from === 'user' ? 'text-white' : 'text-deep-navy'}
-                  />
-                </div>
-                <p className={`text-[10px] sm:text-xs mt-2 sm:mt-2.5 ${
-                  message.from === 'user' ? 'text-white/70' : 'text-gray-500'
-                }`}>
-                  {message.timestamp.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
-                </p>
-              </div>
-            </div>
-          ))}
-          <TypingIndicator isVisible={isTyping} />
+          {messages.map((message, index) => {
+            const separator = daySeparators[index];
+            return (
+              <React.Fragment key={message.clientId ?? message.id}>
+                {separator && (
+                  <div className="flex items-center gap-3 py-1" role="separator" aria-label={separator}>
+                    <div className="flex-1 h-px bg-soft-gray"></div>
+                    <span className="text-[10px] sm:text-xs font-semibold uppercase tracking-wide text-gray-400">{separator}</span>
+                    <div className="flex-1 h-px bg-soft-gray"></div>
+                  </div>
+                )}
+                <ChatMessageBubble
+                  message={message}
+                  onRetry={onRetryMessage}
+                  onSaveFlashcard={onSaveFlashcard}
+                  onSendToNotes={onSendToNotes}
+                  onQuizComplete={onQuizComplete}
+                  onShareCodeRun={onShareCodeRun}
+                />
+              </React.Fragment>
+            );
+          })}
+          <TypingIndicator isVisible={isTyping} label={typingLabel} />
         </>
       )}
       <div ref={messagesEndRef} />
     </div>
   );
 };
-
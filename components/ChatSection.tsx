@@ -1,28 +1,62 @@
 import React from 'react';
+import { ChatMessage } from '../types';
+import { QuizResult } from '../utils/quiz';
+import { CodeRun } from '../utils/playground';
+import { AgentConnectionSnapshot } from '../utils/agentSocket';
 import { ChatHeader } from './ChatHeader';
-import { ChatMessages, ChatMessage } from './ChatMessages';
+import { ChatErrorBanner } from './ChatErrorBanner';
+import { ChatMessages } from './ChatMessages';
 import { ChatInput } from './ChatInput';
 
 interface ChatSectionProps {
+  agentName: string;
   messages: ChatMessage[];
   inputMessage: string;
   onInputChange: (value: string) => void;
   onSendMessage: (e: React.FormEvent) => void;
   isTyping: boolean;
+  isStreaming: boolean;
+  onStopGeneration: () => void;
+  onRetryMessage: (id: string) => void;
+  onSaveFlashcard?: ((message: ChatMessage, selection: string) => void) | undefined;
+  onSendToNotes?: ((message: ChatMessage, selection: string) => void) | undefined;
+  onQuizComplete?: ((result: QuizResult) => boolean) | undefined;
+  onShareCodeRun?: ((run: CodeRun) => boolean) | undefined;
+  connection: AgentConnectionSnapshot;
+  error: string | null;
+  onRetry: () => void;
+  onDismissError: () => void;
   width?: number; // Percentage width
+  hiddenOnMobile?: boolean; // Below lg the chat shares the screen with the journey through tabs
 }
 
 export const ChatSection: React.FC<ChatSectionProps> = ({
+  agentName,
   messages,
   inputMessage,
   onInputChange,
   onSendMessage,
   isTyping,
+  isStreaming,
+  onStopGeneration,
+  onRetryMessage,
+  onSaveFlashcard,
+  onSendToNotes,
+  onQuizComplete,
+  onShareCodeRun,
+  connection,
+  error,
+  onRetry,
+  onDismissError,
   width = 60,
+  hiddenOnMobile = false,
 }) => {
+  const isConnected = connection.state === 'open';
+  const isClosed = connection.state === 'closed';
+
   return (
     <div 
-      className="chat-section-container flex-1 lg:flex-none w-full bg-white lg:border-l border-soft-gray flex flex-col relative min-h-0"
+      className={`chat-section-container flex-1 lg:flex-none w-full bg-white lg:border-l border-soft-gray ${hiddenOnMobile ? 'hidden lg:flex' : 'flex'} flex-col relative min-h-0`}
       style={{ 
         flexShrink: 0,
       }}
@@ -36,15 +70,43 @@ export const ChatSection: React.FC<ChatSectionProps> = ({
           }
         }
       `}</style>
-      <ChatHeader />
-      <ChatMessages messages={messages} isTyping={isTyping} />
+      <ChatHeader
+        title="Mission Assistant"
+        subtitle="Get help and guidance"
+        connection={connection}
+      />
+      <ChatErrorBanner
+        error={error}
+        onRetry={connection.state === 'failed' ? onRetry : undefined}
+        onDismiss={onDismissError}
+      />
+      <ChatMessages
+        messages={messages}
+        isTyping={isTyping}
+        typingLabel={`${agentName} is thinking...`}
+        onRetryMessage={onRetryMessage}
+        onSaveFlashcard={onSaveFlashcard}
+        onSendToNotes={onSendToNotes}
+        onQuizComplete={onQuizComplete}
+        onShareCodeRun={onShareCodeRun}
+      />
       <ChatInput
         value={inputMessage}
         onChange={onInputChange}
         onSubmit={onSendMessage}
-        disabled={isTyping}
+        placeholder={
+          isClosed
+            ? 'This session has ended'
+            : isTyping || isStreaming
+              ? `${agentName} is thinking...`
+              : !isConnected
+                ? `Offline - messages will be sent once ${agentName} reconnects`
+                : 'Type your message...'
+        }
+        // Messages typed while disconnected are queued, so only a closed session blocks input
+        disabled={isClosed || isTyping || isStreaming}
+        onStop={isConnected && (isTyping || isStreaming) ? onStopGeneration : undefined}
       />
     </div>
   );
 };
-
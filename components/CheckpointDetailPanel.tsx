@@ -0,0 +1,167 @@
+import React, { useEffect } from 'react';
+import { CheckpointStatus } from '../types';
+import { CheckpointExcerpt } from '../utils/checkpoints';
+
+interface CheckpointDetailPanelProps {
+  checkpoint: string;
+  index: number;
+  totalCheckpoints: number;
+  status: CheckpointStatus;
+  topics: string[];
+  excerpts: CheckpointExcerpt[];
+  // The checkpoint that has to be completed first (locked checkpoints only)
+  unlockedBy: string | null;
+  agentName: string;
+  onReview: () => void;
+  isReviewDisabled: boolean;
+  // Ask the agent for a flashcard deck on this checkpoint
+  onGenerateFlashcards?: (() => void) | undefined;
+  onClose: () => void;
+}
+
+const STATUS_STYLES: Record<CheckpointStatus, { label: string; className: string }> = {
+  completed: { label: 'Completed', className: 'bg-sky-blue/10 text-sky-blue' },
+  available: { label: 'Available', className: 'bg-coral/10 text-coral' },
+  locked: { label: 'Locked', className: 'bg-gray-100 text-gray-500' },
+};
+
+// Side panel on desktop, bottom sheet on smaller screens
+export const CheckpointDetailPanel: React.FC<CheckpointDetailPanelProps> = ({
+  checkpoint,
+  index,
+  totalCheckpoints,
+  status,
+  topics,
+  excerpts,
+  unlockedBy,
+  agentName,
+  onReview,
+  isReviewDisabled,
+  onGenerateFlashcards,
+  onClose,
+}) => {
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  const statusStyle = STATUS_STYLES[status];
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-end sm:items-stretch sm:justify-end">
+      <div className="absolute inset-0 bg-black bg-opacity-40" onClick={onClose} aria-hidden="true"></div>
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="checkpoint-detail-title"
+        className="relative bg-white w-full sm:max-w-md max-h-[85vh] sm:max-h-none sm:h-full rounded-t-2xl sm:rounded-none shadow-2xl flex flex-col animate-slide-up"
+      >
+        {/* Header */}
+        <div className="flex items-start justify-between gap-4 p-6 border-b border-soft-gray">
+          <div className="min-w-0">
+            <div className="flex items-center gap-2 mb-2">
+              <span className="text-sm font-semibold text-gray-500">
+                Checkpoint {index + 1} of {totalCheckpoints}
+              </span>
+              <span className={`inline-flex px-2.5 py-0.5 rounded-full text-xs font-semibold ${statusStyle.className}`}>
+                {statusStyle.label}
+              </span>
+            </div>
+            <h2 id="checkpoint-detail-title" className="text-xl font-bold text-deep-navy leading-snug">
+              {checkpoint}
+            </h2>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 transition-colors flex-shrink-0"
+            aria-label="Close checkpoint details"
+          >
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24" strokeWidth={2}>
+              <path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="flex-1 overflow-y-auto p-6 space-y-6">
+          {status === 'locked' ? (
+            <div className="bg-gray-50 border border-soft-gray rounded-lg p-4">
+              <p className="text-sm font-semibold text-deep-navy mb-1">This checkpoint is locked</p>
+              <p className="text-sm text-gray-600">
+                {unlockedBy
+                  ? <>Complete <span className="font-semibold">Checkpoint {index}: {unlockedBy}</span> to unlock it.</>
+                  : 'Complete the previous checkpoint to unlock it.'}
+              </p>
+            </div>
+          ) : (
+            <>
+              <div>
+                <h3 className="text-sm font-semibold text-gray-500 mb-2">Topics covered</h3>
+                {topics.length > 0 ? (
+                  <div className="flex flex-wrap gap-2">
+                    {topics.map(topic => (
+                      <span key={topic} className="px-3 py-1 bg-sky-blue/10 text-sky-blue rounded-full text-sm font-medium">
+                        {topic}
+                      </span>
+                    ))}
+                  </div>
+                ) : (
+                  <p className="text-sm text-gray-500">No specific topics from this mission are linked to this checkpoint.</p>
+                )}
+              </div>
+
+              <div>
+                <h3 className="text-sm font-semibold text-gray-500 mb-2">From your conversation</h3>
+                {excerpts.length > 0 ? (
+                  <ul className="space-y-3">
+                    {excerpts.map(excerpt => (
+                      <li key={excerpt.messageId} className="border-l-4 border-soft-gray pl-3">
+                        <p className="text-xs font-semibold text-gray-500 mb-1">
+                          {excerpt.from === 'user' ? 'You' : agentName}
+                          {excerpt.timestamp && (
+                            <span className="font-normal">
+                              {' · '}
+                              {excerpt.timestamp.toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}
+                            </span>
+                          )}
+                        </p>
+                        <p className="text-sm text-deep-navy leading-relaxed">{excerpt.text}</p>
+                      </li>
+                    ))}
+                  </ul>
+                ) : (
+                  <p className="text-sm text-gray-500">You haven't discussed this checkpoint with {agentName} yet.</p>
+                )}
+              </div>
+            </>
+          )}
+        </div>
+
+        {/* Footer */}
+        {status !== 'locked' && (
+          <div className="p-6 border-t border-soft-gray space-y-3">
+            <button
+              onClick={onReview}
+              disabled={isReviewDisabled}
+              className="w-full px-6 py-3 bg-coral text-white font-semibold rounded-lg hover:bg-coral/90 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            >
+              Review this with {agentName}
+            </button>
+            {onGenerateFlashcards && (
+              <button
+                onClick={onGenerateFlashcards}
+                disabled={isReviewDisabled}
+                className="w-full px-6 py-3 border border-sky-blue text-sky-blue font-semibold rounded-lg hover:bg-sky-blue/10 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+              >
+                Generate flashcards
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -1,13 +1,14 @@
 import React, { useRef, useEffect, useState } from 'react';
+import { CheckpointStatus } from '../types';
 import { RocketIcon } from './icons/RocketIcon';
 
-type CheckpointStatus = 'completed' | 'locked' | 'available';
-
 interface CheckpointItemProps {
   checkpoint: string;
   index: number;
   status: CheckpointStatus;
   isEven: boolean;
+  isFocused?: boolean;
+  onSelect?: (() => void) | undefined;
 }
 
 export const CheckpointItem: React.FC<CheckpointItemProps> = ({
@@ -15,10 +16,19 @@ export const CheckpointItem: React.FC<CheckpointItemProps> = ({
   index,
   status,
   isEven,
+  isFocused = false,
+  onSelect,
 }) => {
   const containerRef = useRef<HTMLDivElement>(null);
   const [showTextCard, setShowTextCard] = useState(true);
 
+  // Bring a deep-linked checkpoint into view
+  useEffect(() => {
+    if (isFocused && containerRef.current) {
+      containerRef.current.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    }
+  }, [isFocused]);
+
   useEffect(() => {
     const checkSpace = () => {
       if (!containerRef.current) return;
@@ -73,9 +83,21 @@ export const CheckpointItem: React.FC<CheckpointItemProps> = ({
       className="relative w-full min-h-[120px] lg:min-h-[140px]"
     >
       {/* Path Connection Point - Centered on the central line */}
-      <div className={`hidden lg:block absolute left-1/2 w-12 h-12 bg-white border-[3px] rounded-full transform -translate-x-1/2 -translate-y-1/2 top-1/2 z-30 flex items-center justify-center shadow-lg group ${
-        status === 'completed' ? 'border-sky-blue ring-2 ring-sky-blue/20' : 'border-soft-gray'
-      }`}>
+      <div
+        role={onSelect ? 'button' : undefined}
+        tabIndex={onSelect ? 0 : undefined}
+        aria-label={onSelect ? `Checkpoint ${index + 1}: ${checkpoint}` : undefined}
+        onClick={onSelect}
+        onKeyDown={onSelect && ((e) => {
+          if (e.key === 'Enter' || e.key === ' ') {
+            e.preventDefault();
+            onSelect();
+          }
+        })}
+        className={`hidden lg:block absolute left-1/2 w-12 h-12 bg-white border-[3px] rounded-full transform -translate-x-1/2 -translate-y-1/2 top-1/2 z-30 flex items-center justify-center shadow-lg group ${
+          status === 'completed' ? 'border-sky-blue ring-2 ring-sky-blue/20' : 'border-soft-gray'
+        } ${isFocused ? 'ring-4 ring-coral/40' : ''} ${onSelect ? 'cursor-pointer focus:outline-none focus-visible:ring-4 focus-visible:ring-sky-blue/40' : ''}`}
+      >
         <div className="flex items-center justify-center w-full h-full">
           {status === 'completed' && (
             <div className="w-5 h-5 bg-sky-blue rounded-full shadow-md"></div>
@@ -124,7 +146,10 @@ export const CheckpointItem: React.FC<CheckpointItemProps> = ({
 
       {/* Checkpoint Flag - Positioned on left for even, right for odd - Only shown when text card is visible */}
       {showTextCard && (
-        <div className={`hidden lg:block absolute z-10 top-1/2 transform -translate-y-1/2 ${isEven ? 'left-1/2 -translate-x-[calc(100%+40px)]' : 'right-1/2 translate-x-[calc(100%+40px)]'}`}>
+        <div
+          onClick={onSelect}
+          className={`hidden lg:block absolute z-10 top-1/2 transform -translate-y-1/2 ${isEven ? 'left-1/2 -translate-x-[calc(100%+40px)]' : 'right-1/2 translate-x-[calc(100%+40px)]'} ${onSelect ? 'cursor-pointer' : ''}`}
+        >
         <div className="relative">
           <div
             className={`w-20 h-20 rounded-2xl flex items-center justify-center shadow-xl transition-all duration-300 ${
@@ -202,7 +227,7 @@ export const CheckpointItem: React.FC<CheckpointItemProps> = ({
                 : status === 'locked'
                 ? 'bg-soft-gray/30 border-2 border-soft-gray opacity-60'
                 : 'bg-white/80 border-2 border-soft-gray hover:border-sky-blue hover:shadow-2xl hover:bg-white'
-            } transition-all duration-300`}
+            } ${isFocused ? 'ring-4 ring-coral/40' : ''} transition-all duration-300`}
           >
             <div className={`flex items-start space-x-2 ${isEven ? 'flex-row' : 'flex-row-reverse space-x-reverse'}`}>
               <div className={`p-1.5 rounded-lg flex-shrink-0 ${
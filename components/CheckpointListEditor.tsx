@@ -0,0 +1,165 @@
+import React, { useState } from 'react';
+import { VALIDATION_LIMITS } from '../utils/validation';
+
+interface CheckpointListEditorProps {
+  checkpoints: string[];
+  onChange: (checkpoints: string[]) => void;
+  error?: string | undefined;
+}
+
+const moveItem = <T,>(items: T[], from: number, to: number): T[] => {
+  const next = items.slice();
+  const [item] = next.splice(from, 1);
+  next.splice(to, 0, item!);
+  return next;
+};
+
+let rowCount = 0;
+const createRowIds = (count: number): number[] => Array.from({ length: count }, () => ++rowCount);
+
+// Ordered checkpoint list: drag a row by its handle (or use the arrow buttons) to reorder
+export const CheckpointListEditor: React.FC<CheckpointListEditorProps> = ({ checkpoints, onChange, error }) => {
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [dropIndex, setDropIndex] = useState<number | null>(null);
+  // Stable row keys so focus stays with its checkpoint when rows move
+  const [rowIds, setRowIds] = useState(() => createRowIds(checkpoints.length));
+  const canAdd = checkpoints.length < VALIDATION_LIMITS.MISSION_MAX_CHECKPOINTS;
+
+  // The list was replaced from outside (e.g. a discarded draft)
+  if (rowIds.length !== checkpoints.length) {
+    setRowIds(createRowIds(checkpoints.length));
+  }
+
+  const moveCheckpoint = (from: number, to: number) => {
+    setRowIds(moveItem(rowIds, from, to));
+    onChange(moveItem(checkpoints, from, to));
+  };
+
+  const removeCheckpoint = (index: number) => {
+    setRowIds(rowIds.filter((_, i) => i !== index));
+    onChange(checkpoints.filter((_, i) => i !== index));
+  };
+
+  const addCheckpoint = () => {
+    setRowIds([...rowIds, ...createRowIds(1)]);
+    onChange([...checkpoints, '']);
+  };
+
+  const updateCheckpoint = (index: number, value: string) => {
+    onChange(checkpoints.map((checkpoint, i) => (i === index ? value : checkpoint)));
+  };
+
+  const handleDrop = (e: React.DragEvent, index: number) => {
+    e.preventDefault();
+    if (dragIndex !== null && dragIndex !== index) {
+      moveCheckpoint(dragIndex, index);
+    }
+    setDragIndex(null);
+    setDropIndex(null);
+  };
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-2">
+        <label className="block text-sm font-semibold text-deep-navy">Checkpoints</label>
+        <span className="text-xs text-gray-500">
+          {checkpoints.length}/{VALIDATION_LIMITS.MISSION_MAX_CHECKPOINTS}
+        </span>
+      </div>
+
+      <ol className="space-y-2">
+        {checkpoints.map((checkpoint, index) => (
+          <li
+            key={rowIds[index] ?? `new-${index}`}
+            onDragOver={(e) => {
+              e.preventDefault();
+              setDropIndex(index);
+            }}
+            onDragLeave={() => setDropIndex(current => (current === index ? null : current))}
+            onDrop={(e) => handleDrop(e, index)}
+            className={`flex items-center gap-2 p-2 rounded-lg border-2 bg-white transition-colors ${
+              dropIndex === index && dragIndex !== index ? 'border-sky-blue bg-sky-blue/5' : 'border-soft-gray'
+            } ${dragIndex === index ? 'opacity-50' : ''}`}
+          >
+            {/* Only the handle drags: a draggable row would swallow text selection in its input */}
+            <span
+              draggable
+              onDragStart={(e) => {
+                setDragIndex(index);
+                e.dataTransfer.effectAllowed = 'move';
+                e.dataTransfer.setData('text/plain', checkpoint); // Firefox only starts drags that carry data
+                const row = e.currentTarget.closest('li');
+                if (row) e.dataTransfer.setDragImage(row, 0, 0);
+              }}
+              onDragEnd={() => {
+                setDragIndex(null);
+                setDropIndex(null);
+              }}
+              className="cursor-grab active:cursor-grabbing text-gray-400 px-1 select-none"
+              aria-hidden="true"
+              title="Drag to reorder"
+            >
+              ⋮⋮
+            </span>
+            <span className="flex-shrink-0 w-7 h-7 bg-sky-blue text-white rounded-full flex items-center justify-center text-sm font-bold">
+              {index + 1}
+            </span>
+            <input
+              type="text"
+              value={checkpoint}
+              onChange={(e) => updateCheckpoint(index, e.target.value)}
+              maxLength={VALIDATION_LIMITS.MISSION_CHECKPOINT_MAX_LENGTH}
+              placeholder="What will the learner accomplish?"
+              aria-label={`Checkpoint ${index + 1}`}
+              className="flex-1 min-w-0 px-3 py-2 border border-soft-gray rounded-lg text-base text-deep-navy focus:outline-none focus:ring-2 focus:ring-sky-blue"
+            />
+            <div className="flex flex-shrink-0">
+              <button
+                type="button"
+                onClick={() => moveCheckpoint(index, index - 1)}
+                disabled={index === 0}
+                className="p-1.5 text-gray-500 hover:text-deep-navy disabled:opacity-30 disabled:cursor-not-allowed"
+                aria-label={`Move checkpoint ${index + 1} up`}
+              >
+                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24" strokeWidth={2}>
+                  <path strokeLinecap="round" strokeLinejoin="round" d="M5 15l7-7 7 7" />
+                </svg>
+              </button>
+              <button
+                type="button"
+                onClick={() => moveCheckpoint(index, index + 1)}
+                disabled={index === checkpoints.length - 1}
+                className="p-1.5 text-gray-500 hover:text-deep-navy disabled:opacity-30 disabled:cursor-not-allowed"
+                aria-label={`Move checkpoint ${index + 1} down`}
+              >
+                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24" strokeWidth={2}>
+                  <path strokeLinecap="round" strokeLinejoin="round" d="M19 9l-7 7-7-7" />
+                </svg>
+              </button>
+              <button
+                type="button"
+                onClick={() => removeCheckpoint(index)}
+                className="p-1.5 text-gray-500 hover:text-coral"
+                aria-label={`Remove checkpoint ${index + 1}`}
+              >
+                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24" strokeWidth={2}>
+                  <path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" />
+                </svg>
+              </button>
+            </div>
+          </li>
+        ))}
+      </ol>
+
+      <button
+        type="button"
+        onClick={addCheckpoint}
+        disabled={!canAdd}
+        className="mt-3 text-sm font-semibold text-sky-blue hover:text-deep-navy disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+      >
+        + Add checkpoint
+      </button>
+      {error && <p className="mt-1 text-sm text-coral">{error}</p>}
+    </div>
+  );
+};
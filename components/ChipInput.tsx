@@ -0,0 +1,67 @@
+import React, { useState } from 'react';
+import { sanitizeInput } from '../utils/validation';
+
+interface ChipInputProps {
+  label: string;
+  placeholder: string;
+  values: string[];
+  onChange: (values: string[]) => void;
+  maxLength?: number; // Per entry
+  error?: string | undefined;
+}
+
+// Free-text input that turns each entry into a removable chip
+export const ChipInput: React.FC<ChipInputProps> = ({ label, placeholder, values, onChange, maxLength, error }) => {
+  const [draft, setDraft] = useState('');
+
+  const addValue = () => {
+    const value = sanitizeInput(draft);
+    if (value && !values.some(v => v.toLowerCase() === value.toLowerCase())) {
+      onChange([...values, value]);
+    }
+    setDraft('');
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter' || e.key === ',') {
+      e.preventDefault();
+      addValue();
+    } else if (e.key === 'Backspace' && !draft && values.length > 0) {
+      onChange(values.slice(0, -1));
+    }
+  };
+
+  return (
+    <div>
+      <label className="block text-sm font-semibold text-deep-navy mb-2">{label}</label>
+      <div className={`flex flex-wrap items-center gap-2 px-3 py-2 border rounded-lg bg-white focus-within:ring-2 focus-within:ring-sky-blue ${
+        error ? 'border-coral' : 'border-soft-gray'
+      }`}>
+        {values.map(value => (
+          <span key={value} className="inline-flex items-center px-3 py-1 text-sm bg-sky-blue/10 text-sky-blue font-semibold rounded-full">
+            {value}
+            <button
+              type="button"
+              onClick={() => onChange(values.filter(v => v !== value))}
+              className="ml-2 hover:text-deep-navy"
+              aria-label={`Remove ${value}`}
+            >
+              ×
+            </button>
+          </span>
+        ))}
+        <input
+          type="text"
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onKeyDown={handleKeyDown}
+          onBlur={addValue}
+          placeholder={values.length === 0 ? placeholder : ''}
+          maxLength={maxLength}
+          className="flex-1 min-w-[8rem] py-1 text-base text-deep-navy focus:outline-none"
+        />
+      </div>
+      {error && <p className="mt-1 text-sm text-coral">{error}</p>}
+    </div>
+  );
+};
@@ -0,0 +1,126 @@
+import React, { useMemo, useState, useEffect } from 'react';
+import { TokenType, getLanguageLabel, parseHighlightedLines, tokenizeLines } from '../utils/highlight';
+
+interface CodeBlockProps {
+  code: string;
+  language: string | null;
+  // Fence meta, e.g. "{3-5}" to highlight lines 3 to 5
+  meta: string | null;
+  // User bubbles have white text on sky-blue, agent bubbles dark text on white
+  variant: 'light' | 'dark';
+}
+
+const TOKEN_CLASSES: Record<'light' | 'dark', Record<TokenType, string>> = {
+  light: {
+    plain: '',
+    comment: 'text-gray-500 italic',
+    string: 'text-green-700',
+    number: 'text-orange-700',
+    keyword: 'text-purple-700',
+    literal: 'text-orange-700',
+    function: 'text-blue-700',
+    type: 'text-teal-700',
+    property: 'text-sky-800',
+    tag: 'text-red-700',
+    variable: 'text-pink-700',
+  },
+  dark: {
+    plain: '',
+    comment: 'text-gray-400 italic',
+    string: 'text-green-300',
+    number: 'text-orange-300',
+    keyword: 'text-purple-300',
+    literal: 'text-orange-300',
+    function: 'text-blue-300',
+    type: 'text-teal-300',
+    property: 'text-sky-300',
+    tag: 'text-red-300',
+    variable: 'text-pink-300',
+  },
+};
+
+const VARIANT_CLASSES = {
+  light: {
+    container: 'bg-gray-50 border border-soft-gray text-deep-navy',
+    header: 'border-soft-gray text-gray-500',
+    gutter: 'text-gray-400',
+    highlight: 'bg-sky-blue/15 border-sky-blue',
+  },
+  dark: {
+    container: 'bg-deep-navy/90 text-gray-100',
+    header: 'border-white/10 text-gray-300',
+    gutter: 'text-gray-500',
+    highlight: 'bg-white/10 border-sky-blue',
+  },
+};
+
+const COPIED_RESET_MS = 2000;
+
+// Fenced code with highlighting, a language label, a copy button and line numbers
+export const CodeBlock: React.FC<CodeBlockProps> = ({ code, language, meta, variant }) => {
+  const lines = useMemo(() => tokenizeLines(code, language), [code, language]);
+  const highlighted = useMemo(() => parseHighlightedLines(meta), [meta]);
+  const [copyState, setCopyState] = useState<'idle' | 'copied' | 'failed'>('idle');
+  const styles = VARIANT_CLASSES[variant];
+  const tokenClasses = TOKEN_CLASSES[variant];
+  const showLineNumbers = lines.length > 1;
+
+  useEffect(() => {
+    if (copyState === 'idle') return;
+    const timeout = setTimeout(() => setCopyState('idle'), COPIED_RESET_MS);
+    return () => clearTimeout(timeout);
+  }, [copyState]);
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(code);
+      setCopyState('copied');
+    } catch {
+      setCopyState('failed');
+    }
+  };
+
+  return (
+    <div className={`my-2 rounded-lg overflow-hidden not-italic ${styles.container}`}>
+      <div className={`flex items-center justify-between gap-2 px-3 py-1 border-b text-[11px] font-semibold ${styles.header}`}>
+        <span className="uppercase tracking-wide">{language ? getLanguageLabel(language) : 'Code'}</span>
+        <button
+          type="button"
+          onClick={handleCopy}
+          className="px-2 py-0.5 rounded hover:bg-black/10 transition-colors"
+          aria-label="Copy code"
+        >
+          {copyState === 'copied' ? 'Copied!' : copyState === 'failed' ? 'Copy failed' : 'Copy'}
+        </button>
+      </div>
+      <pre className="overflow-x-auto py-2 text-xs sm:text-sm font-mono leading-relaxed">
+        <code className="block min-w-max">
+          {lines.map((tokens, index) => {
+            const lineNumber = index + 1;
+            const isHighlighted = highlighted.has(lineNumber);
+            // Lines are block elements so copying a selection keeps the line breaks
+            return (
+              <span
+                key={index}
+                className={`block pr-3 border-l-2 ${isHighlighted ? styles.highlight : 'border-transparent'}`}
+              >
+                {showLineNumbers && (
+                  <span className={`select-none inline-block w-8 pr-3 text-right ${styles.gutter}`} aria-hidden="true">
+                    {lineNumber}
+                  </span>
+                )}
+                <span className={showLineNumbers ? '' : 'pl-3'}>
+                  {tokens.length === 0
+                    ? '\n'
+                    : tokens.map((token, tokenIndex) => (
+                        <span key={tokenIndex} className={tokenClasses[token.type]}>{token.text}</span>
+                      ))}
+                </span>
+              </span>
+            );
+          })}
+        </code>
+      </pre>
+    </div>
+  );
+};
@@ -0,0 +1,150 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { CodeBlock } from './CodeBlock';
+import { CodeRun, ConsoleEntry, PlaygroundLanguage, runInSandbox } from '../utils/playground';
+
+interface CodePlaygroundProps {
+  code: string;
+  language: PlaygroundLanguage;
+  variant: 'light' | 'dark';
+  // Shares the last run with the agent; returns false when it couldn't be sent
+  onShare?: ((run: CodeRun) => boolean) | undefined;
+}
+
+type ShareState = 'idle' | 'sent' | 'failed';
+
+const LEVEL_CLASSES: Record<ConsoleEntry['level'], string> = {
+  log: 'text-gray-100',
+  info: 'text-sky-300',
+  warn: 'text-yellow-300',
+  error: 'text-red-300',
+};
+
+const describeRun = (run: CodeRun): string => {
+  const duration = `${run.duration_ms} ms`;
+  if (run.status === 'timeout') return `Stopped after ${duration} - is there an endless loop or a timer that never stops?`;
+  if (run.status === 'error') return `Finished with an error in ${duration}`;
+  return `Finished in ${duration}`;
+};
+
+// A runnable ```js/```ts block: edit the code, run it in a sandbox and see what it logs
+export const CodePlayground: React.FC<CodePlaygroundProps> = ({ code, language, variant, onShare }) => {
+  // Follows the (possibly still streaming) original until the learner edits it
+  const [edited, setEdited] = useState<string | null>(null);
+  const [isEditing, setIsEditing] = useState(false);
+  const [isRunning, setIsRunning] = useState(false);
+  const [run, setRun] = useState<CodeRun | null>(null);
+  const [shareState, setShareState] = useState<ShareState>('idle');
+  const isMountedRef = useRef(true);
+  const source = edited ?? code;
+
+  useEffect(() => {
+    isMountedRef.current = true;
+    return () => {
+      isMountedRef.current = false;
+    };
+  }, []);
+
+  const handleRun = async () => {
+    if (isRunning || !source.trim()) return;
+    setIsRunning(true);
+    const result = await runInSandbox(source, language);
+    if (!isMountedRef.current) return;
+    setRun(result);
+    setShareState('idle');
+    setIsRunning(false);
+  };
+
+  const handleShare = () => {
+    if (!run || !onShare) return;
+    setShareState(onShare(run) ? 'sent' : 'failed');
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (event.key === 'Enter' && (event.metaKey || event.ctrlKey)) {
+      event.preventDefault();
+      handleRun();
+    }
+  };
+
+  const buttonClass = variant === 'dark'
+    ? 'text-white border-white/40 hover:bg-white/10'
+    : 'text-sky-blue border-sky-blue/40 hover:bg-sky-blue/10';
+
+  return (
+    <div className="my-2 not-italic">
+      {isEditing ? (
+        <textarea
+          value={source}
+          onChange={(e) => setEdited(e.target.value)}
+          onKeyDown={handleKeyDown}
+          rows={Math.min(source.split('\n').length + 1, 20)}
+          spellCheck={false}
+          aria-label="Edit code"
+          className="block w-full my-2 rounded-lg px-3 py-2 bg-deep-navy/90 text-gray-100 text-xs sm:text-sm font-mono leading-relaxed resize-y focus:outline-none focus:ring-2 focus:ring-sky-blue"
+        />
+      ) : (
+        <CodeBlock code={source} language={language} meta={null} variant={variant} />
+      )}
+
+      <div className="flex flex-wrap items-center gap-2 text-xs">
+        <button
+          type="button"
+          onClick={handleRun}
+          disabled={isRunning || !source.trim()}
+          className="px-3 py-1 font-semibold bg-sky-blue text-white rounded-lg hover:bg-sky-blue/90 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          title="Run (Ctrl+Enter while editing)"
+        >
+          {isRunning ? 'Running...' : '▶ Run'}
+        </button>
+        <button
+          type="button"
+          onClick={() => setIsEditing(editing => !editing)}
+          className={`px-3 py-1 font-semibold border rounded-lg transition-colors ${buttonClass}`}
+        >
+          {isEditing ? 'Done editing' : 'Edit'}
+        </button>
+        {edited !== null && edited !== code && (
+          <button
+            type="button"
+            onClick={() => setEdited(null)}
+            className="font-semibold underline hover:no-underline opacity-80"
+          >
+            Reset
+          </button>
+        )}
+        {run && onShare && (
+          <span className="ml-auto">
+            {shareState === 'sent' ? (
+              <span className="opacity-70">Sent to Lumina</span>
+            ) : (
+              <button
+                type="button"
+                onClick={handleShare}
+                className={`font-semibold underline hover:no-underline ${shareState === 'failed' ? 'text-coral' : ''}`}
+              >
+                {shareState === 'failed' ? "Couldn't send - retry" : 'Send code and output to Lumina'}
+              </button>
+            )}
+          </span>
+        )}
+      </div>
+
+      {run && (
+        <div className="mt-2 rounded-lg bg-deep-navy/90 text-xs font-mono overflow-hidden" aria-live="polite">
+          <div className="max-h-60 overflow-auto px-3 py-2 space-y-0.5">
+            {run.output.length === 0 ? (
+              <p className="text-gray-400 italic">No console output</p>
+            ) : (
+              run.output.map((entry, index) => (
+                <p key={index} className={`whitespace-pre-wrap break-words ${LEVEL_CLASSES[entry.level]}`}>{entry.text}</p>
+              ))
+            )}
+          </div>
+          <p className={`px-3 py-1 border-t border-white/10 font-sans ${run.status === 'ok' ? 'text-gray-400' : 'text-red-300'}`}>
+            {describeRun(run)}
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,56 @@
+import React, { useEffect, useState } from 'react';
+import { AgentConnectionSnapshot } from '../utils/agentSocket';
+
+interface ConnectionStatusProps {
+  connection: AgentConnectionSnapshot;
+}
+
+// Seconds until the next scheduled reconnect, ticking once per second
+const useRetryCountdown = (nextRetryAt: number | null): number | null => {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    if (nextRetryAt === null) return;
+    setNow(Date.now());
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [nextRetryAt]);
+
+  if (nextRetryAt === null) return null;
+  return Math.max(0, Math.ceil((nextRetryAt - now) / 1000));
+};
+
+export const ConnectionStatus: React.FC<ConnectionStatusProps> = ({ connection }) => {
+  const countdown = useRetryCountdown(connection.nextRetryAt);
+
+  const getStatus = (): { dotClass: string; label: string } => {
+    switch (connection.state) {
+      case 'open':
+        return { dotClass: 'bg-green-400 animate-pulse', label: 'Connected' };
+      case 'connecting':
+        return { dotClass: 'bg-yellow-400 animate-pulse', label: 'Connecting...' };
+      case 'reconnecting':
+        return {
+          dotClass: 'bg-yellow-400 animate-pulse',
+          label: countdown !== null && countdown > 0
+            ? `Reconnecting in ${countdown}s (attempt ${connection.attempt})`
+            : 'Reconnecting...',
+        };
+      case 'failed':
+        return { dotClass: 'bg-coral', label: 'Disconnected' };
+      case 'closed':
+        return { dotClass: 'bg-gray-300', label: 'Session ended' };
+      default:
+        return { dotClass: 'bg-gray-300', label: 'Offline' };
+    }
+  };
+
+  const { dotClass, label } = getStatus();
+
+  return (
+    <div className="flex items-center space-x-2 flex-shrink-0" role="status" aria-live="polite">
+      <div className={`w-3 h-3 rounded-full ${dotClass}`}></div>
+      <span className="hidden sm:inline text-xs text-gray-500">{label}</span>
+    </div>
+  );
+};
@@ -0,0 +1,46 @@
+import React from 'react';
+import { UserEnrolledMission } from '../types';
+import { RocketIcon } from './icons/RocketIcon';
+import { formatRelativeTime, getNextCheckpoint } from '../utils/enrollments';
+
+interface ContinueMissionHeroProps {
+  enrollment: UserEnrolledMission;
+  onContinue: () => void;
+}
+
+// "Continue where you left off" banner for the most recently accessed unfinished mission
+export const ContinueMissionHero: React.FC<ContinueMissionHeroProps> = ({ enrollment, onContinue }) => {
+  const progress = Math.round(enrollment.progress ?? 0);
+  const nextCheckpoint = getNextCheckpoint(enrollment);
+
+  return (
+    <section className="mb-12 bg-gradient-to-r from-deep-navy to-deep-navy/90 rounded-2xl shadow-xl p-6 sm:p-8 text-white">
+      <div className="flex flex-col md:flex-row md:items-center gap-6">
+        <div className="flex-1 min-w-0">
+          <p className="text-sm font-semibold uppercase tracking-wide text-sky-blue mb-2">
+            Continue where you left off · {formatRelativeTime(enrollment.last_accessed_at)}
+          </p>
+          <h2 className="text-2xl sm:text-3xl font-bold truncate">{enrollment.mission_title}</h2>
+          {nextCheckpoint && (
+            <p className="mt-2 text-white/80 line-clamp-2">
+              <span className="font-semibold text-white">Up next:</span> {nextCheckpoint}
+            </p>
+          )}
+          <div className="mt-4 flex items-center gap-3 max-w-md">
+            <div className="flex-1 h-2 bg-white/20 rounded-full overflow-hidden">
+              <div className="h-full bg-sky-blue rounded-full transition-all duration-500" style={{ width: `${progress}%` }}></div>
+            </div>
+            <span className="text-sm font-semibold">{progress}%</span>
+          </div>
+        </div>
+        <button
+          onClick={onContinue}
+          className="flex items-center justify-center px-8 py-4 bg-coral text-white font-semibold rounded-lg shadow-md hover:bg-coral/90 transition-colors duration-300 transform hover:scale-105 flex-shrink-0"
+        >
+          <RocketIcon className="h-5 w-5 mr-2" strokeWidth={2} />
+          Continue
+        </button>
+      </div>
+    </section>
+  );
+};
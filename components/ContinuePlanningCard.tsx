@@ -0,0 +1,45 @@
+import React from 'react';
+import { SessionResponse } from '../types';
+
+interface ContinuePlanningCardProps {
+  session: SessionResponse;
+  onContinue: () => void;
+  onDiscard: () => void;
+}
+
+const formatStarted = (dateString: string) =>
+  new Date(dateString).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+
+// An unfinished conversation with Polaris, offered for resuming on the dashboard
+export const ContinuePlanningCard: React.FC<ContinuePlanningCardProps> = ({ session, onContinue, onDiscard }) => (
+  <div className="bg-white rounded-xl shadow-md border border-sky-blue/30 p-5 flex flex-col sm:flex-row sm:items-center gap-4">
+    <div className="flex-1 min-w-0">
+      <p className="text-xs font-semibold uppercase tracking-wide text-sky-blue mb-1">Planning with Polaris</p>
+      <p className="text-deep-navy font-semibold">
+        Started {formatStarted(session.created_at)}
+      </p>
+      {session.last_message && (
+        <p className="text-sm text-gray-600 mt-1 truncate">“{session.last_message}”</p>
+      )}
+    </div>
+    <div className="flex gap-3 flex-shrink-0">
+      <button
+        onClick={onDiscard}
+        className="px-4 py-2 text-sm font-semibold text-gray-600 hover:text-coral transition-colors"
+      >
+        Discard
+      </button>
+      <button
+        onClick={onContinue}
+        className="px-5 py-2 bg-sky-blue text-white text-sm font-semibold rounded-lg shadow-sm hover:bg-sky-blue/90 transition-colors"
+      >
+        Continue planning
+      </button>
+    </div>
+  </div>
+);
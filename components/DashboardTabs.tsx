@@ -0,0 +1,36 @@
+import React from 'react';
+import { DASHBOARD_TABS, DashboardTab } from '../utils/enrollments';
+
+interface DashboardTabsProps {
+  activeTab: DashboardTab;
+  onChange: (tab: DashboardTab) => void;
+  counts: Record<DashboardTab, number>;
+}
+
+// In Progress / Completed / Archived switcher above the enrolled missions grid
+export const DashboardTabs: React.FC<DashboardTabsProps> = ({ activeTab, onChange, counts }) => (
+  <div className="flex gap-6 border-b border-soft-gray" role="tablist" aria-label="My missions">
+    {DASHBOARD_TABS.map(tab => {
+      const isActive = tab.id === activeTab;
+      return (
+        <button
+          key={tab.id}
+          type="button"
+          role="tab"
+          aria-selected={isActive}
+          onClick={() => onChange(tab.id)}
+          className={`-mb-px flex items-center gap-2 pb-3 border-b-2 text-base font-semibold transition-colors ${
+            isActive ? 'border-coral text-deep-navy' : 'border-transparent text-gray-500 hover:text-deep-navy'
+          }`}
+        >
+          {tab.label}
+          <span className={`min-w-[1.5rem] px-1.5 py-0.5 rounded-full text-xs ${
+            isActive ? 'bg-coral/10 text-coral' : 'bg-soft-gray text-gray-600'
+          }`}>
+            {counts[tab.id]}
+          </span>
+        </button>
+      );
+    })}
+  </div>
+);
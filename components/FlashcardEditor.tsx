@@ -0,0 +1,93 @@
+import React, { useEffect, useState } from 'react';
+import { createPortal } from 'react-dom';
+import { FlashcardInput } from '../types';
+
+interface FlashcardEditorProps {
+  initialCard: FlashcardInput;
+  onSave: (card: FlashcardInput) => Promise<void>;
+  onCancel: () => void;
+}
+
+// Modal for writing a card before it's saved; prefilled from the chat message it came from
+export const FlashcardEditor: React.FC<FlashcardEditorProps> = ({ initialCard, onSave, onCancel }) => {
+  const [front, setFront] = useState(initialCard.front);
+  const [back, setBack] = useState(initialCard.back);
+  const [isSaving, setIsSaving] = useState(false);
+  const canSave = front.trim().length > 0 && back.trim().length > 0 && !isSaving;
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onCancel();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onCancel]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!canSave) return;
+    setIsSaving(true);
+    try {
+      await onSave({ ...initialCard, front: front.trim(), back: back.trim() });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return createPortal(
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-[60] p-4" onClick={onCancel}>
+      <form
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="flashcard-editor-title"
+        className="bg-white rounded-lg shadow-xl w-full max-w-lg p-6 animate-slide-up"
+        onClick={(e) => e.stopPropagation()}
+        onSubmit={handleSubmit}
+      >
+        <h2 id="flashcard-editor-title" className="text-xl font-semibold text-deep-navy">New flashcard</h2>
+        {initialCard.checkpoint && (
+          <p className="text-sm text-gray-500 mt-1">Checkpoint: {initialCard.checkpoint}</p>
+        )}
+
+        <label className="block mt-5">
+          <span className="text-sm font-semibold text-gray-600">Front (question)</span>
+          <textarea
+            value={front}
+            onChange={(e) => setFront(e.target.value)}
+            rows={2}
+            autoFocus
+            placeholder="What should you be able to recall?"
+            className="mt-1 w-full rounded-lg border border-soft-gray px-3 py-2 text-deep-navy focus:outline-none focus:ring-2 focus:ring-sky-blue"
+          />
+        </label>
+        <label className="block mt-4">
+          <span className="text-sm font-semibold text-gray-600">Back (answer)</span>
+          <textarea
+            value={back}
+            onChange={(e) => setBack(e.target.value)}
+            rows={5}
+            className="mt-1 w-full rounded-lg border border-soft-gray px-3 py-2 text-deep-navy focus:outline-none focus:ring-2 focus:ring-sky-blue"
+          />
+        </label>
+
+        <div className="flex justify-end gap-3 mt-6">
+          <button
+            type="button"
+            onClick={onCancel}
+            className="px-5 py-2.5 border border-soft-gray text-deep-navy font-semibold rounded-lg hover:bg-soft-gray transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            type="submit"
+            disabled={!canSave}
+            className="px-5 py-2.5 bg-coral text-white font-semibold rounded-lg shadow-md hover:bg-coral/90 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isSaving ? 'Saving...' : 'Save card'}
+          </button>
+        </div>
+      </form>
+    </div>,
+    document.body
+  );
+};
@@ -1,8 +1,10 @@
-import React, { useState } from 'react';
+import React from 'react';
+import { Link, useLocation, useNavigate } from 'react-router-dom';
 import { LogoutIcon } from './icons/LogoutIcon';
 import { GearIcon } from './icons/GearIcon';
-import { SettingsModal } from './SettingsModal';
+import { ChartIcon } from './icons/ChartIcon';
 import { useAuth } from '../contexts/AuthContext';
+import { ROUTES, RouteState } from '../routes';
 import logoImage from './icons/logo/logo.png';
 
 interface HeaderProps {
@@ -11,7 +13,14 @@ interface HeaderProps {
 
 const Header: React.FC<HeaderProps> = ({ onLogout }) => {
   const { userProfile, loading } = useAuth();
-  const [showSettings, setShowSettings] = useState(false);
+  const location = useLocation();
+  const navigate = useNavigate();
+
+  // Open settings on top of the current page so closing it returns here
+  const handleOpenSettings = () => {
+    const state: RouteState = { backgroundLocation: location };
+    navigate(ROUTES.SETTINGS, { state });
+  };
 
   // Get user initials for avatar
   const getUserInitials = (name: string | null, email: string | null) => {
@@ -33,10 +42,10 @@ const Header: React.FC<HeaderProps> = ({ onLogout }) => {
     <header className="bg-white shadow-md sticky top-0 z-50">
       <div className="container mx-auto px-4 sm:px-6 lg:px-8">
         <div className="flex items-center justify-between h-20">
-          <div className="flex items-center space-x-3">
+          <Link to={ROUTES.HOME} className="flex items-center space-x-3">
             <img src={logoImage} alt="Learnforge Logo" className="h-20 w-20" />
             <span className="text-2xl font-bold text-deep-navy">Learnforge</span>
-          </div>
+          </Link>
           <div className="flex items-center space-x-4">
             <div className="flex items-center space-x-3">
               {loading ? (
@@ -71,8 +80,15 @@ const Header: React.FC<HeaderProps> = ({ onLogout }) => {
                 </p>
               </div>
             </div>
+            <Link
+              to={ROUTES.ANALYTICS}
+              className="p-2 rounded-full text-gray-500 hover:bg-soft-gray hover:text-deep-navy focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-sky-blue transition-colors"
+              aria-label="Analytics"
+            >
+              <ChartIcon className="h-6 w-6" />
+            </Link>
             <button
-              onClick={() => setShowSettings(true)}
+              onClick={handleOpenSettings}
               className="p-2 rounded-full text-gray-500 hover:bg-soft-gray hover:text-deep-navy focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-sky-blue transition-colors"
               aria-label="Settings"
             >
@@ -88,7 +104,6 @@ const Header: React.FC<HeaderProps> = ({ onLogout }) => {
           </div>
         </div>
       </div>
-      <SettingsModal isOpen={showSettings} onClose={() => setShowSettings(false)} />
     </header>
   );
 };
@@ -0,0 +1,176 @@
+import React, { useMemo, useState } from 'react';
+import { QuizQuestion, QuizResult, parseQuizBlock, gradeQuiz, isCorrectAnswer } from '../utils/quiz';
+
+interface InlineQuizProps {
+  // JSON body of a ```quiz fenced block
+  source: string;
+  // Rendered instead when the block isn't a valid quiz (e.g. while it's still streaming in)
+  fallback: React.ReactNode;
+  // Called once every question is checked; returns false when the result couldn't be sent
+  onComplete?: ((result: QuizResult) => boolean) | undefined;
+}
+
+type SubmitState = 'idle' | 'sent' | 'failed';
+
+const QuestionInput: React.FC<{
+  quizId: string;
+  question: QuizQuestion;
+  value: string;
+  disabled: boolean;
+  onChange: (value: string) => void;
+}> = ({ quizId, question, value, disabled, onChange }) => {
+  if (question.kind === 'multiple_choice') {
+    return (
+      <div className="space-y-2" role="radiogroup">
+        {question.options?.map(option => (
+          <label
+            key={option}
+            className={`flex items-center gap-2 px-3 py-2 rounded-lg border cursor-pointer transition-colors ${
+              value === option ? 'border-sky-blue bg-sky-blue/10' : 'border-soft-gray hover:bg-gray-50'
+            } ${disabled ? 'cursor-default' : ''}`}
+          >
+            <input
+              type="radio"
+              name={`${quizId}:${question.id}`} // Radio groups are document-wide and question ids repeat across quizzes
+              value={option}
+              checked={value === option}
+              disabled={disabled}
+              onChange={() => onChange(option)}
+              className="accent-sky-blue"
+            />
+            <span>{option}</span>
+          </label>
+        ))}
+      </div>
+    );
+  }
+
+  if (question.kind === 'code_output') {
+    return (
+      <textarea
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        disabled={disabled}
+        rows={3}
+        placeholder="What does this print?"
+        className="w-full rounded-lg border border-soft-gray px-3 py-2 font-mono text-sm focus:outline-none focus:ring-2 focus:ring-sky-blue disabled:bg-gray-50"
+      />
+    );
+  }
+
+  return (
+    <input
+      type="text"
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      disabled={disabled}
+      placeholder="Fill in the blank"
+      className="w-full rounded-lg border border-soft-gray px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-sky-blue disabled:bg-gray-50"
+    />
+  );
+};
+
+// Interactive quiz embedded in an agent reply: each question is checked on its own for immediate
+// feedback, and the graded quiz is reported once every question has been answered
+export const InlineQuiz: React.FC<InlineQuizProps> = ({ source, fallback, onComplete }) => {
+  const parsed = useMemo(() => parseQuizBlock(source), [source]);
+  const [answers, setAnswers] = useState<Record<string, string>>({});
+  const [checked, setChecked] = useState<Record<string, boolean>>({});
+  const [submitState, setSubmitState] = useState<SubmitState>('idle');
+
+  if (!parsed.ok) {
+    return <>{fallback}</>;
+  }
+
+  const quiz = parsed.quiz;
+  const allChecked = quiz.questions.every(question => checked[question.id]);
+  const result = allChecked ? gradeQuiz(quiz, answers) : null;
+
+  const submit = (nextChecked: Record<string, boolean>) => {
+    if (!onComplete || !quiz.questions.every(question => nextChecked[question.id])) return;
+    setSubmitState(onComplete(gradeQuiz(quiz, answers)) ? 'sent' : 'failed');
+  };
+
+  const handleCheck = (questionId: string) => {
+    const nextChecked = { ...checked, [questionId]: true };
+    setChecked(nextChecked);
+    submit(nextChecked);
+  };
+
+  return (
+    <div className="my-3 rounded-xl border-2 border-sky-blue/30 bg-white text-deep-navy not-italic">
+      <div className="px-4 py-3 border-b border-soft-gray flex items-center justify-between gap-3">
+        <p className="font-semibold">{quiz.title || 'Quick check'}</p>
+        <span className="text-xs text-gray-500">
+          {quiz.questions.length} {quiz.questions.length === 1 ? 'question' : 'questions'}
+        </span>
+      </div>
+
+      <ol className="divide-y divide-soft-gray">
+        {quiz.questions.map((question, index) => {
+          const value = answers[question.id] ?? '';
+          const isChecked = checked[question.id] ?? false;
+          const isCorrect = isChecked && isCorrectAnswer(question, value);
+          return (
+            <li key={question.id} className="px-4 py-4 space-y-3">
+              <p className="text-sm font-medium">
+                <span className="text-gray-400 mr-1">{index + 1}.</span>
+                {question.prompt}
+              </p>
+              {question.code && (
+                <pre className="bg-black/5 p-3 rounded-lg overflow-x-auto text-xs font-mono">{question.code}</pre>
+              )}
+              <QuestionInput
+                quizId={quiz.id}
+                question={question}
+                value={value}
+                disabled={isChecked}
+                onChange={(next) => setAnswers(prev => ({ ...prev, [question.id]: next }))}
+              />
+              {isChecked ? (
+                <div
+                  className={`rounded-lg px-3 py-2 text-sm ${isCorrect ? 'bg-green-50 text-green-800' : 'bg-coral/10 text-coral'}`}
+                  role="status"
+                >
+                  <p className="font-semibold">
+                    {isCorrect ? 'Correct!' : (
+                      <>Not quite. Answer: <span className="font-mono whitespace-pre-wrap">{question.answer}</span></>
+                    )}
+                  </p>
+                  {question.explanation && <p className="mt-1 text-deep-navy">{question.explanation}</p>}
+                </div>
+              ) : (
+                <button
+                  type="button"
+                  onClick={() => handleCheck(question.id)}
+                  disabled={!value.trim()}
+                  className="px-4 py-1.5 text-sm font-semibold bg-sky-blue text-white rounded-lg hover:bg-sky-blue/90 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  Check
+                </button>
+              )}
+            </li>
+          );
+        })}
+      </ol>
+
+      {result && (
+        <div className="px-4 py-3 border-t border-soft-gray flex flex-wrap items-center justify-between gap-2 text-sm">
+          <p className="font-semibold">
+            {result.score} / {result.total} correct{result.passed ? ' - passed!' : ''}
+          </p>
+          {submitState === 'sent' && <span className="text-gray-500">Results shared</span>}
+          {submitState === 'failed' && (
+            <button
+              type="button"
+              onClick={() => submit(checked)}
+              className="font-semibold text-coral underline hover:no-underline"
+            >
+              Couldn't share results - retry
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,14 +1,15 @@
 import React from 'react';
+import { CheckpointStatus } from '../types';
 import { RocketIcon } from './icons/RocketIcon';
 import { CheckpointItem } from './CheckpointItem';
 
-type CheckpointStatus = 'completed' | 'locked' | 'available';
-
 interface JourneyMapProps {
   checkpoints: string[];
   completedCheckpoints: string[];
   progressPercentage: number;
   getCheckpointStatus: (checkpoint: string, index: number) => CheckpointStatus;
+  focusedCheckpointIndex?: number | null; // Checkpoint deep-linked through the URL
+  onSelectCheckpoint?: ((index: number) => void) | undefined;
   width?: number; // Percentage width
 }
 
@@ -17,6 +18,8 @@ export const JourneyMap: React.FC<JourneyMapProps> = ({
   completedCheckpoints,
   progressPercentage,
   getCheckpointStatus,
+  focusedCheckpointIndex = null,
+  onSelectCheckpoint,
   width = 40,
 }) => {
   const isCompleted = completedCheckpoints.length === checkpoints.length;
@@ -78,6 +81,8 @@ export const JourneyMap: React.FC<JourneyMapProps> = ({
                   index={index}
                   status={status}
                   isEven={isEven}
+                  isFocused={index === focusedCheckpointIndex}
+                  onSelect={onSelectCheckpoint && (() => onSelectCheckpoint(index))}
                 />
               );
             })}
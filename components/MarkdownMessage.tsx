@@ -1,82 +1,56 @@
 import React, { useMemo, memo } from 'react';
-import ReactMarkdown, { Components } from 'react-markdown';
+import ReactMarkdown, { Components, ExtraProps } from 'react-markdown';
 import remarkGfm from 'remark-gfm';
 import remarkBreaks from 'remark-breaks';
-import DOMPurify from 'dompurify';
+import remarkMath from 'remark-math';
+import { InlineQuiz } from './InlineQuiz';
+import { CodeBlock } from './CodeBlock';
+import { CodePlayground } from './CodePlayground';
+import { RichEmbed } from './RichEmbed';
+import { MathFormula } from './MathFormula';
+import { MermaidDiagram } from './MermaidDiagram';
+import { QuizResult } from '../utils/quiz';
+import { preprocessMarkdown } from '../utils/markdown';
+import { CodeRun, getPlaygroundLanguage } from '../utils/playground';
+import { findEmbed } from '../utils/embeds';
 
 interface MarkdownMessageProps {
   content: string;
   className?: string;
+  // Receives the graded answers of ```quiz blocks; without it quizzes still give feedback
+  onQuizComplete?: ((result: QuizResult) => boolean) | undefined;
+  // Lets learners send what they ran in ```js runnable blocks; without it the blocks still run
+  onShareCodeRun?: ((run: CodeRun) => boolean) | undefined;
 }
 
-// Extract YouTube video ID from various URL formats
-const getYouTubeVideoId = (url: string): string | null => {
-  const patterns = [
-    /(?:youtube\.com\/watch\?v=|youtu\.be\/|youtube\.com\/embed\/)([^&\n?#]+)/,
-    /youtube\.com\/watch\?.*v=([^&\n?#]+)/,
-  ];
-  
-  for (const pattern of patterns) {
-    const match = url.match(pattern);
-    if (match && match[1]) {
-      return match[1];
-    }
-  }
-  return null;
-};
+interface FencedCode {
+  code: string;
+  language: string | null;
+  meta: string | null; // Text after the language, e.g. "{3-5}"
+}
 
-// Check if URL is a YouTube URL
-const isYouTubeUrl = (url: string): boolean => {
-  return /youtube\.com|youtu\.be/.test(url);
+// The fenced block inside the children ReactMarkdown passes to `pre`
+const getFencedCode = (children: React.ReactNode): FencedCode | null => {
+  if (!React.isValidElement<{ className?: string; children?: React.ReactNode } & ExtraProps>(children)) return null;
+  const { className, children: code, node } = children.props;
+  if (typeof code !== 'string') return null;
+  const meta = node?.data && 'meta' in node.data && typeof node.data.meta === 'string' ? node.data.meta : null;
+  return {
+    code: code.replace(/\n$/, ''),
+    language: className?.match(/language-(\S+)/)?.[1] ?? null,
+    meta,
+  };
 };
 
-// Memoized YouTube iframe component to prevent re-renders and thumbnail refetches
-const YouTubeEmbed = memo<{ videoId: string; href: string; textColorClass: string; children?: React.ReactNode }>(
-  ({ videoId, href, textColorClass, children }) => {
-    // Use a stable embed URL with caching-friendly parameters
-    const embedUrl = useMemo(() => `https://www.youtube.com/embed/${videoId}`, [videoId]);
-    
-    return (
-      <div className="my-4 w-full">
-        <div className="relative w-full" style={{ paddingBottom: '56.25%' }}>
-          <iframe
-            key={videoId} // Key ensures React reuses the same iframe instance
-            className="absolute top-0 left-0 w-full h-full rounded-lg"
-            src={embedUrl}
-            title="YouTube video player"
-            frameBorder="0"
-            allow="accelerometer; autoplay; clipboard-write; encrypted-media; gyroscope; picture-in-picture"
-            allowFullScreen
-            loading="lazy" // Lazy load to reduce initial network requests
-          />
-        </div>
-        <a 
-          href={href} 
-          target="_blank" 
-          rel="noopener noreferrer"
-          className={`text-xs mt-2 block underline hover:opacity-80 ${textColorClass}`}
-        >
-          {children || href}
-        </a>
-      </div>
-    );
-  }
-);
-
-YouTubeEmbed.displayName = 'YouTubeEmbed';
-
 const MarkdownMessageComponent: React.FC<MarkdownMessageProps> = ({ 
   content, 
-  className = '' 
+  className = '',
+  onQuizComplete,
+  onShareCodeRun,
 }) => {
-  // Memoize processed content to prevent unnecessary re-processing
-  const processedContent = useMemo(() => {
-    return content.replace(/\\n/g, '\n');
-  }, [content]);
-  
-  const sanitizedContent = useMemo(() => {
-    return DOMPurify.sanitize(processedContent);
-  }, [processedContent]);
+  // Memoize processed content to prevent unnecessary re-processing. Raw HTML in it is shown
+  // as text (there is no rehype-raw), so code samples like `a < b` reach the renderer untouched.
+  const processedContent = useMemo(() => preprocessMarkdown(content), [content]);
   
   // Memoize style classes to prevent recalculation
   const isWhiteText = useMemo(() => className.includes('text-white'), [className]);
@@ -94,15 +68,39 @@ const MarkdownMessageComponent: React.FC<MarkdownMessageProps> = ({
     ul: ({ children }) => <ul className={`list-disc list-inside mb-2 space-y-1 ${textColorClass}`}>{children}</ul>,
     ol: ({ children }) => <ol className={`list-decimal list-inside mb-2 space-y-1 ${textColorClass}`}>{children}</ol>,
     li: ({ children }) => <li className={`text-sm ${textColorClass}`}>{children}</li>,
+    // Fenced blocks are rendered by `pre` below, so this only sees inline code and inline math
     code: ({ children, className: codeClassName }) => {
-      const isInline = !codeClassName?.includes('language-');
-      return isInline ? (
+      const inlineCode = (
         <code className={`${codeBgClass} px-1 py-0.5 rounded text-sm font-mono ${textColorClass}`}>{children}</code>
-      ) : (
-        <code className={`block ${codeBgClass} p-2 rounded text-sm font-mono overflow-x-auto ${textColorClass}`}>{children}</code>
       );
+      return codeClassName?.includes('math-inline') && typeof children === 'string'
+        ? <MathFormula tex={children} displayMode={false} fallback={inlineCode} />
+        : inlineCode;
+    },
+    pre: ({ children }) => {
+      const fenced = getFencedCode(children);
+      if (!fenced) {
+        return <pre className={`${codeBgClass} p-2 rounded overflow-x-auto mb-2 ${textColorClass}`}>{children}</pre>;
+      }
+      const variant = isWhiteText ? 'dark' : 'light';
+      const playgroundLanguage = getPlaygroundLanguage(fenced.language, fenced.meta);
+      if (playgroundLanguage) {
+        return <CodePlayground code={fenced.code} language={playgroundLanguage} variant={variant} onShare={onShareCodeRun} />;
+      }
+      const block = (
+        <CodeBlock code={fenced.code} language={fenced.language} meta={fenced.meta} variant={variant} />
+      );
+      switch (fenced.language) {
+        case 'quiz':
+          return <InlineQuiz source={fenced.code} fallback={block} onComplete={onQuizComplete} />;
+        case 'mermaid':
+          return <MermaidDiagram code={fenced.code} fallback={block} />;
+        case 'math':
+          return <MathFormula tex={fenced.code} displayMode fallback={block} />;
+        default:
+          return block;
+      }
     },
-    pre: ({ children }) => <pre className={`${codeBgClass} p-2 rounded overflow-x-auto mb-2 ${textColorClass}`}>{children}</pre>,
     blockquote: ({ children }) => (
       <blockquote className={`border-l-4 ${borderColorClass} pl-4 italic mb-2 ${textColorClass}`}>{children}</blockquote>
     ),
@@ -111,22 +109,15 @@ const MarkdownMessageComponent: React.FC<MarkdownMessageProps> = ({
     a: ({ children, href }) => {
       if (!href) return <a className={`underline hover:opacity-80 ${textColorClass}`}>{children}</a>;
       
-      // Check if it's a YouTube URL and extract video ID
-      if (isYouTubeUrl(href)) {
-        const videoId = getYouTubeVideoId(href);
-        if (videoId) {
-          return (
-            <YouTubeEmbed 
-              videoId={videoId} 
-              href={href} 
-              textColorClass={textColorClass}
-            >
-              {children}
-            </YouTubeEmbed>
-          );
-        }
+      const embed = findEmbed(href);
+      if (embed) {
+        return (
+          <RichEmbed embed={embed} href={href} textColorClass={textColorClass}>
+            {children}
+          </RichEmbed>
+        );
       }
-      
+
       // Regular link
       return (
         <a 
@@ -150,15 +141,15 @@ const MarkdownMessageComponent: React.FC<MarkdownMessageProps> = ({
     th: ({ children }) => <th className={`px-3 py-2 text-left font-semibold text-sm ${textColorClass}`}>{children}</th>,
     td: ({ children }) => <td className={`px-3 py-2 text-sm ${textColorClass}`}>{children}</td>,
     br: () => <br />,
-  }), [textColorClass, codeBgClass, borderColorClass, isWhiteText]);
+  }), [textColorClass, codeBgClass, borderColorClass, isWhiteText, onQuizComplete, onShareCodeRun]);
   
   return (
     <div className={`markdown-content ${className}`}>
       <ReactMarkdown
-        remarkPlugins={[remarkGfm, remarkBreaks]}
+        remarkPlugins={[remarkGfm, remarkBreaks, remarkMath]}
         components={markdownComponents}
       >
-        {sanitizedContent}
+        {processedContent}
       </ReactMarkdown>
     </div>
   );
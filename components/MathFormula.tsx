@@ -0,0 +1,59 @@
+import React, { useState, useEffect, useMemo } from 'react';
+
+type Katex = typeof import('katex').default;
+
+// KaTeX and its stylesheet are only fetched once a message actually contains math
+let katexModule: Katex | null = null;
+let katexPromise: Promise<Katex> | null = null;
+
+const loadKatex = (): Promise<Katex> => {
+  katexPromise ??= Promise.all([import('katex'), import('katex/dist/katex.min.css')])
+    .then(([{ default: katex }]) => (katexModule = katex))
+    .catch(error => {
+      katexPromise = null; // Let the next formula try again
+      throw error;
+    });
+  return katexPromise;
+};
+
+interface MathFormulaProps {
+  tex: string;
+  displayMode: boolean;
+  // Shown while KaTeX loads and when the TeX doesn't parse
+  fallback: React.ReactNode;
+}
+
+// LaTeX rendered with KaTeX, inline or as a centred block
+export const MathFormula: React.FC<MathFormulaProps> = ({ tex, displayMode, fallback }) => {
+  const [katex, setKatex] = useState<Katex | null>(katexModule);
+
+  useEffect(() => {
+    if (katex) return;
+    let cancelled = false;
+    loadKatex()
+      .then(module => {
+        if (!cancelled) setKatex(module);
+      })
+      .catch(error => console.error('Failed to load the math renderer:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [katex]);
+
+  const html = useMemo(() => {
+    if (!katex) return null;
+    try {
+      return katex.renderToString(tex, { displayMode, throwOnError: true });
+    } catch {
+      return null;
+    }
+  }, [katex, tex, displayMode]);
+
+  if (html === null) return <>{fallback}</>;
+
+  return displayMode ? (
+    <div className="my-2 overflow-x-auto overflow-y-hidden" dangerouslySetInnerHTML={{ __html: html }} />
+  ) : (
+    <span dangerouslySetInnerHTML={{ __html: html }} />
+  );
+};
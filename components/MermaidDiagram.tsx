@@ -0,0 +1,98 @@
+import React, { useState, useEffect } from 'react';
+
+type Mermaid = typeof import('mermaid').default;
+
+// Wait for the source to settle so a streaming reply isn't re-rendered on every delta
+const RENDER_DELAY_MS = 300;
+
+let mermaidPromise: Promise<Mermaid> | null = null;
+
+const loadMermaid = (): Promise<Mermaid> => {
+  mermaidPromise ??= import('mermaid')
+    .then(({ default: mermaid }) => {
+      mermaid.initialize({ startOnLoad: false, securityLevel: 'strict', theme: 'neutral', suppressErrorRendering: true });
+      return mermaid;
+    })
+    .catch(error => {
+      mermaidPromise = null;
+      throw error;
+    });
+  return mermaidPromise;
+};
+
+// Mermaid renders through a shared scratch element, so diagrams are drawn one at a time
+let renderQueue: Promise<unknown> = Promise.resolve();
+let diagramCount = 0;
+
+// SVG markup for the diagram, or null when the source isn't a valid diagram
+const renderDiagram = (code: string): Promise<string | null> => {
+  const render = renderQueue.then(async () => {
+    const mermaid = await loadMermaid();
+    if (!(await mermaid.parse(code, { suppressErrors: true }))) return null;
+    const { svg } = await mermaid.render(`mermaid-diagram-${++diagramCount}`, code);
+    return svg;
+  });
+  renderQueue = render.catch(() => null);
+  return render;
+};
+
+interface MermaidDiagramProps {
+  code: string;
+  // The source as a code block, shown while rendering and when the diagram is malformed
+  fallback: React.ReactNode;
+}
+
+type DiagramState = { status: 'rendering' } | { status: 'ready'; svg: string } | { status: 'failed' };
+
+// Flowcharts, sequence diagrams, class diagrams etc. from ```mermaid blocks
+export const MermaidDiagram: React.FC<MermaidDiagramProps> = ({ code, fallback }) => {
+  const [state, setState] = useState<DiagramState>({ status: 'rendering' });
+  const [showSource, setShowSource] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    const timeout = setTimeout(() => {
+      renderDiagram(code)
+        .then(svg => {
+          if (!cancelled) setState(svg === null ? { status: 'failed' } : { status: 'ready', svg });
+        })
+        .catch(error => {
+          console.error('Failed to render diagram:', error);
+          if (!cancelled) setState({ status: 'failed' });
+        });
+    }, RENDER_DELAY_MS);
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [code]);
+
+  if (state.status !== 'ready') {
+    return (
+      <div>
+        {fallback}
+        {state.status === 'failed' && (
+          <p className="-mt-1 mb-2 text-[11px] italic opacity-70">This diagram couldn't be drawn, so its source is shown instead.</p>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div className="my-2">
+      <div
+        className="p-3 bg-white border border-soft-gray rounded-lg overflow-x-auto [&_svg]:mx-auto [&_svg]:h-auto"
+        dangerouslySetInnerHTML={{ __html: state.svg }}
+      />
+      <button
+        type="button"
+        onClick={() => setShowSource(show => !show)}
+        className="mt-1 text-[11px] font-semibold underline hover:no-underline opacity-70"
+        aria-expanded={showSource}
+      >
+        {showSource ? 'Hide source' : 'View source'}
+      </button>
+      {showSource && fallback}
+    </div>
+  );
+};
@@ -0,0 +1,94 @@
+import React, { useState, useEffect, useRef, useCallback } from 'react';
+import { MissionLifecycleAction } from '../types';
+import { LIFECYCLE_ACTION_COPY } from '../utils/missionLifecycle';
+import { ConfirmDialog } from './ConfirmDialog';
+
+interface MissionActionsMenuProps {
+  actions: MissionLifecycleAction[];
+  onAction: (action: MissionLifecycleAction) => void;
+  disabled?: boolean;
+  className?: string;
+}
+
+// "⋯" menu with the lifecycle actions of an enrolled mission; destructive ones are confirmed first
+export const MissionActionsMenu: React.FC<MissionActionsMenuProps> = ({ actions, onAction, disabled = false, className = '' }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [pendingAction, setPendingAction] = useState<MissionLifecycleAction | null>(null);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  // Close when clicking anywhere else
+  useEffect(() => {
+    if (!isOpen) return;
+    const handlePointerDown = (e: PointerEvent) => {
+      if (menuRef.current && !menuRef.current.contains(e.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    document.addEventListener('pointerdown', handlePointerDown);
+    return () => document.removeEventListener('pointerdown', handlePointerDown);
+  }, [isOpen]);
+
+  const handleSelect = (action: MissionLifecycleAction) => {
+    setIsOpen(false);
+    if (LIFECYCLE_ACTION_COPY[action].confirm) {
+      setPendingAction(action);
+    } else {
+      onAction(action);
+    }
+  };
+
+  const handleCancel = useCallback(() => setPendingAction(null), []);
+  const confirm = pendingAction ? LIFECYCLE_ACTION_COPY[pendingAction].confirm : undefined;
+
+  return (
+    // Cards open on click - keep menu clicks from reaching them
+    <div ref={menuRef} className={`relative ${className}`} onClick={(e) => e.stopPropagation()}>
+      <button
+        type="button"
+        onClick={() => setIsOpen(open => !open)}
+        disabled={disabled}
+        aria-haspopup="menu"
+        aria-expanded={isOpen}
+        aria-label="Mission actions"
+        className="p-2 rounded-lg text-gray-500 hover:text-deep-navy hover:bg-soft-gray transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        <svg className="w-5 h-5" fill="currentColor" viewBox="0 0 24 24" aria-hidden="true">
+          <circle cx="5" cy="12" r="2" />
+          <circle cx="12" cy="12" r="2" />
+          <circle cx="19" cy="12" r="2" />
+        </svg>
+      </button>
+
+      {isOpen && (
+        <div role="menu" className="absolute right-0 mt-1 w-48 bg-white rounded-lg shadow-lg border border-soft-gray py-1 z-20">
+          {actions.map(action => (
+            <button
+              key={action}
+              type="button"
+              role="menuitem"
+              onClick={() => handleSelect(action)}
+              className={`w-full text-left px-4 py-2 text-sm hover:bg-soft-gray transition-colors ${
+                action === 'unenroll' ? 'text-coral' : 'text-deep-navy'
+              }`}
+            >
+              {LIFECYCLE_ACTION_COPY[action].label}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {pendingAction && confirm && (
+        <ConfirmDialog
+          title={confirm.title}
+          message={confirm.message}
+          confirmLabel={confirm.confirmLabel}
+          onConfirm={() => {
+            setPendingAction(null);
+            onAction(pendingAction);
+          }}
+          onCancel={handleCancel}
+        />
+      )}
+    </div>
+  );
+};
@@ -1,19 +1,59 @@
 import React from 'react';
-import { Mission } from '../types';
+import { Mission, MissionLifecycleAction } from '../types';
 import { RocketIcon } from './icons/RocketIcon';
 import { BookOpenIcon } from './icons/BookOpenIcon';
+import { MissionActionsMenu } from './MissionActionsMenu';
+import { formatRelativeTime } from '../utils/enrollments';
 
 interface MissionCardProps {
   mission: Mission;
   onClick?: () => void;
+  // Enter the mission directly rather than opening its details
+  onStart?: (() => void) | undefined;
+  // Catalog cards offer enrollment instead of entering the mission
+  onEnroll?: () => void;
+  isEnrolled?: boolean;
+  isEnrolling?: boolean;
+  // Dashboard cards of enrolled missions
+  lifecycleActions?: MissionLifecycleAction[] | undefined;
+  onLifecycleAction?: ((action: MissionLifecycleAction) => void) | undefined;
+  isCompleted?: boolean;
+  isArchived?: boolean;
+  lastAccessedAt?: string | undefined;
+  dueFlashcards?: number;
+  onReviewFlashcards?: (() => void) | undefined;
 }
 
-const MissionCard: React.FC<MissionCardProps> = ({ mission, onClick }) => {
+const MissionCard: React.FC<MissionCardProps> = ({
+  mission,
+  onClick,
+  onStart,
+  onEnroll,
+  isEnrolled = false,
+  isEnrolling = false,
+  lifecycleActions,
+  onLifecycleAction,
+  isCompleted = false,
+  isArchived = false,
+  lastAccessedAt,
+  dueFlashcards = 0,
+  onReviewFlashcards,
+}) => {
   const isOngoing = mission.progress !== undefined;
 
   const handleStartMission = (e: React.MouseEvent) => {
     e.stopPropagation();
-    // TODO: Implement actual mission start logic
+    (onStart ?? onClick)?.();
+  };
+
+  const handleEnroll = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    onEnroll?.();
+  };
+
+  const handleReviewFlashcards = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    onReviewFlashcards?.();
   };
 
   const handleCardClick = () => {
@@ -35,7 +75,31 @@ const MissionCard: React.FC<MissionCardProps> = ({ mission, onClick }) => {
               <BookOpenIcon className="h-5 w-5 text-deep-navy/60" strokeWidth={2} />
             }
           </div>
-          <h3 className="text-[22px] font-semibold text-deep-navy leading-tight">{mission.title}</h3>
+          <div className="flex-1 min-w-0">
+            <h3 className="text-[22px] font-semibold text-deep-navy leading-tight">{mission.title}</h3>
+            {(isCompleted || isArchived || dueFlashcards > 0) && (
+              <div className="flex gap-2 mt-2">
+                {isCompleted && (
+                  <span className="px-2 py-0.5 text-xs font-semibold bg-green-100 text-green-800 rounded-full">Completed</span>
+                )}
+                {isArchived && (
+                  <span className="px-2 py-0.5 text-xs font-semibold bg-soft-gray text-gray-600 rounded-full">Archived</span>
+                )}
+                {dueFlashcards > 0 && (
+                  <button
+                    onClick={handleReviewFlashcards}
+                    disabled={!onReviewFlashcards}
+                    className="px-2 py-0.5 text-xs font-semibold bg-sky-blue/10 text-sky-blue rounded-full hover:bg-sky-blue/20 transition-colors disabled:cursor-default"
+                  >
+                    {dueFlashcards} {dueFlashcards === 1 ? 'card' : 'cards'} due
+                  </button>
+                )}
+              </div>
+            )}
+          </div>
+          {lifecycleActions && onLifecycleAction && (
+            <MissionActionsMenu actions={lifecycleActions} onAction={onLifecycleAction} className="-mr-2 -mt-1 flex-shrink-0" />
+          )}
         </div>
         <p className="text-gray-600 text-base font-normal mb-4 min-h-[4rem] line-clamp-3">{mission.description}</p>
         {mission.tags && mission.tags.length > 0 && (
@@ -55,7 +119,10 @@ const MissionCard: React.FC<MissionCardProps> = ({ mission, onClick }) => {
       {isOngoing && (
         <div className="px-6 pb-6 pt-2 border-t border-soft-gray/50">
           <div className="flex justify-between items-center mb-2.5">
-            <span className="text-sm font-normal text-gray-600">Progress</span>
+            <span className="text-sm font-normal text-gray-600">
+              Progress
+              {lastAccessedAt && <span className="text-gray-400"> · opened {formatRelativeTime(lastAccessedAt)}</span>}
+            </span>
             <span className="text-base font-semibold text-sky-blue">{Math.round(mission.progress || 0)}%</span>
           </div>
           <div className="w-full bg-soft-gray rounded-full h-2 overflow-hidden">
@@ -67,7 +134,23 @@ const MissionCard: React.FC<MissionCardProps> = ({ mission, onClick }) => {
         </div>
       )}
 
-      {!isOngoing && (
+      {!isOngoing && onEnroll && (
+         <div className="px-6 py-4 mt-auto bg-soft-gray/50 border-t border-soft-gray/50">
+            {isEnrolled ? (
+              <p className="w-full text-center font-semibold text-sky-blue text-base py-1">Enrolled</p>
+            ) : (
+              <button
+                onClick={handleEnroll}
+                disabled={isEnrolling}
+                className="w-full text-center font-semibold text-coral hover:text-deep-navy transition-colors duration-200 text-base py-1 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {isEnrolling ? 'Enrolling...' : 'Enroll'}
+              </button>
+            )}
+         </div>
+      )}
+
+      {!isOngoing && !onEnroll && (
          <div className="px-6 py-4 mt-auto bg-soft-gray/50 border-t border-soft-gray/50">
             <button 
               onClick={handleStartMission}
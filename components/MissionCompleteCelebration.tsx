@@ -0,0 +1,97 @@
+import React, { useEffect, useState } from 'react';
+import { Certificate } from '../types';
+import { useApiClient } from '../utils/api';
+import { CertificateView } from './CertificateView';
+
+interface MissionCompleteCelebrationProps {
+  missionId: string;
+  missionTitle: string;
+  onClose: () => void;
+  onBackToDashboard: () => void;
+}
+
+const CONFETTI_COLORS = ['bg-coral', 'bg-sky-blue', 'bg-yellow-400', 'bg-deep-navy'];
+// Fixed layout so pieces don't jump around on re-render
+const CONFETTI = Array.from({ length: 40 }, (_, index) => ({
+  left: (index * 37) % 100,
+  delay: (index % 10) * 0.15,
+  color: CONFETTI_COLORS[index % CONFETTI_COLORS.length]!,
+  size: index % 3 === 0 ? 'w-2 h-4' : 'w-2.5 h-2.5',
+}));
+
+// Shown once a mission is finished: celebrates and hands out the certificate
+export const MissionCompleteCelebration: React.FC<MissionCompleteCelebrationProps> = ({
+  missionId,
+  missionTitle,
+  onClose,
+  onBackToDashboard,
+}) => {
+  const apiClient = useApiClient();
+  const [certificate, setCertificate] = useState<Certificate | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    apiClient.issueCertificate(missionId).then(response => {
+      if (cancelled) return;
+      if (response.data) {
+        setCertificate(response.data);
+      } else {
+        setError(response.error?.message || 'Failed to issue certificate');
+      }
+    });
+    return () => {
+      cancelled = true;
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [missionId]);
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-60 flex items-center justify-center z-50 p-4 overflow-hidden">
+      <div className="pointer-events-none absolute inset-0" aria-hidden="true">
+        {CONFETTI.map((piece, index) => (
+          <span
+            key={index}
+            className={`absolute top-0 rounded-sm animate-confetti ${piece.color} ${piece.size}`}
+            style={{ left: `${piece.left}%`, animationDelay: `${piece.delay}s` }}
+          ></span>
+        ))}
+      </div>
+
+      <div className="relative bg-white rounded-2xl shadow-2xl w-full max-w-3xl max-h-[90vh] overflow-y-auto p-6 sm:p-8 animate-slide-up">
+        <div className="text-center mb-6">
+          <p className="text-5xl mb-3" aria-hidden="true">🎉</p>
+          <h2 className="text-3xl font-bold text-deep-navy">Mission complete!</h2>
+          <p className="text-gray-600 mt-2">
+            You finished <span className="font-semibold text-deep-navy">{missionTitle}</span>. Here's your certificate.
+          </p>
+        </div>
+
+        {certificate ? (
+          <CertificateView certificate={certificate} />
+        ) : error ? (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-4 text-center">
+            <p className="text-red-800">{error}</p>
+          </div>
+        ) : (
+          <div className="aspect-[1.414] w-full bg-soft-gray rounded-lg animate-pulse"></div>
+        )}
+
+        <div className="flex flex-col sm:flex-row gap-3 mt-6 pt-6 border-t border-soft-gray">
+          <button
+            onClick={onBackToDashboard}
+            className="flex-1 px-5 py-3 bg-deep-navy text-white font-semibold rounded-lg hover:bg-deep-navy/90 transition-colors"
+          >
+            Back to Dashboard
+          </button>
+          <button
+            onClick={onClose}
+            className="flex-1 px-5 py-3 border border-soft-gray text-deep-navy font-semibold rounded-lg hover:bg-soft-gray transition-colors"
+          >
+            Stay on this mission
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,17 +1,56 @@
-import React from 'react';
+import React, { useMemo } from 'react';
 import { Mission } from '../types';
 import { RocketIcon } from './icons/RocketIcon';
+import { DiffStatus, diffMission, listWithoutDiff } from '../utils/missionDiff';
+
+// Browsing between proposed versions of a mission that is still being planned
+export interface MissionVersionNav {
+  index: number; // 0-based
+  count: number;
+  onSelect: (index: number) => void;
+}
+
+const SKILL_DIFF_CLASSES: Record<DiffStatus, string> = {
+  unchanged: 'bg-sky-blue/10 text-sky-blue',
+  added: 'bg-green-100 text-green-800 ring-1 ring-green-300',
+  removed: 'bg-red-50 text-red-700/70 line-through',
+};
+
+const TEXT_DIFF_CLASSES: Record<DiffStatus, string> = {
+  unchanged: 'text-deep-navy',
+  added: 'text-deep-navy',
+  removed: 'text-red-700/70 line-through',
+};
+
+const CHECKPOINT_DIFF_CLASSES: Record<DiffStatus, string> = {
+  unchanged: 'bg-soft-gray',
+  added: 'bg-green-50 ring-1 ring-green-300',
+  removed: 'bg-red-50',
+};
 
 interface MissionDetailsProps {
   mission: Mission;
   onStartMission: () => void;
   onClose: () => void;
+  onEdit?: (() => void) | undefined; // Shown to the mission's creator
+  onRefine?: (() => void) | undefined;
+  // Highlight what changed since this version
+  previousVersion?: Mission | undefined;
+  versionNav?: MissionVersionNav | undefined;
+  primaryActionLabel?: string;
+  isPrimaryActionPending?: boolean;
 }
 
 export const MissionDetails: React.FC<MissionDetailsProps> = ({
   mission,
   onStartMission,
   onClose,
+  onEdit,
+  onRefine,
+  previousVersion,
+  versionNav,
+  primaryActionLabel = 'Enter Mission',
+  isPrimaryActionPending = false,
 }) => {
   const formatDate = (dateString: string) => {
     return new Date(dateString).toLocaleDateString('en-US', {
@@ -21,6 +60,15 @@ export const MissionDetails: React.FC<MissionDetailsProps> = ({
     });
   };
 
+  const diff = useMemo(
+    () => (previousVersion ? diffMission(previousVersion, mission) : null),
+    [previousVersion, mission]
+  );
+  const skills = diff ? diff.skills : listWithoutDiff(mission.skills);
+  const topics = diff ? diff.topics : listWithoutDiff(mission.topics_to_cover);
+  const checkpoints = diff ? diff.checkpoints : listWithoutDiff(mission.byte_size_checkpoints);
+  let checkpointNumber = 0;
+
   const getLevelColor = (level: string) => {
     switch (level.toLowerCase()) {
       case 'beginner':
@@ -58,6 +106,40 @@ export const MissionDetails: React.FC<MissionDetailsProps> = ({
               </svg>
             </button>
           </div>
+          {versionNav && versionNav.count > 1 && (
+            <div className="flex flex-wrap items-center justify-between gap-3 mt-4">
+              <div className="flex items-center gap-2" role="tablist" aria-label="Mission versions">
+                {Array.from({ length: versionNav.count }, (_, index) => (
+                  <button
+                    key={index}
+                    role="tab"
+                    aria-selected={index === versionNav.index}
+                    onClick={() => versionNav.onSelect(index)}
+                    className={`px-3 py-1 rounded-full text-sm font-semibold transition-colors ${
+                      index === versionNav.index
+                        ? 'bg-deep-navy text-white'
+                        : 'bg-soft-gray text-deep-navy hover:bg-sky-blue/20'
+                    }`}
+                  >
+                    v{index + 1}
+                  </button>
+                ))}
+              </div>
+              {diff && (
+                <div className="flex items-center gap-3 text-xs text-gray-600">
+                  {diff.hasChanges ? (
+                    <>
+                      <span>Changes since v{versionNav.index}:</span>
+                      <span className="inline-flex items-center gap-1"><span className="w-2.5 h-2.5 rounded-full bg-green-500"></span>Added</span>
+                      <span className="inline-flex items-center gap-1"><span className="w-2.5 h-2.5 rounded-full bg-red-400"></span>Removed</span>
+                    </>
+                  ) : (
+                    <span>No changes since v{versionNav.index}</span>
+                  )}
+                </div>
+              )}
+            </div>
+          )}
         </div>
 
         {/* Content */}
@@ -73,11 +155,19 @@ export const MissionDetails: React.FC<MissionDetailsProps> = ({
                     <span className={`inline-flex px-3 py-1 rounded-full text-sm font-semibold ${getLevelColor(mission.level)}`}>
                       {mission.level}
                     </span>
+                    {diff?.previousLevel && (
+                      <span className="ml-2 text-sm text-gray-500">was <span className="line-through">{diff.previousLevel}</span></span>
+                    )}
                   </div>
                 </div>
                 <div>
                   <span className="text-base font-semibold text-gray-500">Learning Goal</span>
-                  <p className="mt-2 text-base font-regular text-deep-navy">{mission.learning_goal}</p>
+                  <p className={`mt-2 text-base font-regular text-deep-navy ${diff?.previousLearningGoal ? 'bg-green-50 rounded px-2 py-1' : ''}`}>
+                    {mission.learning_goal}
+                  </p>
+                  {diff?.previousLearningGoal && (
+                    <p className="mt-1 px-2 text-sm text-red-700/80 line-through">{diff.previousLearningGoal}</p>
+                  )}
                 </div>
                 <div>
                   <span className="text-base font-semibold text-gray-500">Created</span>
@@ -89,12 +179,12 @@ export const MissionDetails: React.FC<MissionDetailsProps> = ({
             <div>
               <h3 className="text-2xl font-semibold text-deep-navy mb-4">Skills You'll Learn</h3>
               <div className="flex flex-wrap gap-3">
-                {mission.skills.map((skill, index) => (
+                {skills.map((skill, index) => (
                   <span
                     key={index}
-                    className="inline-flex px-4 py-2 bg-sky-blue/10 text-sky-blue text-base font-semibold rounded-full"
+                    className={`inline-flex px-4 py-2 text-base font-semibold rounded-full ${SKILL_DIFF_CLASSES[skill.status]}`}
                   >
-                    {skill}
+                    {skill.value}
                   </span>
                 ))}
               </div>
@@ -111,10 +201,10 @@ export const MissionDetails: React.FC<MissionDetailsProps> = ({
           <div>
             <h3 className="text-2xl font-semibold text-deep-navy mb-4">Topics to Cover</h3>
             <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
-              {mission.topics_to_cover.map((topic, index) => (
+              {topics.map((topic, index) => (
                 <div key={index} className="flex items-center space-x-3">
-                  <div className="w-2 h-2 bg-sky-blue rounded-full"></div>
-                  <span className="text-base font-regular text-deep-navy">{topic}</span>
+                  <div className={`w-2 h-2 rounded-full ${topic.status === 'added' ? 'bg-green-500' : topic.status === 'removed' ? 'bg-red-400' : 'bg-sky-blue'}`}></div>
+                  <span className={`text-base font-regular ${TEXT_DIFF_CLASSES[topic.status]}`}>{topic.value}</span>
                 </div>
               ))}
             </div>
@@ -124,16 +214,27 @@ export const MissionDetails: React.FC<MissionDetailsProps> = ({
           <div>
             <h3 className="text-2xl font-semibold text-deep-navy mb-4">Learning Checkpoints</h3>
             <div className="space-y-4">
-              {mission.byte_size_checkpoints.map((checkpoint, index) => (
-                <div key={index} className="flex items-start space-x-4 p-4 bg-soft-gray rounded-lg">
-                  <div className="flex-shrink-0 w-7 h-7 bg-sky-blue text-white rounded-full flex items-center justify-center text-base font-bold">
-                    {index + 1}
-                  </div>
-                  <div className="flex-1">
-                    <p className="text-base font-regular text-deep-navy">{checkpoint}</p>
+              {checkpoints.map((checkpoint, index) => {
+                // Removed checkpoints keep their place in the list but not a number
+                const number = checkpoint.status === 'removed' ? null : ++checkpointNumber;
+                return (
+                  <div key={index} className={`flex items-start space-x-4 p-4 rounded-lg ${CHECKPOINT_DIFF_CLASSES[checkpoint.status]}`}>
+                    <div className={`flex-shrink-0 w-7 h-7 rounded-full flex items-center justify-center text-base font-bold ${
+                      number === null ? 'bg-red-200 text-red-700' : 'bg-sky-blue text-white'
+                    }`}>
+                      {number ?? '–'}
+                    </div>
+                    <div className="flex-1 flex items-start justify-between gap-3">
+                      <p className={`text-base font-regular ${TEXT_DIFF_CLASSES[checkpoint.status]}`}>{checkpoint.value}</p>
+                      {checkpoint.status !== 'unchanged' && (
+                        <span className={`flex-shrink-0 text-xs font-semibold uppercase ${checkpoint.status === 'added' ? 'text-green-700' : 'text-red-700'}`}>
+                          {checkpoint.status === 'added' ? 'New' : 'Removed'}
+                        </span>
+                      )}
+                    </div>
                   </div>
-                </div>
-              ))}
+                );
+              })}
             </div>
           </div>
 
@@ -141,11 +242,28 @@ export const MissionDetails: React.FC<MissionDetailsProps> = ({
           <div className="flex flex-col sm:flex-row gap-4 pt-6 border-t border-soft-gray">
             <button
               onClick={onStartMission}
-              className="flex-1 flex items-center justify-center px-6 py-4 bg-coral text-white font-semibold rounded-lg shadow-md hover:bg-coral/90 transition-colors duration-300 transform hover:scale-105 text-base"
+              disabled={isPrimaryActionPending}
+              className="flex-1 flex items-center justify-center px-6 py-4 bg-coral text-white font-semibold rounded-lg shadow-md hover:bg-coral/90 transition-colors duration-300 transform hover:scale-105 text-base disabled:opacity-50 disabled:cursor-not-allowed disabled:transform-none"
             >
               <RocketIcon className="h-5 w-5 mr-2" strokeWidth={2} />
-              Enter Mission
+              {isPrimaryActionPending ? 'Please wait...' : primaryActionLabel}
             </button>
+            {onRefine && (
+              <button
+                onClick={onRefine}
+                className="flex-1 px-6 py-4 border border-sky-blue text-sky-blue font-semibold rounded-lg hover:bg-sky-blue/10 transition-colors duration-300 text-base"
+              >
+                Refine with Polaris
+              </button>
+            )}
+            {onEdit && (
+              <button
+                onClick={onEdit}
+                className="flex-1 px-6 py-4 border border-sky-blue text-sky-blue font-semibold rounded-lg hover:bg-sky-blue/10 transition-colors duration-300 text-base"
+              >
+                Edit Mission
+              </button>
+            )}
             <button
               onClick={onClose}
               className="flex-1 px-6 py-4 border border-soft-gray text-deep-navy font-semibold rounded-lg hover:bg-soft-gray transition-colors duration-300 text-base"
@@ -1,6 +1,8 @@
 import React from 'react';
+import { MissionLifecycleAction } from '../types';
 import { RocketIcon } from './icons/RocketIcon';
 import { ProgressIndicator } from './ProgressIndicator';
+import { MissionActionsMenu } from './MissionActionsMenu';
 
 interface MissionHeaderProps {
   title: string;
@@ -9,6 +11,16 @@ interface MissionHeaderProps {
   completedCheckpoints: number;
   totalCheckpoints: number;
   onClose: () => void;
+  lifecycleActions?: MissionLifecycleAction[] | undefined;
+  onLifecycleAction?: ((action: MissionLifecycleAction) => void) | undefined;
+  isLifecycleActionPending?: boolean;
+  // Offered once every checkpoint is completed
+  onViewCertificate?: (() => void) | undefined;
+  dueFlashcards?: number;
+  onReviewFlashcards?: (() => void) | undefined;
+  // Desktop toggle for the notes panel; smaller screens reach it through the tabs
+  isNotesOpen?: boolean;
+  onToggleNotes?: (() => void) | undefined;
 }
 
 export const MissionHeader: React.FC<MissionHeaderProps> = ({
@@ -18,6 +30,14 @@ export const MissionHeader: React.FC<MissionHeaderProps> = ({
   completedCheckpoints,
   totalCheckpoints,
   onClose,
+  lifecycleActions,
+  onLifecycleAction,
+  isLifecycleActionPending = false,
+  onViewCertificate,
+  dueFlashcards = 0,
+  onReviewFlashcards,
+  isNotesOpen = false,
+  onToggleNotes,
 }) => {
   return (
     <div className="bg-gradient-to-r from-white via-sky-blue/5 to-white border-b border-soft-gray shadow-sm flex-shrink-0">
@@ -44,11 +64,45 @@ export const MissionHeader: React.FC<MissionHeaderProps> = ({
             </div>
           </div>
           <div className="flex items-center space-x-4 w-full sm:w-auto justify-between sm:justify-end">
+            {onToggleNotes && (
+              <button
+                onClick={onToggleNotes}
+                aria-pressed={isNotesOpen}
+                className={`hidden lg:inline-flex px-4 py-2 text-sm font-semibold rounded-lg border transition-colors ${
+                  isNotesOpen ? 'bg-deep-navy text-white border-deep-navy' : 'text-deep-navy border-soft-gray hover:bg-soft-gray'
+                }`}
+              >
+                Notes
+              </button>
+            )}
+            {onReviewFlashcards && dueFlashcards > 0 && (
+              <button
+                onClick={onReviewFlashcards}
+                className="px-4 py-2 text-sm font-semibold text-sky-blue border border-sky-blue/40 rounded-lg hover:bg-sky-blue/10 transition-colors"
+              >
+                Review {dueFlashcards} {dueFlashcards === 1 ? 'card' : 'cards'}
+              </button>
+            )}
+            {onViewCertificate && (
+              <button
+                onClick={onViewCertificate}
+                className="px-4 py-2 text-sm font-semibold text-coral border border-coral/40 rounded-lg hover:bg-coral/10 transition-colors"
+              >
+                Certificate
+              </button>
+            )}
             <ProgressIndicator
               progress={progress}
               completed={completedCheckpoints}
               total={totalCheckpoints}
             />
+            {lifecycleActions && onLifecycleAction && (
+              <MissionActionsMenu
+                actions={lifecycleActions}
+                onAction={onLifecycleAction}
+                disabled={isLifecycleActionPending}
+              />
+            )}
           </div>
         </div>
       </div>
@@ -0,0 +1,48 @@
+import React from 'react';
+
+export type MissionViewTab = 'journey' | 'chat' | 'notes';
+
+interface MissionViewTabsProps {
+  activeTab: MissionViewTab;
+  onChange: (tab: MissionViewTab) => void;
+  unreadCount?: number; // Agent replies that arrived while the chat tab was hidden
+}
+
+const TABS: Array<{ id: MissionViewTab; label: string }> = [
+  { id: 'journey', label: 'Journey' },
+  { id: 'chat', label: 'Chat' },
+  { id: 'notes', label: 'Notes' },
+];
+
+// Journey/Chat/Notes switcher for screens too narrow to show both side by side
+export const MissionViewTabs: React.FC<MissionViewTabsProps> = ({ activeTab, onChange, unreadCount = 0 }) => {
+  return (
+    <div className="lg:hidden flex-shrink-0 px-4 sm:px-6 py-2 bg-white border-b border-soft-gray" role="tablist" aria-label="Mission view">
+      <div className="flex p-1 bg-soft-gray/60 rounded-xl">
+        {TABS.map(tab => {
+          const isActive = tab.id === activeTab;
+          return (
+            <button
+              key={tab.id}
+              type="button"
+              role="tab"
+              aria-selected={isActive}
+              onClick={() => onChange(tab.id)}
+              className={`flex-1 flex items-center justify-center gap-2 py-2 rounded-lg text-sm font-semibold transition-all duration-200 ${
+                isActive ? 'bg-white text-deep-navy shadow-md' : 'text-gray-600 hover:text-deep-navy'
+              }`}
+            >
+              {tab.label}
+              {tab.id === 'chat' && unreadCount > 0 && !isActive && (
+                <span className="min-w-[1.25rem] h-5 px-1.5 rounded-full bg-coral text-white text-xs font-bold flex items-center justify-center">
+                  {unreadCount > 9 ? '9+' : unreadCount}
+                  <span className="sr-only"> new messages</span>
+                </span>
+              )}
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
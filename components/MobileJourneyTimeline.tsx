@@ -0,0 +1,122 @@
+import React, { useEffect, useRef } from 'react';
+import { CheckpointStatus } from '../types';
+
+interface MobileJourneyTimelineProps {
+  checkpoints: string[];
+  progressPercentage: number;
+  getCheckpointStatus: (checkpoint: string, index: number) => CheckpointStatus;
+  focusedCheckpointIndex?: number | null;
+  onSelectCheckpoint?: ((index: number) => void) | undefined;
+}
+
+const STATUS_LABELS: Record<CheckpointStatus, string> = {
+  completed: 'Completed',
+  available: 'Up next',
+  locked: 'Locked',
+};
+
+// Compact vertical timeline used below the lg breakpoint, where the JourneyMap is hidden
+export const MobileJourneyTimeline: React.FC<MobileJourneyTimelineProps> = ({
+  checkpoints,
+  progressPercentage,
+  getCheckpointStatus,
+  focusedCheckpointIndex = null,
+  onSelectCheckpoint,
+}) => {
+  const focusedRef = useRef<HTMLLIElement>(null);
+
+  // Bring a deep-linked checkpoint into view
+  useEffect(() => {
+    focusedRef.current?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  }, [focusedCheckpointIndex]);
+
+  return (
+    <div className="flex-1 min-h-0 overflow-y-auto bg-gradient-to-b from-white via-gray-50/30 to-white px-5 sm:px-8 py-6">
+      <div className="mb-6">
+        <div className="flex items-center justify-between mb-2">
+          <h2 className="text-lg font-semibold text-deep-navy">Mission Journey</h2>
+          <span className="text-sm font-semibold text-sky-blue">{progressPercentage}%</span>
+        </div>
+        <div className="h-2 bg-soft-gray rounded-full overflow-hidden">
+          <div
+            className="h-full bg-gradient-to-r from-sky-blue to-sky-blue/80 rounded-full transition-all duration-1000 ease-out"
+            style={{ width: `${progressPercentage}%` }}
+          ></div>
+        </div>
+      </div>
+
+      {checkpoints.length === 0 ? (
+        <p className="text-sm text-gray-500 text-center py-8">This mission has no checkpoints yet.</p>
+      ) : (
+        <ol className="relative">
+          {checkpoints.map((checkpoint, index) => {
+            const status = getCheckpointStatus(checkpoint, index);
+            const isFocused = index === focusedCheckpointIndex;
+            const isLast = index === checkpoints.length - 1;
+
+            return (
+              <li
+                key={index}
+                ref={isFocused ? focusedRef : undefined}
+                className="relative flex gap-4 pb-6 last:pb-0"
+              >
+                {/* Connector to the next checkpoint */}
+                {!isLast && (
+                  <div
+                    className={`absolute left-[17px] top-10 bottom-0 w-0.5 ${
+                      status === 'completed' ? 'bg-sky-blue' : 'bg-soft-gray'
+                    }`}
+                    aria-hidden="true"
+                  ></div>
+                )}
+
+                <div
+                  className={`relative z-10 w-9 h-9 rounded-full flex items-center justify-center flex-shrink-0 text-sm font-bold shadow-md ${
+                    status === 'completed'
+                      ? 'bg-gradient-to-br from-sky-blue to-sky-blue/80 text-white'
+                      : status === 'available'
+                        ? 'bg-gradient-to-br from-coral to-coral/80 text-white'
+                        : 'bg-soft-gray text-gray-500'
+                  } ${isFocused ? 'ring-4 ring-coral/40' : ''}`}
+                >
+                  {status === 'completed' ? (
+                    <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24" strokeWidth={3}>
+                      <polyline points="20 6 9 17 4 12" />
+                    </svg>
+                  ) : status === 'locked' ? (
+                    <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24" strokeWidth={2}>
+                      <rect x="5" y="11" width="14" height="10" rx="2" />
+                      <path strokeLinecap="round" d="M8 11V7a4 4 0 118 0v4" />
+                    </svg>
+                  ) : (
+                    index + 1
+                  )}
+                </div>
+
+                <button
+                  type="button"
+                  onClick={onSelectCheckpoint && (() => onSelectCheckpoint(index))}
+                  disabled={!onSelectCheckpoint}
+                  className={`flex-1 min-w-0 text-left rounded-xl border-2 px-4 py-3 transition-colors disabled:cursor-default ${
+                    isFocused
+                      ? 'border-coral/60 bg-white shadow-lg'
+                      : status === 'locked'
+                        ? 'border-soft-gray bg-gray-50'
+                        : 'border-soft-gray bg-white'
+                  } ${onSelectCheckpoint && status !== 'locked' ? 'hover:border-sky-blue/60' : ''}`}
+                >
+                  <p className="text-[11px] font-semibold uppercase tracking-wide text-gray-500 mb-1">
+                    Checkpoint {index + 1} · {STATUS_LABELS[status]}
+                  </p>
+                  <p className={`text-sm leading-snug ${status === 'locked' ? 'text-gray-500' : 'text-deep-navy font-medium'}`}>
+                    {checkpoint}
+                  </p>
+                </button>
+              </li>
+            );
+          })}
+        </ol>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,259 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { CheckpointNote } from '../types';
+import { MarkdownMessage } from './MarkdownMessage';
+import { useAuth } from '../contexts/AuthContext';
+import { useAutosavedDraft } from '../hooks/useAutosavedDraft';
+import { useMissionNotes } from '../hooks/useMissionNotes';
+import { appendToNote, getNotesFilename, notesToMarkdown } from '../utils/notes';
+import { downloadBlob } from '../utils/download';
+
+// Backend saves wait for a longer pause than the local draft
+const BACKEND_SAVE_DELAY_MS = 1500;
+
+// Text sent from the chat, appended to whichever note is open
+export interface NoteClip {
+  id: string;
+  text: string;
+}
+
+type SyncState = 'synced' | 'pending' | 'saving' | 'failed';
+
+const SYNC_LABELS: Record<SyncState, string> = {
+  synced: 'Saved',
+  pending: 'Editing...',
+  saving: 'Saving...',
+  failed: 'Saved on this device only',
+};
+
+interface NoteEditorProps {
+  draftKey: string;
+  checkpoint: string;
+  serverNote: CheckpointNote | undefined;
+  saveNote: (checkpoint: string, content: string) => Promise<boolean>;
+  clip: NoteClip | null;
+  onClipHandled: () => void;
+  onDraftChange: (content: string) => void;
+}
+
+// Editor for one checkpoint's note; remounted (keyed) when the checkpoint changes
+const NoteEditor: React.FC<NoteEditorProps> = ({
+  draftKey,
+  checkpoint,
+  serverNote,
+  saveNote,
+  clip,
+  onClipHandled,
+  onDraftChange,
+}) => {
+  const { draft, setDraft, savedAt, wasRestored } = useAutosavedDraft<string>(draftKey, serverNote?.content ?? '');
+  const [mode, setMode] = useState<'write' | 'preview'>('write');
+  const [syncState, setSyncState] = useState<SyncState>('synced');
+  const [retryCount, setRetryCount] = useState(0);
+  const syncedContentRef = useRef(serverNote?.content ?? '');
+  const draftRef = useRef(draft);
+  draftRef.current = draft;
+  const handledClipRef = useRef<string | null>(null);
+
+  // A local copy older than the server's was superseded on another device
+  useEffect(() => {
+    if (wasRestored && serverNote && savedAt && savedAt < new Date(serverNote.updated_at)) {
+      setDraft(serverNote.content);
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  useEffect(() => {
+    onDraftChange(draft);
+    if (draft === syncedContentRef.current) {
+      setSyncState('synced');
+      return;
+    }
+
+    setSyncState('pending');
+    const timeout = setTimeout(async () => {
+      setSyncState('saving');
+      const saved = await saveNote(checkpoint, draft);
+      if (saved) {
+        syncedContentRef.current = draft;
+      }
+      // Typing may have continued while the request was in flight
+      if (draftRef.current === draft) {
+        setSyncState(saved ? 'synced' : 'failed');
+      }
+    }, BACKEND_SAVE_DELAY_MS);
+    return () => clearTimeout(timeout);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [draft, retryCount]);
+
+  // Switching checkpoint or closing the panel mustn't drop an edit still waiting for its save
+  useEffect(() => () => {
+    if (draftRef.current !== syncedContentRef.current) {
+      saveNote(checkpoint, draftRef.current);
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  // The ref guards against applying the same clip twice (StrictMode runs effects twice)
+  useEffect(() => {
+    if (!clip || handledClipRef.current === clip.id) return;
+    handledClipRef.current = clip.id;
+    setDraft(current => appendToNote(current, clip.text));
+    setMode('write');
+    onClipHandled();
+  }, [clip, setDraft, onClipHandled]);
+
+  return (
+    <div className="flex-1 flex flex-col min-h-0">
+      <div className="flex items-center justify-between px-4 py-2 border-b border-soft-gray">
+        <div className="flex p-0.5 bg-soft-gray/60 rounded-lg" role="tablist" aria-label="Note mode">
+          {(['write', 'preview'] as const).map(option => (
+            <button
+              key={option}
+              type="button"
+              role="tab"
+              aria-selected={mode === option}
+              onClick={() => setMode(option)}
+              className={`px-3 py-1 rounded-md text-xs font-semibold capitalize transition-colors ${
+                mode === option ? 'bg-white text-deep-navy shadow-sm' : 'text-gray-600 hover:text-deep-navy'
+              }`}
+            >
+              {option}
+            </button>
+          ))}
+        </div>
+        <span className={`text-xs ${syncState === 'failed' ? 'text-coral' : 'text-gray-500'}`}>
+          {SYNC_LABELS[syncState]}
+          {syncState === 'failed' && (
+            <button type="button" onClick={() => setRetryCount(count => count + 1)} className="ml-1 underline hover:no-underline">
+              Retry
+            </button>
+          )}
+        </span>
+      </div>
+
+      {mode === 'write' ? (
+        <textarea
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          placeholder="Write your notes in markdown..."
+          aria-label={`Notes for ${checkpoint}`}
+          className="flex-1 min-h-0 w-full resize-none px-4 py-3 text-sm font-mono text-deep-navy focus:outline-none"
+        />
+      ) : (
+        <div className="flex-1 min-h-0 overflow-y-auto px-4 py-3 text-sm">
+          {draft.trim() ? (
+            <MarkdownMessage content={draft} className="text-deep-navy" />
+          ) : (
+            <p className="text-gray-500">Nothing written yet.</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+interface NotesPanelProps {
+  missionId: string;
+  missionTitle: string;
+  checkpoints: string[];
+  checkpointIndex: number;
+  onCheckpointChange: (index: number) => void;
+  clip: NoteClip | null;
+  onClipHandled: () => void;
+  onClose?: (() => void) | undefined;
+  className?: string;
+}
+
+// Personal markdown notes per checkpoint, shown next to the chat
+export const NotesPanel: React.FC<NotesPanelProps> = ({
+  missionId,
+  missionTitle,
+  checkpoints,
+  checkpointIndex,
+  onCheckpointChange,
+  clip,
+  onClipHandled,
+  onClose,
+  className = '',
+}) => {
+  const { userProfile } = useAuth();
+  const { notes, loading, saveNote } = useMissionNotes(missionId);
+  const [currentDraft, setCurrentDraft] = useState('');
+  const checkpoint = checkpoints[checkpointIndex];
+
+  const handleExport = () => {
+    const contents = Object.fromEntries(Object.entries(notes).map(([key, note]) => [key, note.content]));
+    if (checkpoint !== undefined) {
+      contents[checkpoint] = currentDraft;
+    }
+    const markdown = notesToMarkdown(missionTitle, checkpoints, contents);
+    downloadBlob(new Blob([markdown], { type: 'text/markdown' }), getNotesFilename(missionTitle));
+  };
+
+  return (
+    <aside className={`flex-col bg-white lg:border-l border-soft-gray min-h-0 lg:w-96 lg:flex-none ${className}`} aria-label="Notes">
+      <div className="flex items-center justify-between gap-2 px-4 py-3 border-b border-soft-gray">
+        <h2 className="text-lg font-semibold text-deep-navy">Notes</h2>
+        <div className="flex items-center gap-2">
+          <button
+            type="button"
+            onClick={handleExport}
+            disabled={loading}
+            className="px-3 py-1.5 text-xs font-semibold text-sky-blue border border-sky-blue/40 rounded-lg hover:bg-sky-blue/10 transition-colors disabled:opacity-50"
+          >
+            Export .md
+          </button>
+          {onClose && (
+            <button
+              type="button"
+              onClick={onClose}
+              className="hidden lg:block text-gray-400 hover:text-gray-600 transition-colors"
+              aria-label="Close notes"
+            >
+              <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24" strokeWidth={2}>
+                <path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          )}
+        </div>
+      </div>
+
+      <div className="px-4 py-2 border-b border-soft-gray">
+        <select
+          value={checkpointIndex}
+          onChange={(e) => onCheckpointChange(Number(e.target.value))}
+          aria-label="Checkpoint"
+          className="w-full rounded-lg border border-soft-gray px-2 py-1.5 text-sm text-deep-navy focus:outline-none focus:ring-2 focus:ring-sky-blue"
+        >
+          {checkpoints.map((item, index) => (
+            <option key={item} value={index}>
+              {index + 1}. {item}
+              {notes[item]?.content.trim() ? ' ✎' : ''}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {loading || checkpoint === undefined ? (
+        <div className="flex-1 p-4">
+          {loading ? (
+            <div className="h-full bg-soft-gray/50 rounded-lg animate-pulse"></div>
+          ) : (
+            <p className="text-sm text-gray-500">This mission has no checkpoints to take notes on.</p>
+          )}
+        </div>
+      ) : (
+        <NoteEditor
+          key={checkpoint}
+          draftKey={`mission-notes:${userProfile?.uid ?? 'anonymous'}:${missionId}:${checkpoint}`}
+          checkpoint={checkpoint}
+          serverNote={notes[checkpoint]}
+          saveNote={saveNote}
+          clip={clip}
+          onClipHandled={onClipHandled}
+          onDraftChange={setCurrentDraft}
+        />
+      )}
+    </aside>
+  );
+};
@@ -0,0 +1,190 @@
+import React, { useState, useCallback, useRef } from 'react';
+import { Mission } from '../types';
+import { useFlashError } from '../contexts/FlashErrorContext';
+import { useApiClient } from '../utils/api';
+import { toMissionInput } from '../utils/validation';
+import { useAgentChat, AgentConnectionParams } from '../hooks/useAgentChat';
+import { InboundFrame } from '../utils/protocol';
+import { POLARIS_AGENT } from '../agents';
+import { ChatHeader } from './ChatHeader';
+import { ChatErrorBanner } from './ChatErrorBanner';
+import { ChatMessages } from './ChatMessages';
+import { ChatInput } from './ChatInput';
+import { MissionDetails } from './MissionDetails';
+
+interface PolarisChatProps {
+  // Resume this planning session instead of starting a new one
+  sessionId?: string | undefined;
+  onSessionStarted?: ((sessionId: string) => void) | undefined;
+  onMissionCreated: (mission: Mission) => void;
+  onClose: () => void;
+}
+
+export const PolarisChat: React.FC<PolarisChatProps> = ({
+  sessionId,
+  onSessionStarted,
+  onMissionCreated,
+  onClose,
+}) => {
+  // Only the session we opened with matters - a new one is reported through onSessionStarted
+  const [initialSessionId] = useState(sessionId);
+  const [input, setInput] = useState('');
+  const { showError } = useFlashError();
+  const apiClient = useApiClient();
+  // Every version Polaris proposed, oldest first
+  const [versions, setVersions] = useState<Mission[]>([]);
+  const [selectedVersion, setSelectedVersion] = useState(0);
+  const [isReviewing, setIsReviewing] = useState(false);
+  const [isAccepting, setIsAccepting] = useState(false);
+  const versionsRef = useRef(versions);
+  versionsRef.current = versions;
+
+  const handleEvent = useCallback((frame: InboundFrame) => {
+    if (frame.type === 'mission_created') {
+      versionsRef.current = [frame.mission];
+      setVersions(versionsRef.current);
+      setSelectedVersion(0);
+      setIsReviewing(true);
+    } else if (frame.type === 'mission_revised') {
+      const current = versionsRef.current;
+      // A numbered version replaces one we already have (e.g. replayed after a reconnect)
+      const index = frame.version !== undefined && frame.version >= 1 && frame.version <= current.length
+        ? frame.version - 1
+        : current.length;
+      const next = current.slice();
+      next[index] = frame.mission;
+      versionsRef.current = next; // Frames can arrive before the next render
+      setVersions(next);
+      setSelectedVersion(index);
+      setIsReviewing(true);
+    }
+  }, []);
+
+  const handleConnectionError = useCallback((message: string) => {
+    showError(`Failed to connect to Polaris: ${message}`);
+  }, [showError]);
+
+  const handlePrepared = useCallback((params: AgentConnectionParams) => {
+    if (params.session_id && params.session_id !== initialSessionId) {
+      onSessionStarted?.(params.session_id);
+    }
+  }, [initialSessionId, onSessionStarted]);
+
+  const chat = useAgentChat(POLARIS_AGENT, {
+    params: initialSessionId ? { session_id: initialSessionId } : {},
+    isResuming: initialSessionId !== undefined,
+    onPrepared: handlePrepared,
+    onEvent: handleEvent,
+    onConnectionError: handleConnectionError,
+  });
+
+  const proposal = versions[selectedVersion];
+
+  const handleAccept = async () => {
+    if (!proposal) return;
+    // Once the session is over the server holds the last version Polaris sent
+    if (chat.isClosed && selectedVersion === versions.length - 1) {
+      onMissionCreated(proposal);
+      return;
+    }
+    // Polaris stores the version and ends the session when it can take the frame right away
+    const canNotify = !chat.isClosed && chat.isConnected && !chat.isTyping && !chat.isBusy && !chat.isStreaming;
+    if (canNotify && chat.sendEvent({ type: 'accept_mission', mission_id: proposal.id, version: selectedVersion + 1 })) {
+      onMissionCreated(proposal);
+      return;
+    }
+
+    // Otherwise save the chosen version ourselves, e.g. an earlier one after the session closed
+    setIsAccepting(true);
+    try {
+      const response = await apiClient.updateMission(proposal.id, toMissionInput(proposal));
+      if (response.error || !response.data) {
+        showError(response.error?.message || 'Failed to accept this version. Please try again.');
+        return;
+      }
+      onMissionCreated(response.data);
+    } finally {
+      setIsAccepting(false);
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (chat.sendMessage(input)) {
+      setInput('');
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-4xl h-[80vh] flex flex-col overflow-hidden">
+        <ChatHeader
+          title="Polaris — The Pathfinder"
+          subtitle={chat.isConnected ? 'Connected - Ready to explore!' : 'Connecting to Polaris...'}
+          connection={chat.connection}
+          onClose={onClose}
+        />
+        <ChatErrorBanner
+          error={chat.error}
+          onRetry={chat.connection.state === 'failed' ? chat.reconnect : undefined}
+          onDismiss={chat.clearError}
+        />
+        <div className="flex-1 flex flex-col relative min-h-0">
+          <ChatMessages
+            messages={chat.messages}
+            isTyping={chat.isTyping || chat.isBusy}
+            typingLabel={chat.isBusy ? 'Creating your learning path...' : 'Polaris is thinking...'}
+            emptyTitle="Meet Polaris, your Pathfinder"
+            emptyDescription="Tell Polaris what you'd like to learn and it will craft a personalized mission for you."
+            onRetryMessage={chat.retryMessage}
+          />
+          {proposal && (
+            <div className="flex items-center justify-between gap-3 px-4 py-2 bg-sky-blue/10 border-t border-sky-blue/20 text-sm">
+              <span className="text-deep-navy truncate">
+                <span className="font-semibold">{proposal.title}</span>
+                {versions.length > 1 && <span className="text-gray-600"> · v{selectedVersion + 1} of {versions.length}</span>}
+              </span>
+              <button
+                type="button"
+                onClick={() => setIsReviewing(true)}
+                className="flex-shrink-0 font-semibold text-sky-blue hover:text-deep-navy"
+              >
+                Review proposal
+              </button>
+            </div>
+          )}
+          <ChatInput
+            value={input}
+            onChange={setInput}
+            onSubmit={handleSubmit}
+            placeholder={
+              chat.isBusy
+                ? 'Creating your learning path...'
+                : chat.isConnected
+                  ? proposal
+                    ? 'Ask for changes, e.g. "fewer checkpoints" or "more hands-on"...'
+                    : 'Share your learning goals with Polaris...'
+                  : 'Connecting to Polaris - your message will be sent once connected'
+            }
+            disabled={chat.isClosed || chat.isBusy || chat.isTyping || chat.isStreaming}
+            onStop={chat.isConnected && !chat.isBusy && (chat.isTyping || chat.isStreaming) ? chat.stopGeneration : undefined}
+          />
+        </div>
+      </div>
+
+      {/* Proposed mission, on top of the conversation until it's accepted or sent back for changes */}
+      {isReviewing && proposal && (
+        <MissionDetails
+          mission={proposal}
+          previousVersion={versions[selectedVersion - 1]}
+          versionNav={{ index: selectedVersion, count: versions.length, onSelect: setSelectedVersion }}
+          primaryActionLabel="Accept Mission"
+          onStartMission={handleAccept}
+          isPrimaryActionPending={isAccepting}
+          onRefine={chat.isClosed ? undefined : () => setIsReviewing(false)}
+          onClose={() => setIsReviewing(false)}
+        />
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,21 @@
+import React, { ReactNode } from 'react';
+import { Navigate, useLocation } from 'react-router-dom';
+import { useAuth } from '../contexts/AuthContext';
+import { ROUTES, RouteState } from '../routes';
+
+interface RequireAuthProps {
+  children: ReactNode;
+}
+
+// Redirects signed-out users to the login page, remembering where they were headed
+export const RequireAuth: React.FC<RequireAuthProps> = ({ children }) => {
+  const { user } = useAuth();
+  const location = useLocation();
+
+  if (!user) {
+    const state: RouteState = { from: location };
+    return <Navigate to={ROUTES.LOGIN} replace state={state} />;
+  }
+
+  return <>{children}</>;
+};
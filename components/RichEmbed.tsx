@@ -0,0 +1,148 @@
+import React, { useState, useEffect, memo } from 'react';
+import { createPortal } from 'react-dom';
+import { Embed } from '../utils/embeds';
+
+interface RichEmbedProps {
+  embed: Embed;
+  href: string;
+  textColorClass: string;
+  children?: React.ReactNode;
+}
+
+const ImageLightbox: React.FC<{ src: string; alt: string; onClose: () => void }> = ({ src, alt, onClose }) => {
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  return createPortal(
+    <div
+      role="dialog"
+      aria-modal="true"
+      aria-label={alt}
+      className="fixed inset-0 bg-black bg-opacity-80 flex items-center justify-center z-[60] p-4 animate-fade-in"
+      onClick={onClose}
+    >
+      <img src={src} alt={alt} className="max-w-full max-h-full object-contain rounded-lg shadow-xl" />
+      <button
+        type="button"
+        onClick={onClose}
+        className="absolute top-4 right-4 text-white/80 hover:text-white transition-colors"
+        aria-label="Close image"
+      >
+        <svg className="w-7 h-7" fill="none" stroke="currentColor" viewBox="0 0 24 24" strokeWidth={2}>
+          <path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" />
+        </svg>
+      </button>
+    </div>,
+    document.body
+  );
+};
+
+// Embedded media for a link. Nothing is fetched from the provider until the learner asks
+// for it, so reading a reply doesn't tell third parties anything.
+export const RichEmbed = memo<RichEmbedProps>(({ embed, href, textColorClass, children }) => {
+  const { provider, content } = embed;
+  const [isLoaded, setIsLoaded] = useState(false);
+  const [isLightboxOpen, setIsLightboxOpen] = useState(false);
+  const host = new URL(href).hostname.replace(/^www\./, '');
+  const label = typeof children === 'string' && children !== href ? children : `${provider.name} from ${host}`;
+  const sizeStyle: React.CSSProperties = 'aspectRatio' in provider.size
+    ? { aspectRatio: provider.size.aspectRatio }
+    : { height: provider.size.height };
+
+  const link = (
+    <a
+      href={href}
+      target="_blank"
+      rel="noopener noreferrer"
+      className={`text-xs mt-2 block underline hover:opacity-80 ${textColorClass}`}
+    >
+      {children || href}
+    </a>
+  );
+
+  if (content.kind === 'document') {
+    return (
+      <a
+        href={content.src}
+        target="_blank"
+        rel="noopener noreferrer"
+        className="my-4 w-full flex items-center gap-3 p-3 rounded-lg border border-soft-gray bg-black/5 hover:bg-black/10 transition-colors not-italic"
+      >
+        <span className="flex-none w-10 h-10 rounded-lg bg-coral text-white flex items-center justify-center" aria-hidden="true">
+          <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24" strokeWidth={2}>
+            <path strokeLinecap="round" strokeLinejoin="round" d="M9 12h6m-6 4h6M7 3h7l5 5v11a2 2 0 01-2 2H7a2 2 0 01-2-2V5a2 2 0 012-2z" />
+          </svg>
+        </span>
+        <span className="min-w-0">
+          <span className="block text-sm font-semibold truncate">Open {label}</span>
+          <span className="block text-xs opacity-70">Opens {host} in a new tab</span>
+        </span>
+      </a>
+    );
+  }
+
+  if (!isLoaded) {
+    return (
+      <div className="my-4 w-full not-italic">
+        <button
+          type="button"
+          onClick={() => setIsLoaded(true)}
+          className="w-full flex items-center gap-3 p-3 text-left rounded-lg border border-soft-gray bg-black/5 hover:bg-black/10 transition-colors"
+        >
+          <span className="flex-none w-10 h-10 rounded-lg bg-sky-blue text-white flex items-center justify-center" aria-hidden="true">
+            <svg className="w-5 h-5" fill="currentColor" viewBox="0 0 24 24">
+              <path d="M8 5v14l11-7z" />
+            </svg>
+          </span>
+          <span className="min-w-0">
+            <span className="block text-sm font-semibold truncate">Load {provider.name}</span>
+            <span className="block text-xs opacity-70">Content is loaded from {host} only when you click</span>
+          </span>
+        </button>
+        {link}
+      </div>
+    );
+  }
+
+  if (content.kind === 'image') {
+    return (
+      <div className="my-4 w-full">
+        <button type="button" onClick={() => setIsLightboxOpen(true)} className="block cursor-zoom-in" aria-label={`Enlarge ${label}`}>
+          <img
+            src={content.src}
+            alt={label}
+            referrerPolicy="no-referrer"
+            className="max-w-full rounded-lg object-contain"
+            style={{ maxHeight: 'height' in provider.size ? provider.size.height : undefined }}
+          />
+        </button>
+        {link}
+        {isLightboxOpen && <ImageLightbox src={content.src} alt={label} onClose={() => setIsLightboxOpen(false)} />}
+      </div>
+    );
+  }
+
+  return (
+    <div className="my-4 w-full">
+      <iframe
+        className="w-full rounded-lg border-0 bg-white"
+        style={sizeStyle}
+        title={label}
+        {...(content.kind === 'iframe' ? { src: content.src } : { srcDoc: content.srcdoc })}
+        {...(provider.sandbox !== null && { sandbox: provider.sandbox })}
+        {...(provider.allow !== undefined && { allow: provider.allow })}
+        referrerPolicy="strict-origin-when-cross-origin"
+        allowFullScreen
+        loading="lazy"
+      />
+      {link}
+    </div>
+  );
+});
+
+RichEmbed.displayName = 'RichEmbed';
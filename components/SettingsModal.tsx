@@ -66,7 +66,7 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose })
         const response = await apiClient.updateUser(updateData);
         
         if (response.error) {
-          showError(response.error);
+          showError(response.error.message);
         } else {
           showSuccess('Settings updated successfully');
           await fetchUserProfile();
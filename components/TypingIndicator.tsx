@@ -2,9 +2,10 @@ import React from 'react';
 
 interface TypingIndicatorProps {
   isVisible: boolean;
+  label: string;
 }
 
-export const TypingIndicator: React.FC<TypingIndicatorProps> = ({ isVisible }) => {
+export const TypingIndicator: React.FC<TypingIndicatorProps> = ({ isVisible, label }) => {
   if (!isVisible) return null;
 
   return (
@@ -16,10 +17,9 @@ export const TypingIndicator: React.FC<TypingIndicatorProps> = ({ isVisible }) =
             <div className="w-2 h-2 bg-sky-blue rounded-full animate-bounce" style={{ animationDelay: '150ms' }}></div>
             <div className="w-2 h-2 bg-sky-blue rounded-full animate-bounce" style={{ animationDelay: '300ms' }}></div>
           </div>
-          <span className="text-xs sm:text-sm text-gray-500 font-normal">Lumina is thinking...</span>
+          <span className="text-xs sm:text-sm text-gray-500 font-normal">{label}</span>
         </div>
       </div>
     </div>
   );
 };
-
@@ -0,0 +1,40 @@
+import React from 'react';
+import { WeeklyCount } from '../utils/analytics';
+
+interface WeeklyCheckpointsChartProps {
+  weeks: WeeklyCount[];
+}
+
+const formatWeek = (date: Date) => date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+
+// Column chart of checkpoints completed per week
+export const WeeklyCheckpointsChart: React.FC<WeeklyCheckpointsChartProps> = ({ weeks }) => {
+  const max = Math.max(1, ...weeks.map(week => week.count));
+
+  return (
+    <div>
+      <div className="flex items-end gap-2 h-40" role="img" aria-label="Checkpoints completed per week">
+        {weeks.map((week, index) => (
+          <div key={index} className="flex-1 flex flex-col items-center justify-end h-full group">
+            <span className="text-xs font-semibold text-deep-navy mb-1 opacity-0 group-hover:opacity-100 transition-opacity">
+              {week.count}
+            </span>
+            <div
+              className={`w-full rounded-t-md transition-all duration-500 ${week.count > 0 ? 'bg-coral' : 'bg-soft-gray'}`}
+              style={{ height: week.count > 0 ? `${(week.count / max) * 100}%` : '4px' }}
+              title={`${week.count} checkpoint${week.count === 1 ? '' : 's'} in the week of ${formatWeek(week.weekStart)}`}
+            ></div>
+          </div>
+        ))}
+      </div>
+      <div className="flex gap-2 mt-2">
+        {weeks.map((week, index) => (
+          <span key={index} className="flex-1 text-center text-[10px] text-gray-500 truncate">
+            {/* Label every other week, ending with the current one */}
+            {(weeks.length - 1 - index) % 2 === 0 ? formatWeek(week.weekStart) : ''}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+};
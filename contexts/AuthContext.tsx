@@ -57,41 +57,24 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
           setIsInitialLoad(false);
         } else {
           console.error('[Auth] Failed to load profile:', response.error);
-          if (response.error?.includes('Authentication failed') || 
-              response.error?.includes('401')) {
+          // Auth failures end the session instead of showing an error page
+          if (response.error?.code === 'auth') {
             if (isInitialLoad) {
               await signOut();
-              return;
-            } else {
-              return;
             }
+            return;
           }
-          
-          if (response.error?.includes('500') || response.error?.includes('Internal Server Error')) {
-            setError({ type: '500', message: response.error });
+
+          // Transient failures (server, network) get the retry page, everything else the 400 page
+          if (response.error?.retryable) {
+            setError({ type: '500', message: response.error.message });
           } else {
-            setError({ type: '400', message: response.error || 'Failed to fetch user profile' });
+            setError({ type: '400', message: response.error?.message || 'Failed to fetch user profile' });
           }
         }
-      } catch (error: any) {
+      } catch (error) {
         console.error('[Auth] Error fetching profile:', error);
-        if (error.message?.includes('Authentication failed') || 
-            error.message?.includes('401')) {
-          if (isInitialLoad) {
-            await signOut();
-            return;
-          } else {
-            return;
-          }
-        }
-        
-        if (error.message?.includes('500') || error.message?.includes('Internal Server Error')) {
-          setError({ type: '500', message: error.message });
-        } else if (error.message?.includes('400') || error.message?.includes('Bad Request')) {
-          setError({ type: '400', message: error.message });
-        } else {
-          setError({ type: '500', message: 'An unexpected error occurred' });
-        }
+        setError({ type: '500', message: 'An unexpected error occurred' });
       }
     }
   }, [apiClient, user, isInitialLoad]);
@@ -0,0 +1,424 @@
+import { useReducer, useState, useRef, useCallback, useEffect } from 'react';
+import { ChatMessage } from '../types';
+import { ApiClient, useApiClient } from '../utils/api';
+import { useAuth } from '../contexts/AuthContext';
+import { chatReducer, initialChatState, createLocalMessageId } from '../utils/chatReducer';
+import { validateMessage, sanitizeInput, rateLimiter, RATE_LIMITS } from '../utils/validation';
+import { InboundFrame, InboundFrameType, OutboundFrame, parseInboundFrame, parseFrameTimestamp, logDroppedFrame } from '../utils/protocol';
+import { useAgentSocket } from './useAgentSocket';
+import { AgentSocketBackoffOptions, AgentConnectionSnapshot } from '../utils/agentSocket';
+
+export type AgentConnectionParams = Record<string, string>;
+
+// Everything that differs between agents lives here; the chat engine itself is shared
+export interface AgentChatConfig {
+  id: string;
+  name: string;
+  // Runs once per chat before the first connection, e.g. to open a backend session.
+  // Receives the caller's params, so it can reuse a session the caller already has.
+  prepare?: (apiClient: ApiClient, params: AgentConnectionParams) => Promise<AgentConnectionParams>;
+  getUrl: (params: AgentConnectionParams, token: string) => string;
+  // Show the server's `connected` message in the transcript
+  showConnectedMessage: boolean;
+  // System message shown once the agent is connected
+  greeting: string | null;
+  // 'until-reply' shows the typing indicator from send until the next agent message,
+  // 'processing-events' follows the server's agent_processing_start/end frames
+  typingMode: 'until-reply' | 'processing-events';
+  // Shown when the agent hands over to a long-running job; handovers are informational when unset
+  handoverMessage: string | null;
+  // Inbound frame types this agent handles - anything else is logged and dropped
+  handledEvents: readonly InboundFrameType[];
+  // Frame types that end the conversation (no more sending or reconnecting)
+  terminalEvents: readonly InboundFrameType[];
+  // Reconnect policy after unexpected disconnects; false gives up on the first drop
+  backoff: AgentSocketBackoffOptions | false;
+}
+
+export interface UseAgentChatOptions {
+  params?: AgentConnectionParams;
+  // Reopening an earlier conversation: the server replays the transcript, so skip the greeting
+  isResuming?: boolean;
+  // The params resolved by `prepare`, once per chat (e.g. to remember a new session)
+  onPrepared?: (params: AgentConnectionParams) => void;
+  // Handled frames the engine doesn't interpret itself (e.g. checkpoint_update)
+  onEvent?: (frame: InboundFrame) => void;
+  onTerminalEvent?: (frame: InboundFrame) => void;
+  // The connection could not be established or was given up on
+  onConnectionError?: (message: string) => void;
+}
+
+export interface UseAgentChatReturn {
+  messages: ChatMessage[];
+  connection: AgentConnectionSnapshot;
+  isConnected: boolean;
+  isTyping: boolean;
+  isBusy: boolean;
+  // An agent reply is being streamed in
+  isStreaming: boolean;
+  isClosed: boolean;
+  error: string | null;
+  // Queues the message while disconnected; false means it was rejected (rate limit, validation)
+  sendMessage: (text: string) => boolean;
+  retryMessage: (id: string) => void;
+  // Send a structured request (not a chat message), noting it in the transcript; never queued
+  sendEvent: (frame: OutboundFrame, notice?: string) => boolean;
+  // Ask the agent to stop the reply it is generating
+  stopGeneration: () => void;
+  reconnect: () => void;
+  clearError: () => void;
+}
+
+// Frame types the engine turns into chat state; other handled frames go to onEvent
+const ENGINE_EVENTS: readonly InboundFrameType[] = [
+  'connected',
+  'historical_messages',
+  'agent_processing_start',
+  'agent_processing_end',
+  'agent_message',
+  'agent_message_delta',
+  'agent_message_done',
+  'agent_handover',
+  'user_message_ack',
+  'error',
+  'pong',
+];
+
+export const useAgentChat = (
+  config: AgentChatConfig,
+  { params, isResuming = false, onEvent, onTerminalEvent, onConnectionError, onPrepared }: UseAgentChatOptions = {}
+): UseAgentChatReturn => {
+  const [state, dispatch] = useReducer(chatReducer, initialChatState);
+  const [isClosed, setIsClosed] = useState(false);
+  const apiClient = useApiClient();
+  const { user } = useAuth();
+  const preparedParamsRef = useRef<Promise<AgentConnectionParams> | null>(null);
+  const lastMessageTimeRef = useRef(0);
+
+  // Store options in refs so the socket callbacks stay stable
+  const optionsRef = useRef({ params, isResuming, onEvent, onTerminalEvent, onConnectionError, onPrepared });
+  optionsRef.current = { params, isResuming, onEvent, onTerminalEvent, onConnectionError, onPrepared };
+
+  const resolveUrl = useCallback(async ({ isReconnect }: { isReconnect: boolean }): Promise<string> => {
+    if (!user) {
+      throw new Error('User not authenticated');
+    }
+
+    // Prepare once per chat - reconnects reuse the same session
+    const isFirstPrepare = !preparedParamsRef.current;
+    if (!preparedParamsRef.current) {
+      preparedParamsRef.current = config.prepare
+        ? config.prepare(apiClient, optionsRef.current.params ?? {})
+        : Promise.resolve({});
+    }
+    let prepared: AgentConnectionParams;
+    try {
+      prepared = await preparedParamsRef.current;
+    } catch (error) {
+      preparedParamsRef.current = null; // Allow a retry to prepare again
+      throw error;
+    }
+    if (isFirstPrepare) {
+      optionsRef.current.onPrepared?.(prepared);
+    }
+
+    // Reconnects may happen long after the last token was minted - force a fresh one
+    const token = await user.getIdToken(isReconnect);
+    return config.getUrl({ ...optionsRef.current.params, ...prepared }, token);
+  }, [user, apiClient, config]);
+
+  const handleFrame = useCallback((data: unknown) => {
+    const result = parseInboundFrame(data);
+    if (!result.ok) {
+      logDroppedFrame(config.name, result.reason, result.error, data);
+      return;
+    }
+
+    const { frame } = result;
+    if (!config.handledEvents.includes(frame.type)) {
+      logDroppedFrame(config.name, 'unhandled', `${frame.type} is not handled by this agent`, data);
+      return;
+    }
+
+    switch (frame.type) {
+      case 'connected':
+        if (config.showConnectedMessage && frame.message) {
+          dispatch({ type: 'system_message', text: sanitizeInput(frame.message) });
+        }
+        if (config.greeting && !optionsRef.current.isResuming) {
+          dispatch({ type: 'system_message', text: config.greeting });
+        }
+        break;
+
+      case 'historical_messages':
+        dispatch({
+          type: 'history_loaded',
+          messages: frame.messages.map((msg, index): ChatMessage => ({
+            // Older servers don't send ids; history is append-only, so the position is stable across replays
+            id: msg.id ?? `history-${index}`,
+            from: msg.type === 'user_message' ? 'user' : 'agent',
+            text: msg.message,
+            timestamp: parseFrameTimestamp(msg.timestamp),
+          })),
+        });
+        break;
+
+      case 'agent_processing_start':
+        dispatch({ type: 'typing_started' });
+        break;
+
+      case 'agent_processing_end':
+        dispatch({ type: 'typing_stopped' });
+        break;
+
+      case 'agent_message':
+        dispatch({
+          type: 'agent_message',
+          text: frame.message,
+          id: frame.message_id,
+          timestamp: parseFrameTimestamp(frame.timestamp),
+        });
+        if (config.typingMode === 'until-reply') {
+          dispatch({ type: 'typing_stopped' });
+        }
+        break;
+
+      case 'agent_message_delta':
+        dispatch({ type: 'agent_message_delta', messageId: frame.message_id, delta: frame.delta });
+        break;
+
+      case 'agent_message_done':
+        dispatch({ type: 'agent_message_done', messageId: frame.message_id, text: frame.message });
+        if (config.typingMode === 'until-reply') {
+          dispatch({ type: 'typing_stopped' });
+        }
+        break;
+
+      case 'user_message_ack':
+        dispatch({
+          type: 'message_acknowledged',
+          clientId: frame.client_id,
+          id: frame.message_id,
+          timestamp: parseFrameTimestamp(frame.timestamp),
+        });
+        break;
+
+      case 'agent_handover':
+        if (config.handoverMessage) {
+          dispatch({ type: 'busy_started', text: sanitizeInput(frame.message || config.handoverMessage) });
+        }
+        break;
+
+      case 'mission_created':
+      case 'mission_revised':
+        // The job behind the handover produced a proposal; the frame itself goes to onEvent
+        dispatch({ type: 'busy_stopped' });
+        dispatch({ type: 'typing_stopped' });
+        if (frame.message) {
+          dispatch({ type: 'system_message', text: sanitizeInput(frame.message) });
+        }
+        break;
+
+      case 'error':
+        dispatch({ type: 'error', error: sanitizeInput(frame.message), showInTranscript: true });
+        break;
+
+      case 'pong':
+        // Connection alive, no action needed
+        break;
+    }
+
+    if (config.terminalEvents.includes(frame.type)) {
+      dispatch({ type: 'busy_stopped' });
+      dispatch({ type: 'typing_stopped' });
+      if ('message' in frame && frame.message) {
+        dispatch({ type: 'system_message', text: sanitizeInput(frame.message) });
+      }
+      setIsClosed(true);
+      dispatch({ type: 'pending_failed' });
+      optionsRef.current.onTerminalEvent?.(frame);
+    } else if (!ENGINE_EVENTS.includes(frame.type)) {
+      optionsRef.current.onEvent?.(frame);
+    }
+  }, [config]);
+
+  // Latest transcript for the outgoing queue, which is flushed outside of render
+  const messagesRef = useRef(state.messages);
+  messagesRef.current = state.messages;
+  // Queued messages already handed to the socket, so overlapping flushes never send one twice
+  const transmittedIdsRef = useRef(new Set<string>());
+
+  const handleClose = useCallback(() => {
+    // The rest of an in-flight reply is lost with the connection
+    dispatch({ type: 'generation_stopped', byUser: false });
+    // Messages the server never confirmed go back in the queue and are sent again after reconnecting
+    for (const message of messagesRef.current) {
+      if (message.status === 'sent') transmittedIdsRef.current.delete(message.id);
+    }
+    dispatch({ type: 'unacknowledged_requeued' });
+  }, []);
+
+  const socket = useAgentSocket({
+    resolveUrl,
+    onFrame: handleFrame,
+    onClose: handleClose,
+    enabled: !isClosed,
+    backoff: config.backoff,
+  });
+
+  const { send: socketSend } = socket;
+  const transmit = useCallback((message: Pick<ChatMessage, 'id' | 'text' | 'clientId'>): boolean => {
+    if (transmittedIdsRef.current.has(message.id)) return true;
+    if (!socketSend({ type: 'user_message', message: message.text, client_id: message.clientId ?? message.id })) {
+      return false;
+    }
+    transmittedIdsRef.current.add(message.id);
+    dispatch({ type: 'message_status', id: message.id, status: 'sent' });
+    if (config.typingMode === 'until-reply') {
+      dispatch({ type: 'typing_started' });
+    }
+    return true;
+  }, [socketSend, config.typingMode]);
+
+  // Surface the transport giving up (auth failure, session errors, attempts exhausted)
+  // and flush messages queued while we were disconnected once it comes back
+  const { state: connectionState, error: connectionError } = socket.connection;
+  useEffect(() => {
+    if (connectionState === 'open') {
+      for (const message of messagesRef.current) {
+        if (message.status === 'pending' && !transmit(message)) break;
+      }
+    } else if (connectionState === 'failed') {
+      dispatch({ type: 'pending_failed' });
+      if (connectionError) {
+        dispatch({ type: 'error', error: connectionError });
+        optionsRef.current.onConnectionError?.(connectionError);
+      }
+    }
+  }, [connectionState, connectionError, transmit]);
+
+  const sendMessage = useCallback((text: string): boolean => {
+    if (isClosed || state.isTyping || state.isBusy || state.streamingMessageId) {
+      return false;
+    }
+
+    // Rate limiting check
+    const now = Date.now();
+    const sinceLastMessage = now - lastMessageTimeRef.current;
+    if (sinceLastMessage < RATE_LIMITS.MESSAGE_COOLDOWN_MS) {
+      dispatch({
+        type: 'notice',
+        error: `Please wait ${Math.ceil((RATE_LIMITS.MESSAGE_COOLDOWN_MS - sinceLastMessage) / 1000)} seconds before sending another message.`,
+      });
+      return false;
+    }
+
+    // Check rate limiting per minute
+    const userKey = `${config.id}_user_${user?.uid || 'anonymous'}`;
+    if (!rateLimiter.isAllowed(userKey, RATE_LIMITS.MAX_MESSAGES_PER_MINUTE, 60000)) {
+      const remainingTime = rateLimiter.getRemainingTime(userKey, RATE_LIMITS.MAX_MESSAGES_PER_MINUTE, 60000);
+      dispatch({ type: 'notice', error: `Too many messages. Please wait ${Math.ceil(remainingTime / 1000)} seconds.` });
+      return false;
+    }
+
+    // Validate and sanitize input
+    const validation = validateMessage(text);
+    if (!validation.isValid) {
+      dispatch({ type: 'notice', error: validation.error || 'Invalid message' });
+      return false;
+    }
+
+    // Show the message right away; it goes out now or with the queue once we're connected
+    const message = { id: createLocalMessageId(), text: sanitizeInput(text.trim()) };
+    const hasQueue = messagesRef.current.some(m => m.status === 'pending');
+    dispatch({ type: 'user_message', id: message.id, text: message.text, status: 'pending' });
+    if (!hasQueue && socket.isConnected) {
+      transmit(message);
+    }
+    lastMessageTimeRef.current = now;
+    return true;
+  }, [socket.isConnected, transmit, isClosed, state.isTyping, state.isBusy, state.streamingMessageId, config.id, user?.uid]);
+
+  const sendEvent = useCallback((frame: OutboundFrame, notice?: string): boolean => {
+    if (isClosed || state.isTyping || state.isBusy || state.streamingMessageId) {
+      return false;
+    }
+
+    const userKey = `${config.id}_user_${user?.uid || 'anonymous'}`;
+    if (!rateLimiter.isAllowed(userKey, RATE_LIMITS.MAX_MESSAGES_PER_MINUTE, 60000)) {
+      const remainingTime = rateLimiter.getRemainingTime(userKey, RATE_LIMITS.MAX_MESSAGES_PER_MINUTE, 60000);
+      dispatch({ type: 'notice', error: `Too many messages. Please wait ${Math.ceil(remainingTime / 1000)} seconds.` });
+      return false;
+    }
+
+    if (!socketSend(frame)) {
+      dispatch({ type: 'notice', error: 'Not connected. Please wait...' });
+      return false;
+    }
+    if (notice) {
+      dispatch({ type: 'system_message', text: notice });
+    }
+    if (config.typingMode === 'until-reply') {
+      dispatch({ type: 'typing_started' });
+    }
+    return true;
+  }, [socketSend, isClosed, state.isTyping, state.isBusy, state.streamingMessageId, config, user?.uid]);
+
+  const stopGeneration = useCallback(() => {
+    if (!state.streamingMessageId && !state.isTyping) return;
+    socket.send(
+      state.streamingMessageId
+        ? { type: 'stop_generation', message_id: state.streamingMessageId }
+        : { type: 'stop_generation' }
+    );
+    dispatch({ type: 'generation_stopped', byUser: true });
+  }, [socket, state.streamingMessageId, state.isTyping]);
+
+  const reconnect = useCallback(() => {
+    // Check connection attempt rate limiting
+    const connectionKey = `${config.id}_connection_${user?.uid || 'anonymous'}`;
+    if (!rateLimiter.isAllowed(connectionKey, RATE_LIMITS.MAX_CONNECTION_ATTEMPTS, 60000)) {
+      const remainingTime = rateLimiter.getRemainingTime(connectionKey, RATE_LIMITS.MAX_CONNECTION_ATTEMPTS, 60000);
+      dispatch({ type: 'notice', error: `Too many connection attempts. Please wait ${Math.ceil(remainingTime / 1000)} seconds.` });
+      return;
+    }
+
+    dispatch({ type: 'clear_error' });
+    socket.reconnect();
+  }, [socket, config.id, user?.uid]);
+
+  const retryMessage = useCallback((id: string) => {
+    const message = messagesRef.current.find(m => m.id === id);
+    if (!message || message.status !== 'failed' || isClosed) return;
+
+    transmittedIdsRef.current.delete(id);
+    dispatch({ type: 'message_status', id, status: 'pending' });
+    if (socket.isConnected) {
+      transmit(message);
+    } else if (connectionState === 'failed') {
+      // The queue flushes once the connection is back
+      reconnect();
+    }
+  }, [socket.isConnected, transmit, connectionState, reconnect, isClosed]);
+
+  const clearError = useCallback(() => {
+    dispatch({ type: 'clear_error' });
+  }, []);
+
+  return {
+    messages: state.messages,
+    connection: socket.connection,
+    isConnected: socket.isConnected,
+    isTyping: state.isTyping,
+    isBusy: state.isBusy,
+    isStreaming: state.streamingMessageId !== null,
+    isClosed,
+    error: state.error,
+    sendMessage,
+    retryMessage,
+    sendEvent,
+    stopGeneration,
+    reconnect,
+    clearError,
+  };
+};
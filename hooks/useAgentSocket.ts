@@ -0,0 +1,51 @@
+import { useEffect, useRef, useCallback, useSyncExternalStore } from 'react';
+import { AgentSocket, AgentSocketOptions, AgentConnectionSnapshot } from '../utils/agentSocket';
+import { OutboundFrame } from '../utils/protocol';
+
+export interface UseAgentSocketOptions extends AgentSocketOptions {
+  enabled?: boolean;
+}
+
+export interface UseAgentSocketReturn {
+  connection: AgentConnectionSnapshot;
+  isConnected: boolean;
+  send: (frame: OutboundFrame) => boolean;
+  reconnect: () => void;
+  disconnect: () => void;
+}
+
+export const useAgentSocket = ({ enabled = true, ...options }: UseAgentSocketOptions): UseAgentSocketReturn => {
+  const socketRef = useRef<AgentSocket | null>(null);
+  if (!socketRef.current) {
+    socketRef.current = new AgentSocket(options);
+  }
+  const socket = socketRef.current;
+
+  // Keep the latest callbacks without reconnecting
+  socket.setOptions(options);
+
+  const connection = useSyncExternalStore(socket.subscribe, socket.getSnapshot);
+
+  // Connect while enabled, close the socket on unmount
+  useEffect(() => {
+    if (!enabled) {
+      return;
+    }
+    socket.start();
+    return () => {
+      socket.stop();
+    };
+  }, [enabled, socket]);
+
+  const send = useCallback((frame: OutboundFrame) => socket.send(frame), [socket]);
+  const reconnect = useCallback(() => socket.reconnect(), [socket]);
+  const disconnect = useCallback(() => socket.stop(), [socket]);
+
+  return {
+    connection,
+    isConnected: connection.state === 'open',
+    send,
+    reconnect,
+    disconnect,
+  };
+};
@@ -0,0 +1,83 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+
+const AUTOSAVE_DELAY_MS = 800;
+
+interface StoredDraft<T> {
+  value: T;
+  savedAt: string;
+}
+
+export interface UseAutosavedDraftReturn<T> {
+  draft: T;
+  setDraft: React.Dispatch<React.SetStateAction<T>>;
+  // When the draft was last written to storage (restored drafts keep their original time)
+  savedAt: Date | null;
+  // The initial value came from storage rather than from `initialValue`
+  wasRestored: boolean;
+  clearDraft: () => void;
+  // Clear storage and go back to `value` without autosaving it again
+  discardDraft: (value: T) => void;
+}
+
+const readDraft = <T>(key: string): StoredDraft<T> | null => {
+  try {
+    const raw = localStorage.getItem(key);
+    return raw ? (JSON.parse(raw) as StoredDraft<T>) : null;
+  } catch (error) {
+    console.error(`Failed to read draft ${key}:`, error);
+    return null;
+  }
+};
+
+// Form state mirrored into localStorage (debounced) so work survives reloads and crashes.
+// The key is read once on mount; remount (e.g. with a React key) to switch drafts.
+export const useAutosavedDraft = <T>(key: string, initialValue: T): UseAutosavedDraftReturn<T> => {
+  const [stored] = useState(() => readDraft<T>(key));
+  const [draft, setDraft] = useState<T>(stored ? stored.value : initialValue);
+  const [savedAt, setSavedAt] = useState<Date | null>(stored ? new Date(stored.savedAt) : null);
+  const [wasRestored, setWasRestored] = useState(stored !== null);
+  // The value loaded on mount or set by a discard; it isn't the user's edit, so it's never saved
+  const untouchedRef = useRef(draft);
+
+  // Write still waiting out the debounce; flushed on unmount so closing right after typing keeps the edit
+  const pendingSaveRef = useRef<(() => void) | null>(null);
+  const flushSave = useCallback(() => {
+    const save = pendingSaveRef.current;
+    pendingSaveRef.current = null;
+    save?.();
+  }, []);
+
+  useEffect(() => {
+    pendingSaveRef.current = null;
+    if (draft === untouchedRef.current) return;
+
+    pendingSaveRef.current = () => {
+      const now = new Date();
+      try {
+        localStorage.setItem(key, JSON.stringify({ value: draft, savedAt: now.toISOString() } satisfies StoredDraft<T>));
+        setSavedAt(now);
+      } catch (error) {
+        console.error(`Failed to save draft ${key}:`, error);
+      }
+    };
+    const timeout = setTimeout(flushSave, AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timeout);
+  }, [key, draft, flushSave]);
+
+  useEffect(() => flushSave, [flushSave]);
+
+  const clearDraft = useCallback(() => {
+    pendingSaveRef.current = null;
+    localStorage.removeItem(key);
+    setSavedAt(null);
+  }, [key]);
+
+  const discardDraft = useCallback((value: T) => {
+    untouchedRef.current = value;
+    clearDraft();
+    setDraft(value);
+    setWasRestored(false);
+  }, [clearDraft]);
+
+  return { draft, setDraft, savedAt, wasRestored, clearDraft, discardDraft };
+};
@@ -0,0 +1,91 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { Flashcard, FlashcardGrade, FlashcardInput } from '../types';
+import { useApiClient } from '../utils/api';
+import { countDueFlashcards, scheduleReview } from '../utils/sm2';
+
+export interface UseFlashcardsReturn {
+  cards: Flashcard[];
+  loading: boolean;
+  error: string | null;
+  // Due cards per mission id
+  dueCounts: Map<string, number>;
+  createCard: (missionId: string, input: FlashcardInput) => Promise<Flashcard | null>;
+  // Merge cards the server created on its own (e.g. a generated deck)
+  addCards: (cards: Flashcard[]) => void;
+  reviewCard: (card: Flashcard, grade: FlashcardGrade) => Promise<boolean>;
+  deleteCard: (cardId: string) => Promise<boolean>;
+}
+
+// Flashcards of one mission, or of every enrolled mission when missionId is omitted
+export const useFlashcards = (missionId?: string): UseFlashcardsReturn => {
+  const apiClient = useApiClient();
+  const [cards, setCards] = useState<Flashcard[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+    apiClient.getFlashcards(missionId).then(response => {
+      if (cancelled) return;
+      if (response.data) {
+        setCards(response.data);
+      } else {
+        setError(response.error?.message || 'Failed to load flashcards');
+      }
+      setLoading(false);
+    });
+    return () => {
+      cancelled = true;
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [missionId]);
+
+  const dueCounts = useMemo(() => countDueFlashcards(cards), [cards]);
+
+  const addCards = useCallback((incoming: Flashcard[]) => {
+    setCards(prev => {
+      const incomingIds = new Set(incoming.map(card => card.id));
+      return [...prev.filter(card => !incomingIds.has(card.id)), ...incoming];
+    });
+  }, []);
+
+  const createCard = useCallback(async (cardMissionId: string, input: FlashcardInput) => {
+    const response = await apiClient.createFlashcard(cardMissionId, input);
+    if (!response.data) {
+      setError(response.error?.message || 'Failed to save flashcard');
+      return null;
+    }
+    addCards([response.data]);
+    return response.data;
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [addCards]);
+
+  // Optimistic: the new schedule is applied right away and rolled back if saving fails
+  const reviewCard = useCallback(async (card: Flashcard, grade: FlashcardGrade) => {
+    const schedule = scheduleReview(card, grade);
+    setCards(prev => prev.map(item => (item.id === card.id ? { ...item, ...schedule } : item)));
+    const response = await apiClient.updateFlashcardSchedule(card.id, schedule);
+    if (response.error) {
+      setCards(prev => prev.map(item => (item.id === card.id ? card : item)));
+      setError(response.error.message);
+      return false;
+    }
+    return true;
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  const deleteCard = useCallback(async (cardId: string) => {
+    const response = await apiClient.deleteFlashcard(cardId);
+    if (response.error) {
+      setError(response.error.message);
+      return false;
+    }
+    setCards(prev => prev.filter(card => card.id !== cardId));
+    return true;
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  return { cards, loading, error, dueCounts, createCard, addCards, reviewCard, deleteCard };
+};
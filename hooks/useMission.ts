@@ -0,0 +1,82 @@
+import { useState, useEffect } from 'react';
+import { useLocation } from 'react-router-dom';
+import { Mission } from '../types';
+import { useApiClient } from '../utils/api';
+
+export interface UseMissionReturn {
+  mission: Mission | null;
+  loading: boolean;
+  error: string | null;
+}
+
+// Location state that lets a navigation hand over an already loaded mission
+export interface MissionLocationState {
+  mission?: Mission;
+}
+
+export const useMission = (missionId: string | undefined): UseMissionReturn => {
+  const location = useLocation();
+  const apiClient = useApiClient();
+  const stateMission = (location.state as MissionLocationState | null)?.mission;
+  const initialMission = stateMission && stateMission.id === missionId ? stateMission : null;
+
+  const [mission, setMission] = useState<Mission | null>(initialMission);
+  const [loading, setLoading] = useState(!initialMission);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    // No mission selected - nothing to load
+    if (!missionId) {
+      setMission(null);
+      setLoading(false);
+      setError(null);
+      return;
+    }
+
+    // Mission was handed over through navigation state - no need to fetch it again
+    if (stateMission && stateMission.id === missionId) {
+      setMission(stateMission);
+      setLoading(false);
+      setError(null);
+      return;
+    }
+    if (mission && mission.id === missionId) {
+      setLoading(false);
+      return;
+    }
+
+    let cancelled = false;
+
+    const fetchMission = async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        const response = await apiClient.getMission(missionId);
+        if (cancelled) return;
+        if (response.data) {
+          setMission(response.data);
+        } else {
+          setMission(null);
+          setError(response.error?.message || 'Failed to fetch mission details');
+        }
+      } catch (error) {
+        if (cancelled) return;
+        setError(error instanceof Error ? error.message : 'Failed to fetch mission details');
+      } finally {
+        if (!cancelled) {
+          setLoading(false);
+        }
+      }
+    };
+
+    fetchMission();
+
+    return () => {
+      cancelled = true;
+    };
+    // Only depend on missionId - apiClient is recreated on every render
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [missionId]);
+
+  return { mission, loading, error };
+};
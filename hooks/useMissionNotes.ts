@@ -0,0 +1,44 @@
+import { useState, useEffect, useCallback } from 'react';
+import { CheckpointNote } from '../types';
+import { useApiClient } from '../utils/api';
+
+export interface UseMissionNotesReturn {
+  // Notes by checkpoint
+  notes: Record<string, CheckpointNote>;
+  loading: boolean;
+  saveNote: (checkpoint: string, content: string) => Promise<boolean>;
+}
+
+export const useMissionNotes = (missionId: string): UseMissionNotesReturn => {
+  const apiClient = useApiClient();
+  const [notes, setNotes] = useState<Record<string, CheckpointNote>>({});
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    apiClient.getMissionNotes(missionId).then(response => {
+      if (cancelled) return;
+      // Without server notes the editor still works from the local copies
+      if (response.data) {
+        setNotes(Object.fromEntries(response.data.map(note => [note.checkpoint, note])));
+      }
+      setLoading(false);
+    });
+    return () => {
+      cancelled = true;
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [missionId]);
+
+  const saveNote = useCallback(async (checkpoint: string, content: string) => {
+    const response = await apiClient.saveCheckpointNote(missionId, checkpoint, content);
+    if (!response.data) return false;
+    const saved = response.data;
+    setNotes(prev => ({ ...prev, [checkpoint]: saved }));
+    return true;
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [missionId]);
+
+  return { notes, loading, saveNote };
+};
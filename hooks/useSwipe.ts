@@ -0,0 +1,49 @@
+import { useRef, useCallback } from 'react';
+
+interface UseSwipeOptions {
+  onSwipeLeft?: () => void;
+  onSwipeRight?: () => void;
+  threshold?: number; // Minimum horizontal travel in pixels
+}
+
+interface SwipeHandlers {
+  onTouchStart: (e: React.TouchEvent) => void;
+  onTouchEnd: (e: React.TouchEvent) => void;
+}
+
+// Elements that scroll horizontally or take text input keep their own touch behaviour
+const SWIPE_IGNORE_SELECTOR = 'pre, table, input, textarea, [data-swipe-ignore]';
+
+export const useSwipe = ({ onSwipeLeft, onSwipeRight, threshold = 60 }: UseSwipeOptions): SwipeHandlers => {
+  const startRef = useRef<{ x: number; y: number } | null>(null);
+
+  const onTouchStart = useCallback((e: React.TouchEvent) => {
+    const touch = e.touches[0];
+    const target = e.target as Element;
+    if (!touch || e.touches.length > 1 || target.closest(SWIPE_IGNORE_SELECTOR)) {
+      startRef.current = null;
+      return;
+    }
+    startRef.current = { x: touch.clientX, y: touch.clientY };
+  }, []);
+
+  const onTouchEnd = useCallback((e: React.TouchEvent) => {
+    const start = startRef.current;
+    const touch = e.changedTouches[0];
+    startRef.current = null;
+    if (!start || !touch) return;
+
+    const dx = touch.clientX - start.x;
+    const dy = touch.clientY - start.y;
+    // Mostly-vertical gestures are scrolls, not swipes
+    if (Math.abs(dx) < threshold || Math.abs(dx) < Math.abs(dy) * 1.5) return;
+
+    if (dx < 0) {
+      onSwipeLeft?.();
+    } else {
+      onSwipeRight?.();
+    }
+  }, [onSwipeLeft, onSwipeRight, threshold]);
+
+  return { onTouchStart, onTouchEnd };
+};
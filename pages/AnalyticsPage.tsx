@@ -0,0 +1,191 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { Link } from 'react-router-dom';
+import { ActivityEvent, UserEnrolledMission } from '../types';
+import Header from '../components/Header';
+import { ActivityHeatmap } from '../components/ActivityHeatmap';
+import { WeeklyCheckpointsChart } from '../components/WeeklyCheckpointsChart';
+import { useAuth } from '../contexts/AuthContext';
+import { useApiClient } from '../utils/api';
+import {
+  estimateTimePerMission,
+  formatDuration,
+  getCheckpointsPerWeek,
+  getDailyActivity,
+  getSkillProgress,
+  getStreaks,
+} from '../utils/analytics';
+import { getMissionPath } from '../routes';
+
+const HEATMAP_WEEKS = 26;
+const CHART_WEEKS = 12;
+
+interface AnalyticsPageProps {
+  onLogout: () => void;
+}
+
+const StatCard: React.FC<{ label: string; value: string; hint?: string }> = ({ label, value, hint }) => (
+  <div className="bg-white rounded-xl shadow-md p-5">
+    <p className="text-sm font-semibold text-gray-500">{label}</p>
+    <p className="text-3xl font-bold text-deep-navy mt-1">{value}</p>
+    {hint && <p className="text-xs text-gray-500 mt-1">{hint}</p>}
+  </div>
+);
+
+const Panel: React.FC<{ title: string; children: React.ReactNode; className?: string }> = ({ title, children, className = '' }) => (
+  <section className={`bg-white rounded-xl shadow-md p-6 ${className}`}>
+    <h2 className="text-xl font-semibold text-deep-navy mb-4">{title}</h2>
+    {children}
+  </section>
+);
+
+// Personal learning analytics, computed client-side from enrollments and the activity log
+const AnalyticsPage: React.FC<AnalyticsPageProps> = ({ onLogout }) => {
+  const { userProfile } = useAuth();
+  const apiClient = useApiClient();
+  const [enrollments, setEnrollments] = useState<UserEnrolledMission[]>([]);
+  const [events, setEvents] = useState<ActivityEvent[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  // Fixed for the visit so charts don't shift while the page is open
+  const [today] = useState(() => new Date());
+
+  useEffect(() => {
+    if (!userProfile) return;
+
+    let cancelled = false;
+    const load = async () => {
+      setLoading(true);
+      setError(null);
+      const since = new Date(today.getFullYear(), today.getMonth(), today.getDate() - HEATMAP_WEEKS * 7);
+      const [enrolledResponse, eventsResponse] = await Promise.all([
+        apiClient.getUserEnrolledMissions(),
+        apiClient.getActivityEvents(since),
+      ]);
+      if (cancelled) return;
+
+      if (enrolledResponse.error || eventsResponse.error) {
+        setError((enrolledResponse.error ?? eventsResponse.error)?.message || 'Failed to load analytics');
+      }
+      setEnrollments(enrolledResponse.data ?? []);
+      setEvents(eventsResponse.data ?? []);
+      setLoading(false);
+    };
+
+    load();
+    return () => {
+      cancelled = true;
+    };
+    // Only reload when the user changes, not on every new apiClient instance
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [userProfile, today]);
+
+  const dailyActivity = useMemo(() => getDailyActivity(events), [events]);
+  const streaks = useMemo(() => getStreaks(dailyActivity, today), [dailyActivity, today]);
+  const weeklyCheckpoints = useMemo(() => getCheckpointsPerWeek(events, CHART_WEEKS, today), [events, today]);
+  const skillProgress = useMemo(() => getSkillProgress(enrollments), [enrollments]);
+  const timePerMission = useMemo(() => {
+    const totals = estimateTimePerMission(events);
+    return enrollments
+      .map(enrollment => ({ enrollment, time: totals.get(enrollment.mission_id) ?? 0 }))
+      .filter(entry => entry.time > 0)
+      .sort((a, b) => b.time - a.time);
+  }, [events, enrollments]);
+
+  const totalTime = timePerMission.reduce((sum, entry) => sum + entry.time, 0);
+  const maxMissionTime = timePerMission[0]?.time ?? 1;
+  const checkpointsThisWeek = weeklyCheckpoints[weeklyCheckpoints.length - 1]?.count ?? 0;
+
+  return (
+    <div className="bg-gray-50 min-h-screen">
+      <Header onLogout={onLogout} />
+      <main className="container mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="mb-8">
+          <h1 className="text-3xl font-bold text-deep-navy">Your Learning Analytics</h1>
+          <p className="text-gray-600 mt-1">How you've been learning over the last {HEATMAP_WEEKS} weeks.</p>
+        </div>
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-4 mb-8">
+            <p className="text-red-800">Some analytics could not be loaded: {error}</p>
+          </div>
+        )}
+
+        {loading ? (
+          <div className="grid grid-cols-2 lg:grid-cols-4 gap-6">
+            {[1, 2, 3, 4].map(i => (
+              <div key={i} className="bg-white rounded-xl shadow-md h-28 animate-pulse"></div>
+            ))}
+          </div>
+        ) : (
+          <div className="space-y-8">
+            <div className="grid grid-cols-2 lg:grid-cols-4 gap-6">
+              <StatCard label="Current streak" value={`${streaks.current} day${streaks.current === 1 ? '' : 's'}`} />
+              <StatCard label="Longest streak" value={`${streaks.longest} day${streaks.longest === 1 ? '' : 's'}`} />
+              <StatCard label="Checkpoints this week" value={String(checkpointsThisWeek)} />
+              <StatCard label="Time on task" value={formatDuration(totalTime)} hint="Estimated from chat activity" />
+            </div>
+
+            <Panel title="Daily activity">
+              <ActivityHeatmap dailyActivity={dailyActivity} weeks={HEATMAP_WEEKS} today={today} />
+            </Panel>
+
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+              <Panel title="Checkpoints per week">
+                <WeeklyCheckpointsChart weeks={weeklyCheckpoints} />
+              </Panel>
+
+              <Panel title="Time per mission">
+                {timePerMission.length === 0 ? (
+                  <p className="text-gray-500">No mission activity recorded yet.</p>
+                ) : (
+                  <ul className="space-y-3">
+                    {timePerMission.map(({ enrollment, time }) => (
+                      <li key={enrollment.mission_id}>
+                        <div className="flex justify-between text-sm mb-1">
+                          <Link to={getMissionPath(enrollment.mission_id)} className="font-semibold text-deep-navy hover:text-sky-blue truncate mr-3">
+                            {enrollment.mission_title}
+                          </Link>
+                          <span className="text-gray-600 flex-shrink-0">{formatDuration(time)}</span>
+                        </div>
+                        <div className="h-2 bg-soft-gray rounded-full overflow-hidden">
+                          <div className="h-full bg-deep-navy rounded-full" style={{ width: `${(time / maxMissionTime) * 100}%` }}></div>
+                        </div>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </Panel>
+            </div>
+
+            <Panel title="Progress by skill">
+              {skillProgress.length === 0 ? (
+                <p className="text-gray-500">Enroll in a mission to start tracking skills.</p>
+              ) : (
+                <ul className="grid grid-cols-1 md:grid-cols-2 gap-x-8 gap-y-4">
+                  {skillProgress.map(entry => {
+                    const percent = entry.total > 0 ? Math.round((entry.completed / entry.total) * 100) : 0;
+                    return (
+                      <li key={entry.skill}>
+                        <div className="flex justify-between text-sm mb-1">
+                          <span className="font-semibold text-deep-navy">{entry.skill}</span>
+                          <span className="text-gray-600">
+                            {entry.completed}/{entry.total} checkpoints · {entry.missions} mission{entry.missions === 1 ? '' : 's'}
+                          </span>
+                        </div>
+                        <div className="h-2 bg-soft-gray rounded-full overflow-hidden">
+                          <div className="h-full bg-sky-blue rounded-full transition-all duration-500" style={{ width: `${percent}%` }}></div>
+                        </div>
+                      </li>
+                    );
+                  })}
+                </ul>
+              )}
+            </Panel>
+          </div>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default AnalyticsPage;
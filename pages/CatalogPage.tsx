@@ -0,0 +1,313 @@
+import React, { useState, useCallback, useEffect } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import { Mission, MissionCatalogFilters, PaginatedResponse, UserEnrolledMission } from '../types';
+import Header from '../components/Header';
+import MissionCard from '../components/MissionCard';
+import { MissionDetails } from '../components/MissionDetails';
+import { ChipInput } from '../components/ChipInput';
+import { useAuth } from '../contexts/AuthContext';
+import { useFlashError } from '../contexts/FlashErrorContext';
+import { useApiClient } from '../utils/api';
+import { MISSION_LEVELS } from '../utils/validation';
+import { getMissionPath } from '../routes';
+
+interface CatalogPageProps {
+  onLogout: () => void;
+}
+
+const CATALOG_PAGE_SIZE = 12;
+const SEARCH_DEBOUNCE_MS = 300;
+
+const CatalogPage: React.FC<CatalogPageProps> = ({ onLogout }) => {
+  const apiClient = useApiClient();
+  const navigate = useNavigate();
+  const { userProfile } = useAuth();
+  const { showError, showSuccess } = useFlashError();
+  const [searchParams, setSearchParams] = useSearchParams();
+
+  // Filters live in the URL so catalog searches can be shared and survive reloads
+  const query = searchParams.get('q') || '';
+  const level = searchParams.get('level') || '';
+  const skills = searchParams.getAll('skills');
+  const topics = searchParams.getAll('topics');
+  const page = Math.max(1, Number(searchParams.get('page')) || 1);
+
+  const [queryInput, setQueryInput] = useState(query);
+  const [results, setResults] = useState<PaginatedResponse<Mission> | null>(null);
+  const [resultsLoading, setResultsLoading] = useState(true);
+  const [resultsError, setResultsError] = useState<string | null>(null);
+  const [enrolledMissionIds, setEnrolledMissionIds] = useState<Set<string>>(new Set());
+  const [enrollingMissionId, setEnrollingMissionId] = useState<string | null>(null);
+  const [selectedMission, setSelectedMission] = useState<Mission | null>(null);
+
+  const updateParams = useCallback((updates: Record<string, string | string[] | null>) => {
+    setSearchParams(prev => {
+      const next = new URLSearchParams(prev);
+      Object.entries(updates).forEach(([key, value]) => {
+        next.delete(key);
+        if (Array.isArray(value)) {
+          value.forEach(v => next.append(key, v));
+        } else if (value) {
+          next.set(key, value);
+        }
+      });
+      // Any filter change starts over from the first page
+      if (!('page' in updates)) {
+        next.delete('page');
+      }
+      return next;
+    }, { replace: true });
+  }, [setSearchParams]);
+
+  // Debounce the search box before it hits the URL (and the API)
+  useEffect(() => {
+    const trimmed = queryInput.trim();
+    if (trimmed === query) {
+      return;
+    }
+    const timeout = setTimeout(() => {
+      updateParams({ q: trimmed || null });
+    }, SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timeout);
+  }, [queryInput, query, updateParams]);
+
+  // Fetch the user's enrolled missions once so catalog cards can show their state
+  useEffect(() => {
+    if (!userProfile) {
+      return;
+    }
+
+    const fetchEnrolledMissions = async () => {
+      const response = await apiClient.getUserEnrolledMissions();
+      if (response.data) {
+        setEnrolledMissionIds(new Set(response.data.map((enrolled: UserEnrolledMission) => enrolled.mission_id)));
+      }
+    };
+
+    fetchEnrolledMissions();
+    // Only depend on userProfile - apiClient is recreated on every render
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [userProfile]);
+
+  const filtersKey = searchParams.toString();
+
+  // Fetch the current page of public missions whenever the filters change
+  useEffect(() => {
+    let cancelled = false;
+
+    const fetchMissions = async () => {
+      setResultsLoading(true);
+      setResultsError(null);
+
+      const filters: MissionCatalogFilters = {
+        skills,
+        topics_to_cover: topics,
+        page,
+        page_size: CATALOG_PAGE_SIZE,
+      };
+      if (level) {
+        filters.level = level;
+      }
+
+      try {
+        const response = query
+          ? await apiClient.searchPublicMissions(query, filters)
+          : await apiClient.getPublicMissions(filters);
+        if (cancelled) return;
+        if (response.data) {
+          setResults(response.data);
+        } else {
+          setResults(null);
+          setResultsError(response.error?.message || 'Failed to fetch missions');
+        }
+      } catch (error) {
+        if (cancelled) return;
+        setResults(null);
+        setResultsError(error instanceof Error ? error.message : 'Failed to fetch missions');
+      } finally {
+        if (!cancelled) {
+          setResultsLoading(false);
+        }
+      }
+    };
+
+    fetchMissions();
+
+    return () => {
+      cancelled = true;
+    };
+    // filtersKey captures every filter read from the URL
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [filtersKey]);
+
+  const handleEnroll = useCallback(async (mission: Mission) => {
+    setEnrollingMissionId(mission.id);
+    try {
+      const response = await apiClient.enrollInMission(mission.id);
+      if (response.data) {
+        setEnrolledMissionIds(prev => new Set(prev).add(mission.id));
+        showSuccess(`Enrolled in ${mission.title}`);
+      } else {
+        showError(response.error?.message || 'Failed to enroll in mission');
+      }
+    } catch (error) {
+      showError(error instanceof Error ? error.message : 'Failed to enroll in mission');
+    } finally {
+      setEnrollingMissionId(null);
+    }
+  }, [apiClient, showError, showSuccess]);
+
+  const handleClearFilters = () => {
+    setQueryInput('');
+    setSearchParams({}, { replace: true });
+  };
+
+  const totalPages = results ? Math.max(1, Math.ceil(results.total / results.page_size)) : 1;
+  const hasFilters = Boolean(query || level || skills.length > 0 || topics.length > 0);
+
+  return (
+    <div className="bg-gray-50 min-h-screen">
+      <Header onLogout={onLogout} />
+      <main className="container mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="mb-8">
+          <h1 className="text-3xl font-bold text-deep-navy">Mission Catalog</h1>
+          <p className="text-gray-600 mt-1">Browse public missions and enroll in the ones that fit your goals</p>
+        </div>
+
+        {/* Search and Filters */}
+        <section className="bg-white rounded-xl shadow-md border border-soft-gray/50 p-6 mb-8 space-y-4">
+          <input
+            type="search"
+            value={queryInput}
+            onChange={(e) => setQueryInput(e.target.value)}
+            placeholder="Search missions..."
+            className="w-full px-4 py-3 border border-soft-gray rounded-lg focus:outline-none focus:ring-2 focus:ring-sky-blue focus:border-transparent text-base text-deep-navy"
+          />
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <label htmlFor="catalog-level" className="block text-sm font-semibold text-deep-navy mb-2">Level</label>
+              <select
+                id="catalog-level"
+                value={level}
+                onChange={(e) => updateParams({ level: e.target.value || null })}
+                className="w-full px-3 py-2.5 border border-soft-gray rounded-lg bg-white text-base text-deep-navy focus:outline-none focus:ring-2 focus:ring-sky-blue"
+              >
+                <option value="">All levels</option>
+                {MISSION_LEVELS.map(option => (
+                  <option key={option} value={option}>{option}</option>
+                ))}
+              </select>
+            </div>
+            <ChipInput
+              label="Skills"
+              placeholder="e.g. React, Python"
+              values={skills}
+              onChange={(values) => updateParams({ skills: values })}
+            />
+            <ChipInput
+              label="Topics"
+              placeholder="e.g. Hooks, Generics"
+              values={topics}
+              onChange={(values) => updateParams({ topics: values })}
+            />
+          </div>
+          {hasFilters && (
+            <button
+              onClick={handleClearFilters}
+              className="text-sm font-semibold text-sky-blue hover:text-deep-navy transition-colors"
+            >
+              Clear all filters
+            </button>
+          )}
+        </section>
+
+        {/* Results */}
+        <section>
+          {resultsLoading ? (
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-8">
+              {[1, 2, 3].map((i) => (
+                <div key={i} className="bg-white rounded-xl shadow-lg overflow-hidden h-64 animate-pulse">
+                  <div className="p-6">
+                    <div className="h-6 bg-gray-200 rounded mb-4"></div>
+                    <div className="h-16 bg-gray-200 rounded mb-4"></div>
+                    <div className="h-4 bg-gray-200 rounded w-2/3"></div>
+                  </div>
+                </div>
+              ))}
+            </div>
+          ) : resultsError ? (
+            <div className="bg-red-50 border border-red-200 rounded-lg p-4">
+              <p className="text-red-800">Error loading missions: {resultsError}</p>
+            </div>
+          ) : !results || results.items.length === 0 ? (
+            <div className="bg-gray-50 border border-gray-200 rounded-lg p-8 text-center">
+              <p className="text-gray-600 text-lg">
+                {hasFilters ? 'No missions match your filters.' : 'No public missions available yet.'}
+              </p>
+            </div>
+          ) : (
+            <>
+              <p className="text-sm text-gray-500 mb-4">
+                {results.total} mission{results.total === 1 ? '' : 's'} found
+              </p>
+              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-8">
+                {results.items.map((mission: Mission) => (
+                  <MissionCard
+                    key={mission.id}
+                    mission={{ ...mission, tags: mission.tags ?? mission.skills }}
+                    onClick={() => setSelectedMission(mission)}
+                    onEnroll={() => handleEnroll(mission)}
+                    isEnrolled={enrolledMissionIds.has(mission.id)}
+                    isEnrolling={enrollingMissionId === mission.id}
+                  />
+                ))}
+              </div>
+
+              {/* Pagination */}
+              {totalPages > 1 && (
+                <div className="flex items-center justify-center space-x-4 mt-8">
+                  <button
+                    onClick={() => updateParams({ page: String(page - 1) })}
+                    disabled={page <= 1}
+                    className="px-4 py-2 border border-soft-gray text-deep-navy font-semibold rounded-lg hover:bg-soft-gray transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    Previous
+                  </button>
+                  <span className="text-sm text-gray-600">
+                    Page {page} of {totalPages}
+                  </span>
+                  <button
+                    onClick={() => updateParams({ page: String(page + 1) })}
+                    disabled={page >= totalPages}
+                    className="px-4 py-2 border border-soft-gray text-deep-navy font-semibold rounded-lg hover:bg-soft-gray transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    Next
+                  </button>
+                </div>
+              )}
+            </>
+          )}
+        </section>
+      </main>
+
+      {/* Mission Details Modal - enroll from the catalog, or jump in if already enrolled */}
+      {selectedMission && (
+        <MissionDetails
+          mission={selectedMission}
+          primaryActionLabel={enrolledMissionIds.has(selectedMission.id) ? 'Enter Mission' : 'Enroll'}
+          isPrimaryActionPending={enrollingMissionId === selectedMission.id}
+          onStartMission={() => {
+            if (enrolledMissionIds.has(selectedMission.id)) {
+              navigate(getMissionPath(selectedMission.id), { state: { mission: selectedMission } });
+            } else {
+              handleEnroll(selectedMission);
+            }
+          }}
+          onClose={() => setSelectedMission(null)}
+        />
+      )}
+    </div>
+  );
+};
+
+export default CatalogPage;
@@ -0,0 +1,72 @@
+import React, { useEffect, useState } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { Certificate } from '../types';
+import { CertificateView } from '../components/CertificateView';
+import { useApiClient } from '../utils/api';
+import { formatCertificateDate } from '../utils/certificate';
+import { ROUTES } from '../routes';
+import logoImage from '../components/icons/logo/logo.png';
+
+// Public page behind a certificate's verification link - re-renders it from the id
+const CertificateVerificationPage: React.FC = () => {
+  const { certificateId } = useParams<{ certificateId: string }>();
+  const apiClient = useApiClient();
+  const [certificate, setCertificate] = useState<Certificate | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!certificateId) return;
+    let cancelled = false;
+    apiClient.getCertificate(certificateId).then(response => {
+      if (cancelled) return;
+      if (response.data) {
+        setCertificate(response.data);
+      } else {
+        setError(!response.error || response.error.code === 'not_found' ? 'Certificate not found' : response.error.message);
+      }
+    });
+    return () => {
+      cancelled = true;
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [certificateId]);
+
+  return (
+    <div className="bg-gray-50 min-h-screen">
+      <header className="bg-white shadow-md">
+        <div className="container mx-auto px-4 sm:px-6 lg:px-8 flex items-center h-20">
+          <Link to={ROUTES.HOME} className="flex items-center space-x-3">
+            <img src={logoImage} alt="Learnforge Logo" className="h-20 w-20" />
+            <span className="text-2xl font-bold text-deep-navy">Learnforge</span>
+          </Link>
+        </div>
+      </header>
+      <main className="container mx-auto max-w-4xl px-4 sm:px-6 lg:px-8 py-8">
+        {error ? (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-6 text-center">
+            <p className="text-red-800 font-semibold">This certificate could not be verified.</p>
+            <p className="text-red-700 text-sm mt-1">{error}</p>
+          </div>
+        ) : !certificate ? (
+          <div className="aspect-[1.414] w-full bg-soft-gray rounded-lg animate-pulse"></div>
+        ) : (
+          <>
+            <div className="flex items-start gap-3 bg-green-50 border border-green-200 rounded-lg p-4 mb-6">
+              <svg className="w-6 h-6 text-green-700 flex-shrink-0" fill="none" stroke="currentColor" viewBox="0 0 24 24" strokeWidth={2}>
+                <path strokeLinecap="round" strokeLinejoin="round" d="M9 12l2 2 4-4m6 2a9 9 0 11-18 0 9 9 0 0118 0z" />
+              </svg>
+              <p className="text-green-900">
+                Verified: <span className="font-semibold">{certificate.user_name}</span> completed{' '}
+                <span className="font-semibold">{certificate.mission_title}</span> on {formatCertificateDate(certificate.completed_at)}.
+              </p>
+            </div>
+            <CertificateView certificate={certificate} showActions={false} />
+            <p className="text-center text-xs text-gray-500 mt-4">Verification ID: {certificate.id}</p>
+          </>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default CertificateVerificationPage;
@@ -1,13 +1,75 @@
-import React, { useState, useCallback, useEffect, useRef } from 'react';
-import { Mission, UserEnrolledMission } from '../types';
+import React, { useState, useCallback, useEffect, useRef, useMemo } from 'react';
+import { Link, useMatch, useNavigate } from 'react-router-dom';
+import { Mission, MissionLifecycleAction, SessionResponse, UserEnrolledMission } from '../types';
 import Header from '../components/Header';
 import MissionCard from '../components/MissionCard';
 import { PlusIcon } from '../components/icons/PlusIcon';
+import { BookOpenIcon } from '../components/icons/BookOpenIcon';
 import { useAuth } from '../contexts/AuthContext';
-import { PolarisChat } from '../components/PathfinderChat';
+import { useFlashError } from '../contexts/FlashErrorContext';
+import { PolarisChat } from '../components/PolarisChat';
+import { ContinuePlanningCard } from '../components/ContinuePlanningCard';
+import { ContinueMissionHero } from '../components/ContinueMissionHero';
+import { DashboardTabs } from '../components/DashboardTabs';
 import { MissionDetails } from '../components/MissionDetails';
-import { MissionViewPage } from './MissionViewPage';
+import { SettingsModal } from '../components/SettingsModal';
 import { useApiClient } from '../utils/api';
+import { useMission } from '../hooks/useMission';
+import { useFlashcards } from '../hooks/useFlashcards';
+import {
+  LIFECYCLE_ACTION_COPY,
+  applyLifecycleAction,
+  getAvailableLifecycleActions,
+  requestLifecycleAction,
+} from '../utils/missionLifecycle';
+import {
+  DashboardTab,
+  EnrollmentSort,
+  ENROLLMENT_SORTS,
+  filterEnrollments,
+  getEnrollmentTab,
+  getMostRecentEnrollment,
+  sortEnrollments,
+} from '../utils/enrollments';
+import {
+  ROUTES,
+  getCreateSessionPath,
+  getMissionDetailsPath,
+  getMissionEditPath,
+  getMissionPath,
+  getReviewPath,
+} from '../routes';
+
+// Cards show the enrollment's own fields; the details route fetches the full mission
+const toCardMission = (enrolled: UserEnrolledMission): Mission => {
+  const mission: Mission = {
+    id: enrolled.mission_id,
+    title: enrolled.mission_title,
+    short_description: enrolled.mission_short_description,
+    description: enrolled.mission_short_description, // Use short_description for card display
+    level: '', // Will be filled when fetching full mission details
+    topics_to_cover: [], // Will be filled when fetching full mission details
+    learning_goal: '', // Will be filled when fetching full mission details
+    byte_size_checkpoints: enrolled.byte_size_checkpoints,
+    skills: enrolled.mission_skills,
+    creator_id: '', // Will be filled when fetching full mission details
+    is_public: true, // Will be filled when fetching full mission details
+    created_at: enrolled.enrolled_at,
+    updated_at: enrolled.updated_at,
+    tags: enrolled.mission_skills, // Use skills as tags for display
+  };
+  // Round progress to whole number if it exists
+  if (enrolled.progress !== undefined) {
+    mission.progress = Math.round(enrolled.progress);
+  }
+  return mission;
+};
+
+const EMPTY_TAB_MESSAGES: Record<DashboardTab, string> = {
+  in_progress: 'Nothing in progress. Start a new mission or pick one from the catalog!',
+  completed: 'No completed missions yet - keep going!',
+  archived: 'No archived missions.',
+};
 
 interface DashboardPageProps {
   onLogout: () => void;
@@ -16,45 +78,90 @@ interface DashboardPageProps {
 const DashboardPage: React.FC<DashboardPageProps> = ({ onLogout }) => {
   const { userProfile, loading } = useAuth();
   const apiClient = useApiClient();
-  const [showChat, setShowChat] = useState(false);
-  const [showMissionDetails, setShowMissionDetails] = useState(false);
-  const [showMissionView, setShowMissionView] = useState(false);
-  const [createdMission, setCreatedMission] = useState<Mission | null>(null);
-  const [enrolledMissions, setEnrolledMissions] = useState<Mission[]>([]);
+  const navigate = useNavigate();
+  const { showError, showSuccess } = useFlashError();
+  const createMatch = useMatch(ROUTES.CREATE);
+  const createSessionMatch = useMatch(ROUTES.CREATE_SESSION);
+  const showChat = createMatch !== null || createSessionMatch !== null;
+  const planningSessionId = createSessionMatch?.params.sessionId;
+  const showSettings = useMatch(ROUTES.SETTINGS) !== null;
+  const detailsMatch = useMatch(ROUTES.MISSION_DETAILS);
+  const { mission: selectedMission, error: selectedMissionError } = useMission(detailsMatch?.params.missionId);
+  const [enrolledMissions, setEnrolledMissions] = useState<UserEnrolledMission[]>([]);
+  const [activeTab, setActiveTab] = useState<DashboardTab>('in_progress');
+  const [sort, setSort] = useState<EnrollmentSort>('recent');
+  const [filterQuery, setFilterQuery] = useState('');
   const [missionsLoading, setMissionsLoading] = useState(true);
   const [missionsError, setMissionsError] = useState<string | null>(null);
   const hasFetchedMissionsRef = useRef(false);
+  const [planningSessions, setPlanningSessions] = useState<SessionResponse[]>([]);
 
   const handleCreateMission = useCallback(() => {
-    setShowChat(true);
-  }, []);
+    navigate(ROUTES.CREATE);
+  }, [navigate]);
+
+  // Put a new planning session in the URL so a reload resumes it
+  const handleSessionStarted = useCallback((sessionId: string) => {
+    navigate(getCreateSessionPath(sessionId), { replace: true });
+  }, [navigate]);
 
   const handleMissionCreated = useCallback((mission: Mission) => {
-    setCreatedMission(mission);
-    setShowChat(false);
-    setShowMissionDetails(true);
-  }, []);
+    if (planningSessionId) {
+      setPlanningSessions(current => current.filter(session => session.session_id !== planningSessionId));
+    }
+    // Hand the new mission over so the details modal doesn't need to fetch it
+    navigate(getMissionDetailsPath(mission.id), { replace: true, state: { mission } });
+  }, [navigate, planningSessionId]);
 
   const handleStartMission = useCallback(() => {
-    if (createdMission) {
-      setShowMissionDetails(false);
-      setShowMissionView(true);
+    if (selectedMission) {
+      navigate(getMissionPath(selectedMission.id), { state: { mission: selectedMission } });
     }
-  }, [createdMission]);
+  }, [navigate, selectedMission]);
 
-  const handleCloseMissionView = useCallback(() => {
-    setShowMissionView(false);
-    setCreatedMission(null);
-  }, []);
+  const handleEditMission = useCallback(() => {
+    if (selectedMission) {
+      navigate(getMissionEditPath(selectedMission.id), { state: { mission: selectedMission } });
+    }
+  }, [navigate, selectedMission]);
+
+  const handleCloseOverlay = useCallback(() => {
+    navigate(ROUTES.HOME);
+  }, [navigate]);
 
-  const handleCloseChat = useCallback(() => {
-    setShowChat(false);
-  }, []);
+  // Leave the details route if the mission behind it can't be loaded
+  useEffect(() => {
+    if (selectedMissionError) {
+      showError(selectedMissionError);
+      navigate(ROUTES.HOME, { replace: true });
+    }
+  }, [selectedMissionError, showError, navigate]);
 
-  const handleCloseMissionDetails = useCallback(() => {
-    setShowMissionDetails(false);
-    setCreatedMission(null);
-  }, []);
+  // Unfinished planning sessions - refreshed whenever Polaris closes, which may have left one behind
+  useEffect(() => {
+    if (!userProfile || showChat) return;
+
+    let cancelled = false;
+    apiClient.getActiveSessions().then(response => {
+      if (!cancelled && response.data) {
+        setPlanningSessions(response.data);
+      }
+    });
+    return () => {
+      cancelled = true;
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [userProfile, showChat]);
+
+  const handleDiscardSession = useCallback(async (sessionId: string) => {
+    const previous = planningSessions;
+    setPlanningSessions(current => current.filter(session => session.session_id !== sessionId));
+    const response = await apiClient.deleteSession(sessionId);
+    if (response.error) {
+      setPlanningSessions(previous);
+      showError(`Failed to discard planning session: ${response.error.message}`);
+    }
+  }, [apiClient, planningSessions, showError]);
 
   // Reset fetch flag when user logs out
   useEffect(() => {
@@ -83,33 +190,9 @@ const DashboardPage: React.FC<DashboardPageProps> = ({ onLogout }) => {
       try {
         const response = await apiClient.getUserEnrolledMissions();
         if (response.data) {
-          // Transform UserEnrolledMission to Mission for display
-          const transformedMissions = response.data.map((enrolled: UserEnrolledMission): Mission => {
-            const mission: Mission = {
-              id: enrolled.mission_id,
-              title: enrolled.mission_title,
-              short_description: enrolled.mission_short_description,
-              description: enrolled.mission_short_description, // Use short_description for card display
-              level: '', // Will be filled when fetching full mission details
-              topics_to_cover: [], // Will be filled when fetching full mission details
-              learning_goal: '', // Will be filled when fetching full mission details
-              byte_size_checkpoints: enrolled.byte_size_checkpoints,
-              skills: enrolled.mission_skills,
-              creator_id: '', // Will be filled when fetching full mission details
-              is_public: true, // Will be filled when fetching full mission details
-              created_at: enrolled.enrolled_at,
-              updated_at: enrolled.updated_at,
-              tags: enrolled.mission_skills, // Use skills as tags for display
-            };
-            // Round progress to whole number if it exists
-            if (enrolled.progress !== undefined) {
-              mission.progress = Math.round(enrolled.progress);
-            }
-            return mission;
-          });
-          setEnrolledMissions(transformedMissions);
+          setEnrolledMissions(response.data);
         } else if (response.error) {
-          setMissionsError(response.error);
+          setMissionsError(response.error.message);
           setEnrolledMissions([]);
         } else {
           // No data and no error - empty result (gracefully handle empty state)
@@ -128,31 +211,78 @@ const DashboardPage: React.FC<DashboardPageProps> = ({ onLogout }) => {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [userProfile]);
 
-  // Handle mission card click - fetch full mission details
-  const handleMissionClick = useCallback(async (missionId: string) => {
-    try {
-      const response = await apiClient.getMission(missionId);
-      if (response.data) {
-        setCreatedMission(response.data);
-        setShowMissionDetails(true);
-      } else if (response.error) {
-        setMissionsError(response.error);
-      }
-    } catch (error) {
-      setMissionsError(error instanceof Error ? error.message : 'Failed to fetch mission details');
+  // Update the list right away and roll back if the server refuses
+  const handleLifecycleAction = useCallback(async (missionId: string, action: MissionLifecycleAction) => {
+    const previous = enrolledMissions.find(enrolled => enrolled.mission_id === missionId);
+    if (!previous) return;
+
+    const optimistic = applyLifecycleAction(previous, action);
+    const replaceEnrollment = (next: UserEnrolledMission | null) => {
+      setEnrolledMissions(current => {
+        const index = current.findIndex(enrolled => enrolled.mission_id === missionId);
+        if (next === null) {
+          return current.filter(enrolled => enrolled.mission_id !== missionId);
+        }
+        if (index === -1) {
+          // Put back an unenrollment that failed
+          return [...current, next];
+        }
+        return current.map((enrolled, i) => (i === index ? next : enrolled));
+      });
+    };
+
+    replaceEnrollment(optimistic);
+    const response = await requestLifecycleAction(apiClient, missionId, action);
+    if (response.error) {
+      replaceEnrollment(previous);
+      showError(`Failed to ${LIFECYCLE_ACTION_COPY[action].label.toLowerCase()}: ${response.error.message}`);
+      return;
     }
-  }, [apiClient]);
-
-  // Show Mission View Page if mission is started
-  if (showMissionView && createdMission) {
-    return (
-      <MissionViewPage
-        mission={createdMission}
-        onClose={handleCloseMissionView}
-        onLogout={onLogout}
-      />
-    );
-  }
+    if (response.data) {
+      replaceEnrollment(response.data);
+    }
+    showSuccess(LIFECYCLE_ACTION_COPY[action].success);
+  }, [apiClient, enrolledMissions, showError, showSuccess]);
+
+  const tabCounts = useMemo(() => {
+    const counts: Record<DashboardTab, number> = { in_progress: 0, completed: 0, archived: 0 };
+    enrolledMissions.forEach(enrolled => counts[getEnrollmentTab(enrolled)]++);
+    return counts;
+  }, [enrolledMissions]);
+  const visibleMissions = useMemo(
+    () => sortEnrollments(
+      filterEnrollments(enrolledMissions.filter(enrolled => getEnrollmentTab(enrolled) === activeTab), filterQuery),
+      sort
+    ),
+    [enrolledMissions, activeTab, filterQuery, sort]
+  );
+  const continueMission = useMemo(() => getMostRecentEnrollment(enrolledMissions), [enrolledMissions]);
+  const { dueCounts: dueFlashcards } = useFlashcards();
+  const totalDueFlashcards = useMemo(
+    () => [...dueFlashcards.values()].reduce((sum, count) => sum + count, 0),
+    [dueFlashcards]
+  );
+
+  const renderMissionCard = (enrolled: UserEnrolledMission) => (
+    <MissionCard
+      key={enrolled.mission_id}
+      mission={toCardMission(enrolled)}
+      onClick={() => handleMissionClick(enrolled.mission_id)}
+      onStart={() => navigate(getMissionPath(enrolled.mission_id))}
+      lastAccessedAt={enrolled.last_accessed_at}
+      dueFlashcards={dueFlashcards.get(enrolled.mission_id) ?? 0}
+      onReviewFlashcards={() => navigate(getReviewPath(enrolled.mission_id))}
+      isCompleted={enrolled.completed}
+      isArchived={enrolled.archived ?? false}
+      lifecycleActions={getAvailableLifecycleActions(enrolled)}
+      onLifecycleAction={(action) => handleLifecycleAction(enrolled.mission_id, action)}
+    />
+  );
+
+  // Handle mission card click - the details route fetches the full mission
+  const handleMissionClick = useCallback((missionId: string) => {
+    navigate(getMissionDetailsPath(missionId));
+  }, [navigate]);
 
   return (
     <div className="bg-gray-50 min-h-screen">
@@ -175,18 +305,99 @@ const DashboardPage: React.FC<DashboardPageProps> = ({ onLogout }) => {
                 )}
               </p>
             </div>
-            <button 
-              onClick={handleCreateMission}
-              className="mt-4 md:mt-0 flex items-center justify-center px-6 py-3 bg-coral text-white font-semibold rounded-lg shadow-md hover:bg-coral/90 transition-colors duration-300 transform hover:scale-105"
-            >
-                <PlusIcon className="h-5 w-5 mr-2"/>
-                Create Personalized Mission
-            </button>
+            <div className="mt-4 md:mt-0 flex flex-col sm:flex-row gap-3">
+              <Link
+                to={ROUTES.CATALOG}
+                className="flex items-center justify-center px-6 py-3 border border-soft-gray bg-white text-deep-navy font-semibold rounded-lg shadow-sm hover:bg-soft-gray transition-colors duration-300"
+              >
+                  <BookOpenIcon className="h-5 w-5 mr-2" strokeWidth={2}/>
+                  Browse Catalog
+              </Link>
+              <Link
+                to={ROUTES.MISSION_NEW}
+                className="flex items-center justify-center px-6 py-3 border border-soft-gray bg-white text-deep-navy font-semibold rounded-lg shadow-sm hover:bg-soft-gray transition-colors duration-300"
+              >
+                  Create Manually
+              </Link>
+              <button 
+                onClick={handleCreateMission}
+                className="flex items-center justify-center px-6 py-3 bg-coral text-white font-semibold rounded-lg shadow-md hover:bg-coral/90 transition-colors duration-300 transform hover:scale-105"
+              >
+                  <PlusIcon className="h-5 w-5 mr-2"/>
+                  Create Personalized Mission
+              </button>
+            </div>
         </div>
 
+        {/* Unfinished Polaris conversations */}
+        {planningSessions.length > 0 && (
+          <section className="mb-12">
+            <h2 className="text-2xl font-semibold text-deep-navy mb-6">Continue Planning</h2>
+            <div className="space-y-4">
+              {planningSessions.map(session => (
+                <ContinuePlanningCard
+                  key={session.session_id}
+                  session={session}
+                  onContinue={() => navigate(getCreateSessionPath(session.session_id))}
+                  onDiscard={() => handleDiscardSession(session.session_id)}
+                />
+              ))}
+            </div>
+          </section>
+        )}
+
+        {/* Spaced-repetition cards waiting across all missions */}
+        {totalDueFlashcards > 0 && (
+          <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 bg-sky-blue/10 border border-sky-blue/30 rounded-xl p-5 mb-8">
+            <div>
+              <p className="text-lg font-semibold text-deep-navy">
+                {totalDueFlashcards} {totalDueFlashcards === 1 ? 'flashcard is' : 'flashcards are'} due for review
+              </p>
+              <p className="text-sm text-gray-600">A few minutes of review keeps what you've learned fresh.</p>
+            </div>
+            <Link
+              to={getReviewPath()}
+              className="px-6 py-3 bg-sky-blue text-white font-semibold rounded-lg hover:bg-sky-blue/90 transition-colors text-center flex-shrink-0"
+            >
+              Start review
+            </Link>
+          </div>
+        )}
+
+        {/* Jump straight back into the last mission */}
+        {!missionsLoading && continueMission && (
+          <ContinueMissionHero
+            enrollment={continueMission}
+            onContinue={() => navigate(getMissionPath(continueMission.mission_id))}
+          />
+        )}
+
         {/* Enrolled Missions Section */}
         <section className="mb-12">
           <h2 className="text-2xl font-semibold text-deep-navy mb-6">My Missions</h2>
+          <div className="flex flex-col lg:flex-row lg:items-end justify-between gap-4 mb-8">
+            <DashboardTabs activeTab={activeTab} onChange={setActiveTab} counts={tabCounts} />
+            <div className="flex flex-col sm:flex-row gap-3">
+              <input
+                type="search"
+                value={filterQuery}
+                onChange={(e) => setFilterQuery(e.target.value)}
+                placeholder="Filter by title or skill"
+                aria-label="Filter missions by title or skill"
+                className="px-4 py-2 border border-soft-gray rounded-lg text-base text-deep-navy bg-white focus:outline-none focus:ring-2 focus:ring-sky-blue"
+              />
+              <select
+                value={sort}
+                onChange={(e) => setSort(e.target.value as EnrollmentSort)}
+                aria-label="Sort missions"
+                className="px-4 py-2 border border-soft-gray rounded-lg text-base text-deep-navy bg-white focus:outline-none focus:ring-2 focus:ring-sky-blue"
+              >
+                {ENROLLMENT_SORTS.map(option => (
+                  <option key={option.id} value={option.id}>{option.label}</option>
+                ))}
+              </select>
+            </div>
+          </div>
           {missionsLoading ? (
             <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-8">
               {[1, 2, 3].map((i) => (
@@ -203,19 +414,19 @@ const DashboardPage: React.FC<DashboardPageProps> = ({ onLogout }) => {
             <div className="bg-red-50 border border-red-200 rounded-lg p-4">
               <p className="text-red-800">Error loading missions: {missionsError}</p>
             </div>
-          ) : enrolledMissions.length === 0 ? (
+          ) : visibleMissions.length === 0 ? (
             <div className="bg-gray-50 border border-gray-200 rounded-lg p-8 text-center">
-              <p className="text-gray-600 text-lg">No enrolled missions yet. Create your first mission to get started!</p>
+              <p className="text-gray-600 text-lg">
+                {enrolledMissions.length === 0
+                  ? 'No enrolled missions yet. Create your first mission or browse the catalog to get started!'
+                  : filterQuery.trim()
+                    ? `No missions match "${filterQuery.trim()}".`
+                    : EMPTY_TAB_MESSAGES[activeTab]}
+              </p>
             </div>
           ) : (
             <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-8">
-              {enrolledMissions.map((mission: Mission) => (
-                <MissionCard 
-                  key={mission.id} 
-                  mission={mission}
-                  onClick={() => handleMissionClick(mission.id)}
-                />
-              ))}
+              {visibleMissions.map(renderMissionCard)}
             </div>
           )}
         </section>
@@ -224,19 +435,25 @@ const DashboardPage: React.FC<DashboardPageProps> = ({ onLogout }) => {
       {/* Polaris Chat Modal */}
       {showChat && (
         <PolarisChat
+          sessionId={planningSessionId}
+          onSessionStarted={handleSessionStarted}
           onMissionCreated={handleMissionCreated}
-          onClose={handleCloseChat}
+          onClose={handleCloseOverlay}
         />
       )}
 
       {/* Mission Details Modal */}
-      {showMissionDetails && createdMission && (
+      {detailsMatch && selectedMission && (
         <MissionDetails
-          mission={createdMission}
+          mission={selectedMission}
           onStartMission={handleStartMission}
-          onClose={handleCloseMissionDetails}
+          onClose={handleCloseOverlay}
+          onEdit={selectedMission.creator_id === userProfile?.uid ? handleEditMission : undefined}
         />
       )}
+
+      {/* Settings Modal - opened directly through its URL */}
+      <SettingsModal isOpen={showSettings} onClose={handleCloseOverlay} />
     </div>
   );
 };
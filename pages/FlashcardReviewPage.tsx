@@ -0,0 +1,197 @@
+import React, { useState, useEffect, useMemo, useCallback } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { Flashcard, FlashcardGrade } from '../types';
+import Header from '../components/Header';
+import { MarkdownMessage } from '../components/MarkdownMessage';
+import { useFlashcards } from '../hooks/useFlashcards';
+import { useFlashError } from '../contexts/FlashErrorContext';
+import { FLASHCARD_GRADES, formatReviewInterval, isFlashcardDue, scheduleReview } from '../utils/sm2';
+import { formatRelativeTime } from '../utils/enrollments';
+import { ROUTES, getMissionPath } from '../routes';
+
+interface FlashcardReviewPageProps {
+  onLogout: () => void;
+}
+
+const GRADE_STYLES: Record<FlashcardGrade, { label: string; className: string }> = {
+  again: { label: 'Again', className: 'bg-coral text-white hover:bg-coral/90' },
+  hard: { label: 'Hard', className: 'bg-amber-500 text-white hover:bg-amber-500/90' },
+  good: { label: 'Good', className: 'bg-sky-blue text-white hover:bg-sky-blue/90' },
+  easy: { label: 'Easy', className: 'bg-deep-navy text-white hover:bg-deep-navy/90' },
+};
+
+// Review session over the cards that are due, for every mission or the one in ?mission=
+const FlashcardReviewPage: React.FC<FlashcardReviewPageProps> = ({ onLogout }) => {
+  const [searchParams] = useSearchParams();
+  const missionId = searchParams.get('mission') ?? undefined;
+  const { cards, loading, error, reviewCard } = useFlashcards(missionId);
+  const { showError } = useFlashError();
+  // Card ids still to review this session; fixed when the session starts so graded cards
+  // only come back when they were failed
+  const [queue, setQueue] = useState<string[] | null>(null);
+  const [isRevealed, setIsRevealed] = useState(false);
+  const [reviewedCount, setReviewedCount] = useState(0);
+
+  useEffect(() => {
+    if (loading || queue !== null) return;
+    const now = new Date();
+    setQueue(
+      cards
+        .filter(card => isFlashcardDue(card, now))
+        .sort((a, b) => a.due_at.localeCompare(b.due_at))
+        .map(card => card.id)
+    );
+  }, [loading, queue, cards]);
+
+  const cardsById = useMemo(() => new Map(cards.map(card => [card.id, card])), [cards]);
+  const currentCard: Flashcard | undefined = queue?.[0] !== undefined ? cardsById.get(queue[0]) : undefined;
+  const gradePreviews = useMemo(() => {
+    if (!currentCard) return null;
+    const now = new Date();
+    return Object.fromEntries(
+      FLASHCARD_GRADES.map(grade => [grade, formatReviewInterval(scheduleReview(currentCard, grade, now), now)])
+    ) as Record<FlashcardGrade, string>;
+  }, [currentCard]);
+
+  const nextDueAt = useMemo(() => {
+    const upcoming = cards.map(card => card.due_at).sort()[0];
+    return upcoming ? new Date(upcoming) : null;
+  }, [cards]);
+
+  const handleGrade = useCallback(async (grade: FlashcardGrade) => {
+    if (!currentCard) return;
+    setIsRevealed(false);
+    // Failed cards go to the back of the queue and are asked again this session
+    setQueue(prev => {
+      const rest = (prev ?? []).slice(1);
+      return grade === 'again' ? [...rest, currentCard.id] : rest;
+    });
+    setReviewedCount(count => count + 1);
+    if (!(await reviewCard(currentCard, grade))) {
+      showError('Failed to save your review');
+    }
+  }, [currentCard, reviewCard, showError]);
+
+  // Space reveals the answer, 1-4 grade it
+  useEffect(() => {
+    if (!currentCard) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.target instanceof HTMLElement && e.target.closest('input, textarea, select, button')) return;
+      if (!isRevealed) {
+        if (e.key === ' ' || e.key === 'Enter') {
+          e.preventDefault();
+          setIsRevealed(true);
+        }
+        return;
+      }
+      const grade = FLASHCARD_GRADES[Number(e.key) - 1];
+      if (grade) {
+        e.preventDefault();
+        handleGrade(grade);
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [currentCard, isRevealed, handleGrade]);
+
+  const backLink = missionId ? getMissionPath(missionId) : ROUTES.HOME;
+  const remaining = queue?.length ?? 0;
+
+  return (
+    <div className="bg-gray-50 min-h-screen">
+      <Header onLogout={onLogout} />
+      <main className="container mx-auto max-w-3xl px-4 sm:px-6 lg:px-8 py-8">
+        <div className="flex items-center justify-between gap-4 mb-6">
+          <div>
+            <h1 className="text-3xl font-bold text-deep-navy">Flashcard Review</h1>
+            <p className="text-gray-600 mt-1">
+              {missionId ? 'Cards from this mission' : 'Cards from all your missions'}
+            </p>
+          </div>
+          <Link to={backLink} className="text-sky-blue font-semibold hover:underline flex-shrink-0">
+            {missionId ? 'Back to mission' : 'Back to dashboard'}
+          </Link>
+        </div>
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-4 mb-6">
+            <p className="text-red-800">{error}</p>
+          </div>
+        )}
+
+        {loading || queue === null ? (
+          <div className="bg-white rounded-2xl shadow-md h-72 animate-pulse"></div>
+        ) : !currentCard ? (
+          <div className="bg-white rounded-2xl shadow-md p-10 text-center animate-fade-in">
+            <p className="text-5xl mb-3" aria-hidden="true">✅</p>
+            <h2 className="text-2xl font-bold text-deep-navy">
+              {reviewedCount > 0 ? 'Session complete!' : 'Nothing due right now'}
+            </h2>
+            <p className="text-gray-600 mt-2">
+              {reviewedCount > 0 && `You reviewed ${reviewedCount} ${reviewedCount === 1 ? 'card' : 'cards'}. `}
+              {nextDueAt
+                ? `Your next card is due ${formatRelativeTime(nextDueAt.toISOString())}.`
+                : 'Save replies from Lumina or generate a deck from a checkpoint to start building your deck.'}
+            </p>
+            <Link
+              to={backLink}
+              className="inline-block mt-6 px-6 py-3 bg-coral text-white font-semibold rounded-lg hover:bg-coral/90 transition-colors"
+            >
+              {missionId ? 'Back to mission' : 'Back to dashboard'}
+            </Link>
+          </div>
+        ) : (
+          <>
+            <div className="flex items-center justify-between text-sm text-gray-500 mb-3">
+              <span>{currentCard.checkpoint ? `Checkpoint: ${currentCard.checkpoint}` : 'General'}</span>
+              <span>
+                {reviewedCount} reviewed · {remaining} left
+              </span>
+            </div>
+
+            <div key={`${currentCard.id}-${reviewedCount}`} className="bg-white rounded-2xl shadow-md animate-slide-up">
+              <div className="p-8 min-h-[10rem] flex items-center justify-center text-center">
+                <div className="text-lg font-semibold">
+                  <MarkdownMessage content={currentCard.front} className="text-deep-navy" />
+                </div>
+              </div>
+              {isRevealed && (
+                <div className="p-8 border-t border-soft-gray bg-gray-50/60 rounded-b-2xl animate-fade-in">
+                  <MarkdownMessage content={currentCard.back} className="text-deep-navy" />
+                </div>
+              )}
+            </div>
+
+            <div className="mt-6">
+              {!isRevealed ? (
+                <button
+                  onClick={() => setIsRevealed(true)}
+                  className="w-full px-6 py-3 bg-deep-navy text-white font-semibold rounded-lg hover:bg-deep-navy/90 transition-colors"
+                >
+                  Show answer <span className="text-white/60 text-sm font-normal">(space)</span>
+                </button>
+              ) : (
+                <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+                  {FLASHCARD_GRADES.map((grade, index) => (
+                    <button
+                      key={grade}
+                      onClick={() => handleGrade(grade)}
+                      className={`px-4 py-3 rounded-lg font-semibold transition-colors ${GRADE_STYLES[grade].className}`}
+                    >
+                      {GRADE_STYLES[grade].label}
+                      <span className="block text-xs font-normal opacity-80">
+                        {gradePreviews?.[grade]} · {index + 1}
+                      </span>
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+          </>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default FlashcardReviewPage;
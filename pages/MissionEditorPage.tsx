@@ -0,0 +1,340 @@
+import React, { useState, useCallback } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { Mission, MissionInput } from '../types';
+import Header from '../components/Header';
+import { ChipInput } from '../components/ChipInput';
+import { CheckpointListEditor } from '../components/CheckpointListEditor';
+import { useAuth } from '../contexts/AuthContext';
+import { useFlashError } from '../contexts/FlashErrorContext';
+import { useApiClient } from '../utils/api';
+import { useMission } from '../hooks/useMission';
+import { useAutosavedDraft } from '../hooks/useAutosavedDraft';
+import {
+  VALIDATION_LIMITS,
+  MISSION_LEVELS,
+  validateMissionInput,
+  sanitizeMissionInput,
+  toMissionInput,
+} from '../utils/validation';
+import { ROUTES, getMissionDetailsPath } from '../routes';
+
+const EMPTY_MISSION: MissionInput = {
+  title: '',
+  short_description: '',
+  description: '',
+  level: 'Beginner',
+  learning_goal: '',
+  skills: [],
+  topics_to_cover: [],
+  byte_size_checkpoints: [''],
+  is_public: false,
+};
+
+// Only the mission's creator may change it
+const canEditMission = (mission: Mission, uid: string | undefined): boolean =>
+  !!uid && mission.creator_id === uid;
+
+interface FieldProps {
+  label: string;
+  htmlFor: string;
+  error?: string | undefined;
+  length?: number;
+  maxLength?: number;
+  children: React.ReactNode;
+}
+
+const Field: React.FC<FieldProps> = ({ label, htmlFor, error, length, maxLength, children }) => (
+  <div>
+    <div className="flex items-center justify-between mb-2">
+      <label htmlFor={htmlFor} className="block text-sm font-semibold text-deep-navy">{label}</label>
+      {maxLength !== undefined && length !== undefined && (
+        <span className={`text-xs ${length > maxLength ? 'text-coral' : 'text-gray-500'}`}>
+          {length}/{maxLength}
+        </span>
+      )}
+    </div>
+    {children}
+    {error && <p className="mt-1 text-sm text-coral">{error}</p>}
+  </div>
+);
+
+const inputClassName = (error: string | undefined) =>
+  `w-full px-4 py-3 border rounded-lg text-base text-deep-navy focus:outline-none focus:ring-2 focus:ring-sky-blue ${
+    error ? 'border-coral' : 'border-soft-gray'
+  }`;
+
+interface MissionEditorFormProps {
+  mission: Mission | null; // null when creating
+  draftKey: string;
+  onSaved: (mission: Mission) => void;
+  onCancel: () => void;
+}
+
+const MissionEditorForm: React.FC<MissionEditorFormProps> = ({ mission, draftKey, onSaved, onCancel }) => {
+  const apiClient = useApiClient();
+  const { showError } = useFlashError();
+  const initialValue = mission ? toMissionInput(mission) : EMPTY_MISSION;
+  const { draft, setDraft, savedAt, wasRestored, clearDraft, discardDraft } = useAutosavedDraft<MissionInput>(draftKey, initialValue);
+  const [showErrors, setShowErrors] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const errors = showErrors ? validateMissionInput(draft) : {};
+
+  const updateField = <K extends keyof MissionInput>(field: K, value: MissionInput[K]) => {
+    setDraft(current => ({ ...current, [field]: value }));
+  };
+
+  const handleDiscardDraft = () => {
+    discardDraft(initialValue);
+    setShowErrors(false);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const input = sanitizeMissionInput(draft);
+    if (Object.keys(validateMissionInput(input)).length > 0) {
+      setShowErrors(true);
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const response = mission
+        ? await apiClient.updateMission(mission.id, input)
+        : await apiClient.createMission(input);
+      if (response.error || !response.data) {
+        showError(response.error?.message || 'Failed to save mission');
+        return;
+      }
+      clearDraft();
+      onSaved(response.data);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="bg-white rounded-xl shadow-lg p-6 sm:p-8 space-y-6" noValidate>
+      {wasRestored && (
+        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 bg-sky-blue/10 border border-sky-blue/30 rounded-lg px-4 py-3">
+          <p className="text-sm text-deep-navy">
+            Restored your unsaved draft{savedAt ? ` from ${savedAt.toLocaleString([], { dateStyle: 'medium', timeStyle: 'short' })}` : ''}.
+          </p>
+          <button type="button" onClick={handleDiscardDraft} className="text-sm font-semibold text-sky-blue hover:text-deep-navy">
+            Discard draft
+          </button>
+        </div>
+      )}
+
+      <Field label="Title" htmlFor="mission-title" error={errors.title} length={draft.title.length} maxLength={VALIDATION_LIMITS.MISSION_TITLE_MAX_LENGTH}>
+        <input
+          id="mission-title"
+          type="text"
+          value={draft.title}
+          onChange={(e) => updateField('title', e.target.value)}
+          placeholder="e.g. React Hooks from Scratch"
+          className={inputClassName(errors.title)}
+        />
+      </Field>
+
+      <Field
+        label="Short description"
+        htmlFor="mission-short-description"
+        error={errors.short_description}
+        length={draft.short_description.length}
+        maxLength={VALIDATION_LIMITS.MISSION_SHORT_DESCRIPTION_MAX_LENGTH}
+      >
+        <input
+          id="mission-short-description"
+          type="text"
+          value={draft.short_description}
+          onChange={(e) => updateField('short_description', e.target.value)}
+          placeholder="One line shown on mission cards"
+          className={inputClassName(errors.short_description)}
+        />
+      </Field>
+
+      <Field
+        label="Description"
+        htmlFor="mission-description"
+        error={errors.description}
+        length={draft.description.length}
+        maxLength={VALIDATION_LIMITS.MISSION_DESCRIPTION_MAX_LENGTH}
+      >
+        <textarea
+          id="mission-description"
+          value={draft.description}
+          onChange={(e) => updateField('description', e.target.value)}
+          rows={5}
+          className={inputClassName(errors.description)}
+        />
+      </Field>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <Field label="Level" htmlFor="mission-level" error={errors.level}>
+          <select
+            id="mission-level"
+            value={draft.level}
+            onChange={(e) => updateField('level', e.target.value)}
+            className={inputClassName(errors.level)}
+          >
+            {MISSION_LEVELS.map(level => (
+              <option key={level} value={level}>{level}</option>
+            ))}
+          </select>
+        </Field>
+
+        <div className="flex items-end">
+          <label className="flex items-center gap-3 py-3 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={draft.is_public}
+              onChange={(e) => updateField('is_public', e.target.checked)}
+              className="w-5 h-5 rounded border-soft-gray text-sky-blue focus:ring-sky-blue"
+            />
+            <span className="text-sm font-semibold text-deep-navy">List this mission in the public catalog</span>
+          </label>
+        </div>
+      </div>
+
+      <Field
+        label="Learning goal"
+        htmlFor="mission-learning-goal"
+        error={errors.learning_goal}
+        length={draft.learning_goal.length}
+        maxLength={VALIDATION_LIMITS.MISSION_LEARNING_GOAL_MAX_LENGTH}
+      >
+        <textarea
+          id="mission-learning-goal"
+          value={draft.learning_goal}
+          onChange={(e) => updateField('learning_goal', e.target.value)}
+          rows={2}
+          placeholder="What will the learner be able to do at the end?"
+          className={inputClassName(errors.learning_goal)}
+        />
+      </Field>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <ChipInput
+          label="Skills"
+          placeholder="e.g. React, Python"
+          values={draft.skills}
+          onChange={(values) => updateField('skills', values)}
+          maxLength={VALIDATION_LIMITS.MISSION_TAG_MAX_LENGTH}
+          error={errors.skills}
+        />
+        <ChipInput
+          label="Topics to cover"
+          placeholder="e.g. Hooks, Generics"
+          values={draft.topics_to_cover}
+          onChange={(values) => updateField('topics_to_cover', values)}
+          maxLength={VALIDATION_LIMITS.MISSION_TAG_MAX_LENGTH}
+          error={errors.topics_to_cover}
+        />
+      </div>
+
+      <CheckpointListEditor
+        checkpoints={draft.byte_size_checkpoints}
+        onChange={(checkpoints) => updateField('byte_size_checkpoints', checkpoints)}
+        error={errors.byte_size_checkpoints}
+      />
+
+      <div className="flex flex-col-reverse sm:flex-row sm:items-center justify-between gap-4 pt-6 border-t border-soft-gray">
+        <p className="text-xs text-gray-500">
+          {savedAt ? `Draft saved ${savedAt.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}` : 'Changes are saved as a draft while you type'}
+        </p>
+        <div className="flex gap-3">
+          <button
+            type="button"
+            onClick={onCancel}
+            className="px-6 py-3 border border-soft-gray text-deep-navy font-semibold rounded-lg hover:bg-soft-gray transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            type="submit"
+            disabled={isSaving}
+            className="px-6 py-3 bg-coral text-white font-semibold rounded-lg shadow-md hover:bg-coral/90 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isSaving ? 'Saving...' : mission ? 'Save Changes' : 'Create Mission'}
+          </button>
+        </div>
+      </div>
+    </form>
+  );
+};
+
+interface MissionEditorPageProps {
+  onLogout: () => void;
+}
+
+// Route entry for /missions/new and /missions/:missionId/edit
+const MissionEditorPage: React.FC<MissionEditorPageProps> = ({ onLogout }) => {
+  const { missionId } = useParams<{ missionId: string }>();
+  const navigate = useNavigate();
+  const { userProfile } = useAuth();
+  const { showSuccess } = useFlashError();
+  const { mission, loading, error } = useMission(missionId);
+  const isEditing = missionId !== undefined;
+
+  const handleSaved = useCallback((saved: Mission) => {
+    showSuccess(isEditing ? 'Mission updated' : 'Mission created');
+    navigate(getMissionDetailsPath(saved.id), { replace: true, state: { mission: saved } });
+  }, [isEditing, navigate, showSuccess]);
+
+  const handleCancel = useCallback(() => {
+    navigate(missionId ? getMissionDetailsPath(missionId) : ROUTES.HOME);
+  }, [navigate, missionId]);
+
+  const renderContent = () => {
+    if (isEditing && loading) {
+      return <div className="text-gray-600 text-lg text-center py-16">Loading mission...</div>;
+    }
+
+    if (isEditing && (error || !mission)) {
+      return (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-6 text-center">
+          <p className="text-red-800">Error loading mission: {error || 'Mission not found'}</p>
+        </div>
+      );
+    }
+
+    if (mission && !canEditMission(mission, userProfile?.uid)) {
+      return (
+        <div className="bg-gray-50 border border-gray-200 rounded-lg p-6 text-center">
+          <p className="text-gray-700">Only the creator of this mission can edit it.</p>
+        </div>
+      );
+    }
+
+    const draftKey = `mission-draft:${userProfile?.uid ?? 'anonymous'}:${mission?.id ?? 'new'}`;
+    return (
+      <MissionEditorForm
+        key={draftKey}
+        mission={mission}
+        draftKey={draftKey}
+        onSaved={handleSaved}
+        onCancel={handleCancel}
+      />
+    );
+  };
+
+  return (
+    <div className="bg-gray-50 min-h-screen">
+      <Header onLogout={onLogout} />
+      <main className="container mx-auto max-w-3xl px-4 sm:px-6 lg:px-8 py-8">
+        <div className="mb-8">
+          <h1 className="text-3xl font-bold text-deep-navy">{isEditing ? 'Edit Mission' : 'Create a Mission'}</h1>
+          <p className="text-gray-600 mt-1">
+            {isEditing
+              ? 'Fine-tune the details, topics and checkpoints of your mission.'
+              : 'Design a mission yourself, checkpoint by checkpoint.'}
+          </p>
+        </div>
+        {renderContent()}
+      </main>
+    </div>
+  );
+};
+
+export default MissionEditorPage;
@@ -1,33 +1,77 @@
-import React, { useState, useCallback, useEffect, useRef } from 'react';
-import { Mission, UserEnrolledMission } from '../types';
+import React, { useState, useCallback, useEffect, useMemo, useRef } from 'react';
+import { Navigate, useMatch, useNavigate, useParams } from 'react-router-dom';
+import { Mission, UserEnrolledMission, CheckpointStatus, MissionLifecycleAction, ChatMessage, FlashcardInput } from '../types';
 import Header from '../components/Header';
 import { MissionHeader } from '../components/MissionHeader';
 import { JourneyMap } from '../components/JourneyMap';
 import { ChatSection } from '../components/ChatSection';
-import { ChatMessage } from '../components/ChatMessages';
 import { ResizableDivider } from '../components/ResizableDivider';
-import { useMissionAllyWebSocket, WebSocketMessage } from '../hooks/useMissionAllyWebSocket';
+import { MobileJourneyTimeline } from '../components/MobileJourneyTimeline';
+import { MissionViewTabs, MissionViewTab } from '../components/MissionViewTabs';
+import { CheckpointDetailPanel } from '../components/CheckpointDetailPanel';
+import { MissionCompleteCelebration } from '../components/MissionCompleteCelebration';
+import { FlashcardEditor } from '../components/FlashcardEditor';
+import { NotesPanel, NoteClip } from '../components/NotesPanel';
+import { getCheckpointTopics, findCheckpointExcerpts } from '../utils/checkpoints';
+import { useSwipe } from '../hooks/useSwipe';
+import { useAgentChat } from '../hooks/useAgentChat';
+import { QuizResult } from '../utils/quiz';
+import { CodeRun } from '../utils/playground';
+import { getNoteAuthor, quoteForNotes } from '../utils/notes';
+import { InboundFrame } from '../utils/protocol';
+import { useFlashError } from '../contexts/FlashErrorContext';
 import { useApiClient } from '../utils/api';
+import { MISSION_ALLY_AGENT } from '../agents';
+import { useMission } from '../hooks/useMission';
+import { useFlashcards } from '../hooks/useFlashcards';
+import {
+  LIFECYCLE_ACTION_COPY,
+  applyLifecycleAction,
+  getAvailableLifecycleActions,
+  requestLifecycleAction,
+} from '../utils/missionLifecycle';
+import { ROUTES, getMissionPath, getMissionJourneyPath, getReviewPath, parseCheckpointIndex } from '../routes';
 
-interface MissionViewPageProps {
+interface MissionViewProps {
   mission: Mission;
+  focusedCheckpointIndex: number | null;
+  onSelectCheckpoint: (index: number) => void;
+  onCloseCheckpoint: () => void;
+  onReviewFlashcards: () => void;
   onClose: () => void;
   onLogout: () => void;
 }
 
-export const MissionViewPage: React.FC<MissionViewPageProps> = ({
+const MissionView: React.FC<MissionViewProps> = ({
   mission,
+  focusedCheckpointIndex,
+  onSelectCheckpoint,
+  onCloseCheckpoint,
+  onReviewFlashcards,
   onClose,
   onLogout,
 }) => {
   const [completedCheckpoints, setCompletedCheckpoints] = useState<string[]>([]);
-  const [chatMessages, setChatMessages] = useState<ChatMessage[]>([]);
+  const [enrollment, setEnrollment] = useState<UserEnrolledMission | null>(null);
+  const [isLifecycleActionPending, setIsLifecycleActionPending] = useState(false);
+  const [showCelebration, setShowCelebration] = useState(false);
+  const [flashcardDraft, setFlashcardDraft] = useState<FlashcardInput | null>(null);
+  const [isNotesOpen, setIsNotesOpen] = useState(false);
+  // Checkpoint the notes panel shows; null follows the learner's current checkpoint
+  const [notesCheckpointIndex, setNotesCheckpointIndex] = useState<number | null>(null);
+  const [noteClip, setNoteClip] = useState<NoteClip | null>(null);
   const [inputMessage, setInputMessage] = useState('');
   const [journeyWidth, setJourneyWidth] = useState(40); // Percentage (constrained between 30-50%)
   const [chatWidth, setChatWidth] = useState(60); // Percentage (constrained between 50-70%)
+  // Below lg only one of journey/chat is visible; deep links to a checkpoint open the journey
+  const [mobileTab, setMobileTab] = useState<MissionViewTab>(focusedCheckpointIndex !== null ? 'journey' : 'chat');
+  const [chatHiddenSince, setChatHiddenSince] = useState<Date | null>(null);
   const containerRef = useRef<HTMLDivElement>(null);
   const apiClient = useApiClient();
+  const { showError, showSuccess } = useFlashError();
   const hasLoadedEnrolledDataRef = useRef(false);
+  const flashcards = useFlashcards(mission.id);
+  const { addCards: addFlashcards } = flashcards;
 
   // Load enrolled mission data to get current progress and completed checkpoints
   useEffect(() => {
@@ -46,6 +90,7 @@ export const MissionViewPage: React.FC<MissionViewPageProps> = ({
             (em: UserEnrolledMission) => em.mission_id === mission.id
           );
           
+          setEnrollment(enrolledMission ?? null);
           if (enrolledMission && enrolledMission.completed_checkpoints) {
             // Initialize completed checkpoints from enrolled mission data
             setCompletedCheckpoints(enrolledMission.completed_checkpoints);
@@ -62,55 +107,114 @@ export const MissionViewPage: React.FC<MissionViewPageProps> = ({
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [mission.id]); // Only depend on mission.id, not apiClient
 
-  // Handle WebSocket messages
-  const handleWebSocketMessage = useCallback((message: WebSocketMessage) => {
-    if (message.type === 'agent_message' && message.message) {
-      setChatMessages(prev => [...prev, {
-        from: 'agent',
-        text: message.message || '',
-        timestamp: new Date(),
-      }]);
-    } else if (message.type === 'historical_messages' && message.messages) {
-      // Load historical messages
-      const historicalMessages: ChatMessage[] = message.messages.map(msg => ({
-        from: msg.type === 'user_message' ? 'user' : 'agent',
-        text: msg.message,
-        timestamp: new Date(), // Historical messages don't have timestamps, use current time
-      }));
-      setChatMessages(historicalMessages);
-    }
-  }, []);
-
-  // Handle checkpoint updates
-  const handleCheckpointUpdate = useCallback((completedCheckpoints: string[], _progress: number) => {
-    setCompletedCheckpoints(completedCheckpoints);
-    // Progress is automatically calculated from completedCheckpoints length
-  }, []);
-
-  // Initialize WebSocket connection
-  const { isTyping, sendMessage: sendWebSocketMessage } = useMissionAllyWebSocket(
-    mission.id,
-    handleWebSocketMessage,
-    handleCheckpointUpdate
-  );
+  const handleLifecycleAction = async (action: MissionLifecycleAction) => {
+    if (!enrollment) return;
+    const previousCheckpoints = completedCheckpoints;
+    const optimistic = applyLifecycleAction({ ...enrollment, completed_checkpoints: completedCheckpoints }, action);
+    if (optimistic) {
+      setEnrollment(optimistic);
+      setCompletedCheckpoints(optimistic.completed_checkpoints);
+    }
+
+    setIsLifecycleActionPending(true);
+    const response = await requestLifecycleAction(apiClient, mission.id, action);
+    setIsLifecycleActionPending(false);
+    if (response.error) {
+      setEnrollment(enrollment);
+      setCompletedCheckpoints(previousCheckpoints);
+      showError(`Failed to ${LIFECYCLE_ACTION_COPY[action].label.toLowerCase()}: ${response.error.message}`);
+      return;
+    }
+
+    showSuccess(LIFECYCLE_ACTION_COPY[action].success);
+    if (action === 'unenroll') {
+      onClose();
+    } else if (response.data) {
+      setEnrollment(response.data);
+      setCompletedCheckpoints(response.data.completed_checkpoints);
+    }
+  };
+
+  const isMissionComplete = useCallback((completed: string[]) =>
+    mission.byte_size_checkpoints.length > 0 &&
+    mission.byte_size_checkpoints.every(checkpoint => completed.includes(checkpoint)),
+  [mission.byte_size_checkpoints]);
+
+  // Read from socket callbacks, which shouldn't be recreated on every update
+  const completedCheckpointsRef = useRef(completedCheckpoints);
+  completedCheckpointsRef.current = completedCheckpoints;
+
+  // Handle Mission Ally events that aren't chat messages
+  const handleAgentEvent = useCallback((frame: InboundFrame) => {
+    if (frame.type === 'checkpoint_update') {
+      // Celebrate the update that finishes the mission, not replays of a finished one
+      if (!isMissionComplete(completedCheckpointsRef.current) && isMissionComplete(frame.completed_checkpoints)) {
+        setShowCelebration(true);
+      }
+      // Progress is automatically calculated from completedCheckpoints length
+      setCompletedCheckpoints(frame.completed_checkpoints);
+    } else if (frame.type === 'flashcards_generated') {
+      addFlashcards(frame.cards);
+      showSuccess(frame.message || `${frame.cards.length} flashcards added to your deck`);
+    }
+  }, [isMissionComplete, addFlashcards, showSuccess]);
+
+  const handleSessionClosed = useCallback((frame: InboundFrame) => {
+    if (isMissionComplete(completedCheckpointsRef.current)) {
+      setShowCelebration(true);
+      return;
+    }
+    showSuccess((frame.type === 'session_closed' && frame.message) || 'Mission session completed');
+  }, [isMissionComplete, showSuccess]);
+
+  // Initialize Mission Ally chat
+  const chat = useAgentChat(MISSION_ALLY_AGENT, {
+    params: { mission_id: mission.id },
+    onEvent: handleAgentEvent,
+    onTerminalEvent: handleSessionClosed,
+  });
+
+  // Kept in a ref so the quiz and playground callbacks stay stable and message bubbles don't re-render with chat state
+  const sendEventRef = useRef(chat.sendEvent);
+  sendEventRef.current = chat.sendEvent;
+  const handleQuizComplete = useCallback((result: QuizResult) =>
+    sendEventRef.current(
+      { type: 'quiz_result', ...result },
+      `Quiz results shared: ${result.score}/${result.total} correct`
+    ),
+  []);
+  const handleShareCodeRun = useCallback((run: CodeRun) =>
+    sendEventRef.current({ type: 'code_run', ...run }, 'Code and output shared'),
+  []);
+
+  useEffect(() => {
+    if (focusedCheckpointIndex !== null) {
+      setMobileTab('journey');
+      setNotesCheckpointIndex(focusedCheckpointIndex);
+    }
+  }, [focusedCheckpointIndex]);
+
+  // Agent replies that arrived while another tab was showing (history is older, so it never counts)
+  useEffect(() => {
+    setChatHiddenSince(since => (mobileTab === 'chat' ? null : since ?? new Date()));
+  }, [mobileTab]);
+  const unreadCount = chatHiddenSince
+    ? chat.messages.filter(message => message.from === 'agent' && message.timestamp && message.timestamp >= chatHiddenSince).length
+    : 0;
+
+  const swipeHandlers = useSwipe({
+    onSwipeLeft: () => setMobileTab(tab => (tab === 'journey' ? 'chat' : 'notes')),
+    onSwipeRight: () => setMobileTab(tab => (tab === 'notes' ? 'chat' : 'journey')),
+  });
 
   const handleSendMessage = (e: React.FormEvent) => {
     e.preventDefault();
-    if (inputMessage.trim() && !isTyping) {
-      // Add user message to UI immediately
-      setChatMessages(prev => [...prev, {
-        from: 'user',
-        text: inputMessage,
-        timestamp: new Date(),
-      }]);
-      
-      // Send via WebSocket
-      sendWebSocketMessage(inputMessage);
+    if (inputMessage.trim() && chat.sendMessage(inputMessage)) {
       setInputMessage('');
     }
   };
 
-  const getCheckpointStatus = (checkpoint: string, index: number): 'completed' | 'locked' | 'available' => {
+  const getCheckpointStatus = (checkpoint: string, index: number): CheckpointStatus => {
     if (completedCheckpoints.includes(checkpoint)) {
       return 'completed';
     }
@@ -124,6 +228,85 @@ export const MissionViewPage: React.FC<MissionViewPageProps> = ({
     return 'available';
   };
 
+  // First checkpoint still to do (the last one once everything is done)
+  const firstOpenCheckpointIndex = mission.byte_size_checkpoints.findIndex(checkpoint => !completedCheckpoints.includes(checkpoint));
+  const currentCheckpointIndex = firstOpenCheckpointIndex === -1
+    ? Math.max(mission.byte_size_checkpoints.length - 1, 0)
+    : firstOpenCheckpointIndex;
+
+  const focusedCheckpoint = focusedCheckpointIndex !== null
+    ? mission.byte_size_checkpoints[focusedCheckpointIndex]
+    : undefined;
+  const focusedTopics = useMemo(
+    () => (focusedCheckpoint ? getCheckpointTopics(focusedCheckpoint, mission.topics_to_cover) : []),
+    [focusedCheckpoint, mission.topics_to_cover]
+  );
+  const focusedExcerpts = useMemo(
+    () => (focusedCheckpoint ? findCheckpointExcerpts(focusedCheckpoint, chat.messages) : []),
+    [focusedCheckpoint, chat.messages]
+  );
+
+  const handleReviewCheckpoint = () => {
+    if (focusedCheckpointIndex === null || !focusedCheckpoint) return;
+    const sent = chat.sendEvent(
+      { type: 'checkpoint_focus', checkpoint_index: focusedCheckpointIndex, checkpoint: focusedCheckpoint, intent: 'review' },
+      `Reviewing Checkpoint ${focusedCheckpointIndex + 1}: ${focusedCheckpoint}`
+    );
+    if (sent) {
+      setMobileTab('chat');
+      onCloseCheckpoint();
+    }
+  };
+
+  const handleGenerateFlashcards = () => {
+    if (focusedCheckpointIndex === null || !focusedCheckpoint) return;
+    const sent = chat.sendEvent(
+      { type: 'generate_flashcards', checkpoint_index: focusedCheckpointIndex, checkpoint: focusedCheckpoint },
+      `Generating flashcards for Checkpoint ${focusedCheckpointIndex + 1}: ${focusedCheckpoint}`
+    );
+    if (sent) {
+      setMobileTab('chat');
+      onCloseCheckpoint();
+    }
+  };
+
+  // Prefill the card from the reply: the learner's question in front, the answer (or the highlighted part) on the back
+  // Reads the latest messages through a ref so the handler doesn't change with every streamed delta
+  const messagesRef = useRef(chat.messages);
+  messagesRef.current = chat.messages;
+  const handleSaveFlashcard = useCallback((message: ChatMessage, selection: string) => {
+    const messages = messagesRef.current;
+    const index = messages.findIndex(item => item.id === message.id);
+    const question = messages.slice(0, Math.max(index, 0)).reverse().find(item => item.from === 'user');
+    setFlashcardDraft({
+      front: question?.text ?? '',
+      back: selection || message.text,
+      checkpoint: mission.byte_size_checkpoints.find(checkpoint => !completedCheckpointsRef.current.includes(checkpoint)) ?? null,
+      source_message_id: message.id,
+    });
+  }, [mission.byte_size_checkpoints]);
+
+  const handleSendToNotes = useCallback((message: ChatMessage, selection: string) => {
+    setNoteClip({
+      id: `${message.id}:${Date.now()}`,
+      text: quoteForNotes(selection || message.text, getNoteAuthor(message, MISSION_ALLY_AGENT.name)),
+    });
+    setIsNotesOpen(true);
+    showSuccess('Added to your notes');
+  }, [showSuccess]);
+
+  const handleNoteClipHandled = useCallback(() => setNoteClip(null), []);
+
+  const handleCreateFlashcard = async (input: FlashcardInput) => {
+    const card = await flashcards.createCard(mission.id, input);
+    if (card) {
+      setFlashcardDraft(null);
+      showSuccess('Flashcard saved');
+    } else {
+      showError('Failed to save flashcard');
+    }
+  };
+
   const getProgressPercentage = () => {
     if (mission.byte_size_checkpoints.length === 0) return 0;
     return Math.round((completedCheckpoints.length / mission.byte_size_checkpoints.length) * 100);
@@ -141,37 +324,214 @@ export const MissionViewPage: React.FC<MissionViewPageProps> = ({
           completedCheckpoints={completedCheckpoints.length}
           totalCheckpoints={mission.byte_size_checkpoints.length}
           onClose={onClose}
+          lifecycleActions={enrollment ? getAvailableLifecycleActions({ ...enrollment, completed_checkpoints: completedCheckpoints }) : undefined}
+          onLifecycleAction={handleLifecycleAction}
+          isLifecycleActionPending={isLifecycleActionPending}
+          onViewCertificate={isMissionComplete(completedCheckpoints) ? () => setShowCelebration(true) : undefined}
+          dueFlashcards={flashcards.dueCounts.get(mission.id) ?? 0}
+          onReviewFlashcards={onReviewFlashcards}
+          isNotesOpen={isNotesOpen}
+          onToggleNotes={() => setIsNotesOpen(open => !open)}
+        />
+
+        <MissionViewTabs
+          activeTab={mobileTab}
+          onChange={setMobileTab}
+          unreadCount={unreadCount}
         />
 
         {/* Main Content Area */}
-        <div ref={containerRef} className="flex-1 flex flex-col lg:flex-row overflow-hidden min-h-0">
-          <JourneyMap
-            checkpoints={mission.byte_size_checkpoints}
-            completedCheckpoints={completedCheckpoints}
-            progressPercentage={getProgressPercentage()}
-            getCheckpointStatus={getCheckpointStatus}
-            width={journeyWidth}
-          />
-
-          <ResizableDivider
-            containerRef={containerRef}
-            onResize={(journey, chat) => {
-              setJourneyWidth(journey);
-              setChatWidth(chat);
-            }}
-          />
-
-          <ChatSection
-            messages={chatMessages}
-            inputMessage={inputMessage}
-            onInputChange={setInputMessage}
-            onSendMessage={handleSendMessage}
-            isTyping={isTyping}
-            width={chatWidth}
-          />
+        <div className="flex-1 flex flex-col lg:flex-row overflow-hidden min-h-0" {...swipeHandlers}>
+          {/* Journey and chat share this area; the divider's percentages are relative to it */}
+          <div
+            ref={containerRef}
+            className={`${mobileTab === 'notes' ? 'hidden lg:flex' : 'flex'} flex-1 flex-col lg:flex-row overflow-hidden min-h-0 min-w-0`}
+          >
+            {mobileTab === 'journey' && (
+              <div className="lg:hidden flex-1 flex flex-col min-h-0">
+                <MobileJourneyTimeline
+                  checkpoints={mission.byte_size_checkpoints}
+                  progressPercentage={getProgressPercentage()}
+                  getCheckpointStatus={getCheckpointStatus}
+                  focusedCheckpointIndex={focusedCheckpointIndex}
+                  onSelectCheckpoint={onSelectCheckpoint}
+                />
+              </div>
+            )}
+
+            <JourneyMap
+              checkpoints={mission.byte_size_checkpoints}
+              completedCheckpoints={completedCheckpoints}
+              progressPercentage={getProgressPercentage()}
+              getCheckpointStatus={getCheckpointStatus}
+              focusedCheckpointIndex={focusedCheckpointIndex}
+              onSelectCheckpoint={onSelectCheckpoint}
+              width={journeyWidth}
+            />
+
+            <ResizableDivider
+              containerRef={containerRef}
+              onResize={(journey, chat) => {
+                setJourneyWidth(journey);
+                setChatWidth(chat);
+              }}
+            />
+
+            <ChatSection
+              agentName={MISSION_ALLY_AGENT.name}
+              messages={chat.messages}
+              inputMessage={inputMessage}
+              onInputChange={setInputMessage}
+              onSendMessage={handleSendMessage}
+              isTyping={chat.isTyping}
+              isStreaming={chat.isStreaming}
+              onStopGeneration={chat.stopGeneration}
+              onRetryMessage={chat.retryMessage}
+              onSaveFlashcard={handleSaveFlashcard}
+              onSendToNotes={handleSendToNotes}
+              onQuizComplete={handleQuizComplete}
+              onShareCodeRun={handleShareCodeRun}
+              connection={chat.connection}
+              error={chat.error}
+              onRetry={chat.reconnect}
+              onDismissError={chat.clearError}
+              width={chatWidth}
+              hiddenOnMobile={mobileTab !== 'chat'}
+            />
+          </div>
+
+          {(isNotesOpen || mobileTab === 'notes') && (
+            <NotesPanel
+              missionId={mission.id}
+              missionTitle={mission.title}
+              checkpoints={mission.byte_size_checkpoints}
+              checkpointIndex={notesCheckpointIndex ?? currentCheckpointIndex}
+              onCheckpointChange={setNotesCheckpointIndex}
+              clip={noteClip}
+              onClipHandled={handleNoteClipHandled}
+              onClose={() => setIsNotesOpen(false)}
+              className={`${mobileTab === 'notes' ? 'flex flex-1' : 'hidden'} ${isNotesOpen ? 'lg:flex' : 'lg:hidden'}`}
+            />
+          )}
         </div>
       </div>
+
+      {focusedCheckpointIndex !== null && focusedCheckpoint !== undefined && (
+        <CheckpointDetailPanel
+          checkpoint={focusedCheckpoint}
+          index={focusedCheckpointIndex}
+          totalCheckpoints={mission.byte_size_checkpoints.length}
+          status={getCheckpointStatus(focusedCheckpoint, focusedCheckpointIndex)}
+          topics={focusedTopics}
+          excerpts={focusedExcerpts}
+          unlockedBy={mission.byte_size_checkpoints[focusedCheckpointIndex - 1] ?? null}
+          agentName={MISSION_ALLY_AGENT.name}
+          onReview={handleReviewCheckpoint}
+          isReviewDisabled={!chat.isConnected || chat.isTyping || chat.isStreaming || chat.isClosed}
+          onGenerateFlashcards={handleGenerateFlashcards}
+          onClose={onCloseCheckpoint}
+        />
+      )}
+
+      {flashcardDraft && (
+        <FlashcardEditor
+          initialCard={flashcardDraft}
+          onSave={handleCreateFlashcard}
+          onCancel={() => setFlashcardDraft(null)}
+        />
+      )}
+
+      {showCelebration && (
+        <MissionCompleteCelebration
+          missionId={mission.id}
+          missionTitle={mission.title}
+          onClose={() => setShowCelebration(false)}
+          onBackToDashboard={onClose}
+        />
+      )}
     </div>
   );
 };
 
+interface MissionViewPageProps {
+  onLogout: () => void;
+}
+
+// Route entry for /missions/:missionId and /missions/:missionId/journey/:checkpointIndex
+export const MissionViewPage: React.FC<MissionViewPageProps> = ({ onLogout }) => {
+  const { missionId } = useParams<{ missionId: string }>();
+  const journeyMatch = useMatch(ROUTES.MISSION_JOURNEY);
+  const navigate = useNavigate();
+  const { mission, loading, error } = useMission(missionId);
+
+  const handleClose = useCallback(() => {
+    navigate(ROUTES.HOME);
+  }, [navigate]);
+
+  const handleSelectCheckpoint = useCallback((index: number) => {
+    if (missionId) {
+      navigate(getMissionJourneyPath(missionId, index));
+    }
+  }, [navigate, missionId]);
+
+  const handleReviewFlashcards = useCallback(() => {
+    if (missionId) {
+      navigate(getReviewPath(missionId));
+    }
+  }, [navigate, missionId]);
+
+  const handleCloseCheckpoint = useCallback(() => {
+    if (missionId) {
+      navigate(getMissionPath(missionId), { replace: true });
+    }
+  }, [navigate, missionId]);
+
+  if (loading) {
+    return (
+      <div className="bg-gray-50 h-screen flex flex-col overflow-hidden">
+        <Header onLogout={onLogout} />
+        <div className="flex-1 flex items-center justify-center">
+          <div className="text-gray-600 text-lg">Loading mission...</div>
+        </div>
+      </div>
+    );
+  }
+
+  if (error || !mission) {
+    return (
+      <div className="bg-gray-50 h-screen flex flex-col overflow-hidden">
+        <Header onLogout={onLogout} />
+        <div className="flex-1 flex items-center justify-center px-4">
+          <div className="bg-red-50 border border-red-200 rounded-lg p-6 max-w-md w-full text-center">
+            <p className="text-red-800 mb-4">Error loading mission: {error || 'Mission not found'}</p>
+            <button
+              onClick={handleClose}
+              className="px-6 py-3 bg-coral text-white font-semibold rounded-lg hover:bg-coral/90 transition-colors"
+            >
+              Back to Dashboard
+            </button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  // Drop checkpoint deep links that don't point at a checkpoint of this mission
+  const checkpointIndex = journeyMatch ? parseCheckpointIndex(journeyMatch.params.checkpointIndex) : null;
+  if (journeyMatch && (checkpointIndex === null || checkpointIndex >= mission.byte_size_checkpoints.length)) {
+    return <Navigate to={getMissionPath(mission.id)} replace />;
+  }
+
+  return (
+    <MissionView
+      key={mission.id}
+      mission={mission}
+      focusedCheckpointIndex={checkpointIndex}
+      onSelectCheckpoint={handleSelectCheckpoint}
+      onCloseCheckpoint={handleCloseCheckpoint}
+      onReviewFlashcards={handleReviewFlashcards}
+      onClose={handleClose}
+      onLogout={onLogout}
+    />
+  );
+};
@@ -0,0 +1,54 @@
+import type { Location } from 'react-router-dom';
+
+export const ROUTES = {
+  HOME: '/',
+  LOGIN: '/login',
+  CREATE: '/create',
+  CREATE_SESSION: '/create/:sessionId', // A planning session that can be resumed after a reload
+  CATALOG: '/catalog',
+  MISSION_NEW: '/missions/new',
+  SETTINGS: '/settings',
+  ANALYTICS: '/analytics',
+  REVIEW: '/review', // Flashcard review; ?mission=<id> limits it to one mission
+  MISSION_DETAILS: '/missions/:missionId/details',
+  MISSION: '/missions/:missionId',
+  MISSION_EDIT: '/missions/:missionId/edit',
+  CERTIFICATE: '/certificates/:certificateId', // Public - no sign-in needed
+  MISSION_JOURNEY: '/missions/:missionId/journey/:checkpointIndex',
+} as const;
+
+// Location state used by routes that render on top of another page (modals)
+// and by the login redirect to return the user where they started
+export interface RouteState {
+  backgroundLocation?: Location;
+  from?: Location;
+}
+
+export const getCreateSessionPath = (sessionId: string): string =>
+  `/create/${encodeURIComponent(sessionId)}`;
+
+export const getMissionDetailsPath = (missionId: string): string =>
+  `/missions/${encodeURIComponent(missionId)}/details`;
+
+export const getMissionPath = (missionId: string): string =>
+  `/missions/${encodeURIComponent(missionId)}`;
+
+export const getMissionEditPath = (missionId: string): string =>
+  `/missions/${encodeURIComponent(missionId)}/edit`;
+
+export const getMissionJourneyPath = (missionId: string, checkpointIndex: number): string =>
+  `/missions/${encodeURIComponent(missionId)}/journey/${checkpointIndex}`;
+
+export const getReviewPath = (missionId?: string): string =>
+  missionId ? `/review?${new URLSearchParams({ mission: missionId }).toString()}` : '/review';
+
+export const getCertificatePath = (certificateId: string): string =>
+  `/certificates/${encodeURIComponent(certificateId)}`;
+
+// Parse the `:checkpointIndex` route param, returning null for anything that isn't a non-negative integer
+export const parseCheckpointIndex = (value: string | undefined): number | null => {
+  if (!value || !/^\d+$/.test(value)) {
+    return null;
+  }
+  return Number(value);
+};
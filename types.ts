@@ -17,17 +17,45 @@ export interface Mission {
   tags?: string[]; // Keep for backward compatibility
 }
 
+// Fields a creator can edit; the backend owns ids, ownership and timestamps
+export type MissionInput = Pick<
+  Mission,
+  | 'title'
+  | 'short_description'
+  | 'description'
+  | 'level'
+  | 'learning_goal'
+  | 'skills'
+  | 'topics_to_cover'
+  | 'byte_size_checkpoints'
+  | 'is_public'
+>;
+
+// A checkpoint unlocks once the one before it is completed
+export type CheckpointStatus = 'completed' | 'locked' | 'available';
+
 export interface SessionResponse {
   session_id: string;
   user_id: string;
   status: string;
   created_at: string;
+  updated_at?: string;
+  last_message?: string | null; // Preview of the latest message, for resuming
 }
 
+// Outgoing messages: queued locally, written to the socket, confirmed by the server, or given up on
+export type MessageDeliveryStatus = 'pending' | 'sent' | 'acknowledged' | 'failed';
+
 export interface ChatMessage {
+  id: string; // Server message id, or a client-generated one until the server confirms the message
   from: 'user' | 'agent' | 'system';
   text: string;
-  timestamp?: Date;
+  timestamp?: Date | undefined; // When the message was sent; absent if the server didn't record it
+  isLocal?: boolean; // The id was generated client-side
+  clientId?: string; // Id this client sent the message under; stays stable once the server assigns its own
+  status?: MessageDeliveryStatus; // Only set on messages sent by the user
+  isStreaming?: boolean; // Agent reply still receiving deltas
+  isInterrupted?: boolean; // Streaming stopped before the agent finished
 }
 
 export interface UserProfile {
@@ -56,5 +84,75 @@ export interface UserEnrolledMission {
   enrolled_at: string;
   last_accessed_at: string;
   completed: boolean;
+  archived?: boolean; // Hidden from the active list; progress is kept
+  attempt?: number; // 1 for the first run, incremented by each retake
   updated_at: string;
 }
+
+// Issued once per completed mission attempt; public so it can be verified by id
+export interface Certificate {
+  id: string; // Verification id
+  mission_id: string;
+  mission_title: string;
+  user_name: string;
+  skills: string[];
+  completed_at: string; // ISO 8601
+}
+
+// Learner's own notes on one checkpoint, written in markdown
+export interface CheckpointNote {
+  mission_id: string;
+  checkpoint: string;
+  content: string;
+  updated_at: string; // ISO 8601
+}
+
+// Spaced-repetition card; the schedule fields are maintained client-side (SM-2) and saved with each review
+export interface Flashcard {
+  id: string;
+  mission_id: string;
+  checkpoint: string | null;
+  front: string; // Prompt
+  back: string; // Answer
+  source_message_id: string | null; // Chat message the card was saved from
+  ease_factor: number; // >= 1.3, starts at 2.5
+  interval_days: number;
+  repetitions: number; // Successful reviews in a row
+  due_at: string; // ISO 8601
+  created_at: string;
+}
+
+export type FlashcardInput = Pick<Flashcard, 'front' | 'back' | 'checkpoint' | 'source_message_id'>;
+export type FlashcardSchedule = Pick<Flashcard, 'ease_factor' | 'interval_days' | 'repetitions' | 'due_at'>;
+
+// How well the learner recalled a card
+export type FlashcardGrade = 'again' | 'hard' | 'good' | 'easy';
+
+// Learner activity recorded by the backend, used for analytics
+export type ActivityEventType = 'session_started' | 'session_ended' | 'message_sent' | 'checkpoint_completed';
+
+export interface ActivityEvent {
+  type: ActivityEventType;
+  timestamp: string; // ISO 8601
+  mission_id: string | null; // Null for activity outside a mission (e.g. planning with Polaris)
+  session_id?: string | null;
+  checkpoint?: string | null; // Set on checkpoint_completed
+}
+
+// Things a learner can do with a mission they are enrolled in
+export type MissionLifecycleAction = 'unenroll' | 'archive' | 'unarchive' | 'reset' | 'retake';
+
+export interface PaginatedResponse<T> {
+  items: T[];
+  total: number;
+  page: number;
+  page_size: number;
+}
+
+export interface MissionCatalogFilters {
+  level?: string;
+  skills?: string[];
+  topics_to_cover?: string[];
+  page?: number;
+  page_size?: number;
+}
@@ -0,0 +1,326 @@
+// WebSocket transport shared by all agent chats.
+// Owns the connection lifecycle (backoff, heartbeat, browser online/visibility hooks)
+// and exposes it as an observable state machine for the UI.
+
+import { OutboundFrame } from './protocol';
+
+export type AgentConnectionState = 'idle' | 'connecting' | 'open' | 'reconnecting' | 'failed' | 'closed';
+
+export interface AgentConnectionSnapshot {
+  state: AgentConnectionState;
+  // Reconnect attempt currently scheduled or in flight (0 while connected)
+  attempt: number;
+  // Epoch millis of the next scheduled reconnect, if any
+  nextRetryAt: number | null;
+  error: string | null;
+}
+
+export interface AgentSocketBackoffOptions {
+  baseDelayMs: number;
+  maxDelayMs: number;
+  maxAttempts: number;
+}
+
+export interface AgentSocketHeartbeatOptions {
+  intervalMs: number;
+  // Close and reconnect when no pong arrives within this window after a ping
+  timeoutMs: number;
+}
+
+export interface AgentSocketOptions {
+  // Builds the URL for every connection attempt; reconnects ask for a freshly minted token
+  resolveUrl: (context: { isReconnect: boolean }) => Promise<string>;
+  onFrame: (data: unknown) => void;
+  onOpen?: () => void;
+  onClose?: () => void;
+  backoff?: AgentSocketBackoffOptions | false;
+  heartbeat?: AgentSocketHeartbeatOptions;
+}
+
+export const DEFAULT_BACKOFF: AgentSocketBackoffOptions = {
+  baseDelayMs: 1000,
+  maxDelayMs: 30000,
+  maxAttempts: 8,
+};
+
+export const DEFAULT_HEARTBEAT: AgentSocketHeartbeatOptions = {
+  intervalMs: 30000, // 30 seconds
+  timeoutMs: 10000, // 10 seconds
+};
+
+const NORMAL_CLOSURE = 1000;
+const POLICY_VIOLATION = 1008; // Server rejected our credentials
+const HEARTBEAT_TIMEOUT = 4000; // Application-defined close code for a missed pong
+
+// Exponential backoff with equal jitter: half the delay is fixed, half is random
+export const getBackoffDelay = (attempt: number, options: AgentSocketBackoffOptions): number => {
+  const exponential = Math.min(options.maxDelayMs, options.baseDelayMs * 2 ** Math.max(0, attempt - 1));
+  return exponential / 2 + Math.random() * (exponential / 2);
+};
+
+export class AgentSocket {
+  private options: AgentSocketOptions;
+  private ws: WebSocket | null = null;
+  private snapshot: AgentConnectionSnapshot = { state: 'idle', attempt: 0, nextRetryAt: null, error: null };
+  private listeners: Set<() => void> = new Set();
+  private reconnectTimeout: ReturnType<typeof setTimeout> | null = null;
+  private pingInterval: ReturnType<typeof setInterval> | null = null;
+  private pongTimeout: ReturnType<typeof setTimeout> | null = null;
+  // Incremented on every (re)connect and teardown so stale sockets and pending attempts are ignored
+  private generation = 0;
+  private started = false;
+
+  constructor(options: AgentSocketOptions) {
+    this.options = options;
+  }
+
+  // Swap callbacks without touching the connection (used by the React hook on every render)
+  setOptions(options: AgentSocketOptions): void {
+    this.options = options;
+  }
+
+  subscribe = (listener: () => void): (() => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  getSnapshot = (): AgentConnectionSnapshot => this.snapshot;
+
+  // Start connecting and listening for browser connectivity changes
+  start(): void {
+    if (this.started) return;
+    this.started = true;
+    window.addEventListener('online', this.handleOnline);
+    window.addEventListener('offline', this.handleOffline);
+    document.addEventListener('visibilitychange', this.handleVisibilityChange);
+    this.open(false);
+  }
+
+  // Close for good - no more reconnects until start() is called again
+  stop(): void {
+    if (!this.started) return;
+    this.started = false;
+    window.removeEventListener('online', this.handleOnline);
+    window.removeEventListener('offline', this.handleOffline);
+    document.removeEventListener('visibilitychange', this.handleVisibilityChange);
+    this.teardown();
+    this.setSnapshot({ state: 'closed', attempt: 0, nextRetryAt: null, error: null });
+  }
+
+  // Drop the current connection and start over with a fresh attempt budget
+  reconnect(): void {
+    if (!this.started) return;
+    this.teardown();
+    this.open(true);
+  }
+
+  send(frame: OutboundFrame): boolean {
+    if (this.ws && this.ws.readyState === WebSocket.OPEN) {
+      this.ws.send(JSON.stringify(frame));
+      return true;
+    }
+    return false;
+  }
+
+  private setSnapshot(next: Partial<AgentConnectionSnapshot>): void {
+    this.snapshot = { ...this.snapshot, ...next };
+    this.listeners.forEach(listener => listener());
+  }
+
+  private clearTimers(): void {
+    if (this.reconnectTimeout) {
+      clearTimeout(this.reconnectTimeout);
+      this.reconnectTimeout = null;
+    }
+    if (this.pingInterval) {
+      clearInterval(this.pingInterval);
+      this.pingInterval = null;
+    }
+    if (this.pongTimeout) {
+      clearTimeout(this.pongTimeout);
+      this.pongTimeout = null;
+    }
+  }
+
+  private teardown(): void {
+    this.generation += 1;
+    this.clearTimers();
+    if (this.ws) {
+      this.ws.close(NORMAL_CLOSURE);
+      this.ws = null;
+    }
+  }
+
+  private async open(isReconnect: boolean, attempt: number = 0): Promise<void> {
+    const generation = ++this.generation;
+    this.setSnapshot({
+      state: isReconnect ? 'reconnecting' : 'connecting',
+      attempt,
+      nextRetryAt: null,
+    });
+
+    let url: string;
+    try {
+      url = await this.options.resolveUrl({ isReconnect });
+    } catch (error) {
+      if (generation !== this.generation) return;
+      console.error('[AgentSocket] Failed to resolve WebSocket URL:', error);
+      // Token or params fetches fail transiently too, so retry with the same backoff
+      this.scheduleReconnect(attempt + 1, error instanceof Error ? error.message : 'Connection failed');
+      return;
+    }
+
+    // A newer attempt or a teardown happened while we were resolving the URL
+    if (generation !== this.generation) return;
+
+    const ws = new WebSocket(url);
+    this.ws = ws;
+
+    ws.onopen = () => {
+      if (generation !== this.generation) return;
+      this.setSnapshot({ state: 'open', attempt: 0, nextRetryAt: null, error: null });
+      this.startHeartbeat(ws);
+      this.options.onOpen?.();
+    };
+
+    ws.onmessage = (event) => {
+      if (generation !== this.generation) return;
+      let data: unknown;
+      try {
+        data = JSON.parse(event.data);
+      } catch (error) {
+        console.error('[AgentSocket] Failed to parse WebSocket message:', error);
+        return;
+      }
+      if (typeof data === 'object' && data !== null && (data as { type?: unknown }).type === 'pong') {
+        this.handlePong();
+      }
+      this.options.onFrame(data);
+    };
+
+    ws.onerror = (error) => {
+      console.error('[AgentSocket] WebSocket error:', error);
+    };
+
+    ws.onclose = (event) => {
+      if (generation !== this.generation) return;
+      this.ws = null;
+      this.clearTimers();
+      this.options.onClose?.();
+
+      if (event.code === NORMAL_CLOSURE) {
+        this.setSnapshot({ state: 'closed', attempt: 0, nextRetryAt: null });
+        return;
+      }
+
+      if (event.code === POLICY_VIOLATION) {
+        // Authentication failed - don't retry
+        this.fail('Authentication failed. Please refresh the page.');
+        return;
+      }
+
+      this.scheduleReconnect(this.snapshot.attempt + 1);
+    };
+  }
+
+  private scheduleReconnect(attempt: number, error: string = 'Connection lost. Please try reconnecting.'): void {
+    const backoff = this.options.backoff ?? DEFAULT_BACKOFF;
+    if (!backoff || attempt > backoff.maxAttempts) {
+      this.fail(error);
+      return;
+    }
+
+    // Don't burn attempts while the browser is offline - the online event resumes us
+    if (!navigator.onLine) {
+      this.setSnapshot({ state: 'reconnecting', attempt, nextRetryAt: null });
+      return;
+    }
+
+    const delay = getBackoffDelay(attempt, backoff);
+    this.setSnapshot({ state: 'reconnecting', attempt, nextRetryAt: Date.now() + delay });
+    this.reconnectTimeout = setTimeout(() => {
+      this.reconnectTimeout = null;
+      this.open(true, attempt);
+    }, delay);
+  }
+
+  private fail(message: string): void {
+    this.clearTimers();
+    this.setSnapshot({ state: 'failed', nextRetryAt: null, error: message });
+  }
+
+  private startHeartbeat(ws: WebSocket): void {
+    const heartbeat = this.options.heartbeat ?? DEFAULT_HEARTBEAT;
+    this.pingInterval = setInterval(() => this.ping(ws, heartbeat), heartbeat.intervalMs);
+  }
+
+  private ping(ws: WebSocket, heartbeat: AgentSocketHeartbeatOptions): void {
+    if (ws.readyState !== WebSocket.OPEN || this.pongTimeout) return;
+    const ping: OutboundFrame = { type: 'ping' };
+    ws.send(JSON.stringify(ping));
+    this.pongTimeout = setTimeout(() => {
+      this.pongTimeout = null;
+      console.warn('[AgentSocket] Heartbeat timed out, reconnecting');
+      this.abandon(ws);
+    }, heartbeat.timeoutMs);
+  }
+
+  // A half-open socket may not finish the close handshake (and fire onclose) until the TCP
+  // timeout, so drop it locally and reconnect right away
+  private abandon(ws: WebSocket): void {
+    this.generation += 1;
+    this.clearTimers();
+    ws.onopen = null;
+    ws.onmessage = null;
+    ws.onerror = null;
+    ws.onclose = null;
+    ws.close(HEARTBEAT_TIMEOUT, 'Heartbeat timeout');
+    if (this.ws === ws) this.ws = null;
+    this.options.onClose?.();
+    this.scheduleReconnect(this.snapshot.attempt + 1);
+  }
+
+  private handlePong(): void {
+    if (this.pongTimeout) {
+      clearTimeout(this.pongTimeout);
+      this.pongTimeout = null;
+    }
+  }
+
+  // Skip the wait for a pending retry; the attempt count is kept so the retry limit still applies
+  private retryNow(): void {
+    this.teardown();
+    this.open(true, this.snapshot.attempt);
+  }
+
+  private handleOnline = (): void => {
+    const { state } = this.snapshot;
+    if (state === 'reconnecting') {
+      this.retryNow();
+    } else if (state === 'failed') {
+      this.reconnect();
+    }
+  };
+
+  private handleOffline = (): void => {
+    // The socket may linger half-open while offline; probe it so we notice quickly
+    if (this.ws && this.ws.readyState === WebSocket.OPEN) {
+      this.ping(this.ws, this.options.heartbeat ?? DEFAULT_HEARTBEAT);
+    }
+  };
+
+  private handleVisibilityChange = (): void => {
+    if (document.visibilityState !== 'visible') return;
+    const { state } = this.snapshot;
+    if (state === 'reconnecting') {
+      this.retryNow();
+    } else if (state === 'failed') {
+      this.reconnect();
+    } else if (state === 'open' && this.ws) {
+      // Timers are throttled in background tabs - check the connection is still alive
+      this.ping(this.ws, this.options.heartbeat ?? DEFAULT_HEARTBEAT);
+    }
+  };
+}
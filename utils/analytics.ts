@@ -0,0 +1,160 @@
+import { ActivityEvent, UserEnrolledMission } from '../types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Gaps longer than this between two events count as a break, not time on task
+const IDLE_GAP_MS = 30 * 60 * 1000;
+// Credit for the event that opens a stretch of work (reading the first reply, etc.)
+const BURST_START_MS = 2 * 60 * 1000;
+
+// Local calendar day, e.g. "2024-10-12"
+export const toDayKey = (date: Date): string => {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+};
+
+const startOfDay = (date: Date): Date => new Date(date.getFullYear(), date.getMonth(), date.getDate());
+
+const addDays = (date: Date, days: number): Date =>
+  new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+
+// Weeks start on Monday
+export const startOfWeek = (date: Date): Date => {
+  const day = startOfDay(date);
+  return addDays(day, -((day.getDay() + 6) % 7));
+};
+
+const parseTimestamp = (event: ActivityEvent): Date | null => {
+  const date = new Date(event.timestamp);
+  return Number.isNaN(date.getTime()) ? null : date;
+};
+
+// Number of events per local day
+export const getDailyActivity = (events: ActivityEvent[]): Map<string, number> => {
+  const counts = new Map<string, number>();
+  for (const event of events) {
+    const date = parseTimestamp(event);
+    if (!date) continue;
+    const key = toDayKey(date);
+    counts.set(key, (counts.get(key) ?? 0) + 1);
+  }
+  return counts;
+};
+
+export interface Streaks {
+  current: number;
+  longest: number;
+}
+
+// Consecutive active days. Today doesn't break the current streak until it's over.
+export const getStreaks = (dailyActivity: Map<string, number>, today: Date = new Date()): Streaks => {
+  const activeDays = [...dailyActivity.keys()].filter(key => (dailyActivity.get(key) ?? 0) > 0).sort();
+
+  let longest = 0;
+  let run = 0;
+  let previous: Date | null = null;
+  for (const key of activeDays) {
+    const [year, month, day] = key.split('-').map(Number);
+    const date = new Date(year!, month! - 1, day!);
+    run = previous && toDayKey(addDays(previous, 1)) === key ? run + 1 : 1;
+    longest = Math.max(longest, run);
+    previous = date;
+  }
+
+  let current = 0;
+  let cursor = dailyActivity.get(toDayKey(today)) ? startOfDay(today) : addDays(today, -1);
+  while (dailyActivity.get(toDayKey(cursor))) {
+    current++;
+    cursor = addDays(cursor, -1);
+  }
+
+  return { current, longest };
+};
+
+export interface WeeklyCount {
+  weekStart: Date;
+  count: number;
+}
+
+// Checkpoints completed in each of the last `weeks` weeks, oldest first, including the current week
+export const getCheckpointsPerWeek = (events: ActivityEvent[], weeks: number, today: Date = new Date()): WeeklyCount[] => {
+  const firstWeek = addDays(startOfWeek(today), -7 * (weeks - 1));
+  const counts: WeeklyCount[] = Array.from({ length: weeks }, (_, index) => ({
+    weekStart: addDays(firstWeek, 7 * index),
+    count: 0,
+  }));
+
+  for (const event of events) {
+    if (event.type !== 'checkpoint_completed') continue;
+    const date = parseTimestamp(event);
+    if (!date) continue;
+    const index = Math.floor((startOfWeek(date).getTime() - firstWeek.getTime()) / (7 * DAY_MS) + 0.5);
+    const week = counts[index];
+    if (week) week.count++;
+  }
+  return counts;
+};
+
+// Estimated time on task per mission, in milliseconds. Events are grouped per chat session
+// (falling back to the mission) and the gaps between them are summed, skipping idle breaks.
+export const estimateTimePerMission = (events: ActivityEvent[]): Map<string, number> => {
+  const timelines = new Map<string, { missionId: string; times: number[] }>();
+  for (const event of events) {
+    const date = parseTimestamp(event);
+    if (!event.mission_id || !date) continue;
+    const key = event.session_id ?? event.mission_id;
+    const timeline = timelines.get(key) ?? { missionId: event.mission_id, times: [] };
+    timeline.times.push(date.getTime());
+    timelines.set(key, timeline);
+  }
+
+  const totals = new Map<string, number>();
+  for (const { missionId, times } of timelines.values()) {
+    times.sort((a, b) => a - b);
+    let total = 0;
+    times.forEach((time, index) => {
+      const gap = index > 0 ? time - times[index - 1]! : Infinity;
+      total += gap <= IDLE_GAP_MS ? gap : BURST_START_MS;
+    });
+    totals.set(missionId, (totals.get(missionId) ?? 0) + total);
+  }
+  return totals;
+};
+
+export interface SkillProgress {
+  skill: string;
+  completed: number; // Checkpoints, across every mission teaching the skill
+  total: number;
+  missions: number;
+}
+
+// Checkpoint progress rolled up per skill, most advanced first
+export const getSkillProgress = (enrollments: UserEnrolledMission[]): SkillProgress[] => {
+  const skills = new Map<string, SkillProgress>();
+  for (const enrollment of enrollments) {
+    const completed = enrollment.byte_size_checkpoints.filter(checkpoint =>
+      enrollment.completed_checkpoints.includes(checkpoint)
+    ).length;
+    // A mission listing a skill twice still counts once
+    const missionSkills = new Map(enrollment.mission_skills.map(skill => [skill.trim().toLowerCase(), skill.trim()]));
+    for (const [key, skill] of missionSkills) {
+      if (!key) continue;
+      const entry = skills.get(key) ?? { skill, completed: 0, total: 0, missions: 0 };
+      entry.completed += completed;
+      entry.total += enrollment.byte_size_checkpoints.length;
+      entry.missions++;
+      skills.set(key, entry);
+    }
+  }
+
+  const ratio = (entry: SkillProgress) => (entry.total > 0 ? entry.completed / entry.total : 0);
+  return [...skills.values()].sort((a, b) => ratio(b) - ratio(a) || b.total - a.total);
+};
+
+// "1h 25m", "40m", "< 1m"
+export const formatDuration = (ms: number): string => {
+  const minutes = Math.round(ms / 60000);
+  if (minutes < 1) return '< 1m';
+  const hours = Math.floor(minutes / 60);
+  return hours > 0 ? `${hours}h ${minutes % 60}m` : `${minutes}m`;
+};
@@ -1,4 +1,18 @@
-import { UserProfile, SessionResponse, Mission, UserEnrolledMission } from '../types';
+import {
+  UserProfile,
+  SessionResponse,
+  Mission,
+  MissionInput,
+  UserEnrolledMission,
+  PaginatedResponse,
+  MissionCatalogFilters,
+  ActivityEvent,
+  Certificate,
+  CheckpointNote,
+  Flashcard,
+  FlashcardInput,
+  FlashcardSchedule,
+} from '../types';
 import { useAuth } from '../contexts/AuthContext';
 import { sanitizeInput } from './validation';
 import { API_BASE_URL } from '../config';
@@ -8,31 +22,137 @@ if (import.meta.env.PROD && API_BASE_URL.startsWith('http://')) {
   console.warn('Warning: Using HTTP in production. Consider using HTTPS for security.');
 }
 
+export type ApiErrorCode =
+  | 'network' // No response at all (offline, DNS, CORS)
+  | 'auth' // No usable token, or the server rejected it (401)
+  | 'forbidden'
+  | 'not_found'
+  | 'conflict'
+  | 'rate_limited'
+  | 'bad_request' // Any other 4xx, including validation failures
+  | 'server' // 5xx
+  | 'invalid_response'; // A success status whose body isn't JSON
+
+const DEFAULT_ERROR_MESSAGES: Record<ApiErrorCode, string> = {
+  network: 'Could not reach the server. Check your connection and try again.',
+  auth: 'Authentication failed. Please sign in again.',
+  forbidden: 'Access forbidden. Insufficient permissions.',
+  not_found: 'The requested item was not found.',
+  conflict: 'The request conflicts with the current state. Refresh and try again.',
+  rate_limited: 'Too many requests. Please wait a moment and try again.',
+  bad_request: 'The request was invalid.',
+  server: 'The server ran into a problem. Please try again later.',
+  invalid_response: 'The server sent an unexpected response.',
+};
+
+// Transient failures that may succeed when the same request is sent again
+const RETRYABLE_CODES: ReadonlySet<ApiErrorCode> = new Set(['network', 'rate_limited', 'server']);
+
+// A failed request. Branch on `code` (or `retryable`); `message` is meant for the user.
+export class ApiError extends Error {
+  readonly code: ApiErrorCode;
+  readonly status: number | null; // null when no response was received
+  readonly retryable: boolean;
+  readonly details: Record<string, unknown> | null; // Error body sent by the server, if any
+
+  constructor(
+    code: ApiErrorCode,
+    { message, status = null, details = null }: { message?: string | undefined; status?: number | null; details?: Record<string, unknown> | null } = {}
+  ) {
+    super(message || DEFAULT_ERROR_MESSAGES[code]);
+    this.name = 'ApiError';
+    this.code = code;
+    this.status = status;
+    this.retryable = RETRYABLE_CODES.has(code);
+    this.details = details;
+  }
+}
+
 export interface ApiResponse<T = any> {
   data?: T;
-  error?: string;
+  error?: ApiError;
   message?: string;
 }
 
+export interface RetryPolicy {
+  retries: number; // Attempts after the first one
+  baseDelayMs: number; // Doubled for every further attempt
+  maxDelayMs: number;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = { retries: 2, baseDelayMs: 500, maxDelayMs: 4000 };
+
+// Only requests that can safely be repeated are retried; a retried POST could create things twice
+const IDEMPOTENT_METHODS: ReadonlySet<string> = new Set(['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE']);
+
+// Exponential backoff with jitter so clients that failed together don't retry together
+const getRetryDelay = (policy: RetryPolicy, attempt: number): number =>
+  Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** attempt) * (0.5 + Math.random() / 2);
+
+const getErrorCode = (status: number): ApiErrorCode => {
+  if (status === 401) return 'auth';
+  if (status === 403) return 'forbidden';
+  if (status === 404) return 'not_found';
+  if (status === 409) return 'conflict';
+  if (status === 429) return 'rate_limited';
+  if (status >= 500) return 'server';
+  return 'bad_request';
+};
+
+const readErrorResponse = async (response: Response): Promise<ApiError> => {
+  let details: Record<string, unknown> | null = null;
+  try {
+    const body: unknown = await response.json();
+    if (body && typeof body === 'object' && !Array.isArray(body)) {
+      details = body as Record<string, unknown>;
+    }
+  } catch {
+    // Not JSON; the status alone has to do
+  }
+  const serverMessage = [details?.message, details?.error, details?.detail].find(
+    (value): value is string => typeof value === 'string' && value.trim() !== ''
+  );
+  return new ApiError(getErrorCode(response.status), {
+    message: serverMessage && sanitizeInput(serverMessage),
+    status: response.status,
+    details,
+  });
+};
+
 export class ApiClient {
   private baseUrl: string;
   private getToken: (() => Promise<string | null>) | null;
   private onSessionExpired?: (() => void) | undefined;
+  private retryPolicy: RetryPolicy;
 
   constructor(
     baseUrl: string,
     getToken: (() => Promise<string | null>) | null = null,
-    onSessionExpired?: (() => void) | undefined
+    onSessionExpired?: (() => void) | undefined,
+    retryPolicy: RetryPolicy = DEFAULT_RETRY_POLICY
   ) {
     this.baseUrl = baseUrl;
     this.getToken = getToken;
     this.onSessionExpired = onSessionExpired;
+    this.retryPolicy = retryPolicy;
   }
 
-  private async makeRequest<T>(
+  private async makeRequest<T>(endpoint: string, options: RequestInit = {}): Promise<ApiResponse<T>> {
+    const canRetry = IDEMPOTENT_METHODS.has((options.method ?? 'GET').toUpperCase());
+    for (let attempt = 0; ; attempt++) {
+      const response = await this.sendRequest<T>(endpoint, options);
+      if (!response.error?.retryable || !canRetry || attempt >= this.retryPolicy.retries) {
+        return response;
+      }
+      console.warn(`[API] ${endpoint} failed (${response.error.code}), retrying`);
+      await new Promise(resolve => setTimeout(resolve, getRetryDelay(this.retryPolicy, attempt)));
+    }
+  }
+
+  private async sendRequest<T>(
     endpoint: string,
-    options: RequestInit = {},
-    retryCount: number = 0
+    options: RequestInit,
+    isTokenRetry: boolean = false
   ): Promise<ApiResponse<T>> {
     const url = `${this.baseUrl}${endpoint}`;
     
@@ -49,7 +169,7 @@ export class ApiClient {
         if (this.onSessionExpired) {
           this.onSessionExpired();
         }
-        return { error: 'Authentication failed. Please sign in again.' };
+        return { error: new ApiError('auth') };
       }
     }
 
@@ -71,74 +191,42 @@ export class ApiClient {
       cache: 'no-cache',
     };
 
+    let response: Response;
     try {
-      const response = await fetch(url, fetchOptions);
-
-      if (!response.ok) {
-        let errorMessage: string;
-        
-        if (response.status === 401) {
-          // Token expired or invalid - retry once with fresh token
-          if (retryCount < 1 && this.getToken) {
-            try {
-              const freshToken = await this.getToken();
-              if (freshToken && freshToken !== token) {
-                // Token was refreshed, retry the request
-                return this.makeRequest<T>(endpoint, options, retryCount + 1);
-              }
-            } catch (error) {
-              // Failed to get fresh token
-            }
-          }
-          
-          errorMessage = 'Authentication failed. Please sign in again.';
-          if (this.onSessionExpired) {
-            this.onSessionExpired();
-          }
-        } else if (response.status === 403) {
-          errorMessage = 'Access forbidden. Insufficient permissions.';
-        } else if (response.status >= 500) {
-          errorMessage = `500: Internal Server Error - ${response.status}`;
-        } else if (response.status >= 400) {
-          errorMessage = `400: Bad Request - ${response.status}`;
-        } else {
-          errorMessage = `HTTP error! status: ${response.status}`;
-        }
-        
+      response = await fetch(url, fetchOptions);
+    } catch (error) {
+      console.error(`[API] Request to ${endpoint} failed:`, error);
+      return { error: new ApiError('network') };
+    }
+
+    if (!response.ok) {
+      // Token expired or invalid - retry once with fresh token
+      if (response.status === 401 && !isTokenRetry && this.getToken) {
         try {
-          const errorData = await response.json();
-          console.log(`[API] Error response data:`, errorData);
-          
-          if (errorData.message || errorData.error) {
-            const sanitizedError = sanitizeInput(errorData.message || errorData.error);
-            errorMessage += ` - ${sanitizedError}`;
+          const freshToken = await this.getToken();
+          if (freshToken && freshToken !== token) {
+            return this.sendRequest<T>(endpoint, options, true);
           }
-          
-          if (response.status === 401 && this.onSessionExpired) {
-            this.onSessionExpired();
-          }
-        } catch (jsonError) {
-          // JSON parsing failed, continue with basic error message
+        } catch (error) {
+          // Failed to get fresh token
         }
-        
-        throw new Error(errorMessage);
       }
 
-      const data = await response.json();
-      return { data };
-    } catch (error) {
-      if (error instanceof Error && 
-          (error.message.includes('Authentication failed') ||
-           error.message.includes('401'))) {
-        
-        if (this.onSessionExpired) {
-          this.onSessionExpired();
-        }
+      const error = await readErrorResponse(response);
+      console.error(`[API] ${endpoint} failed with ${response.status}:`, error.details ?? error.message);
+      if (error.code === 'auth' && this.onSessionExpired) {
+        this.onSessionExpired();
       }
-      
-      return {
-        error: error instanceof Error ? error.message : 'An unknown error occurred',
-      };
+      return { error };
+    }
+
+    if (response.status === 204) {
+      return {};
+    }
+    try {
+      return { data: await response.json() };
+    } catch {
+      return { error: new ApiError('invalid_response', { status: response.status }) };
     }
   }
 
@@ -180,6 +268,16 @@ export class ApiClient {
     });
   }
 
+  // Planning sessions that ended before a mission was accepted
+  async getActiveSessions(): Promise<ApiResponse<SessionResponse[]>> {
+    return this.get<SessionResponse[]>('/sessions/?status=active');
+  }
+
+  // Abandon a planning session so it is no longer offered for resuming
+  async deleteSession(sessionId: string): Promise<ApiResponse<void>> {
+    return this.delete<void>(`/sessions/${sessionId}`);
+  }
+
   // Get mission by ID
   async getMission(missionId: string): Promise<ApiResponse<Mission>> {
     return this.get<Mission>(`/missions/${missionId}`);
@@ -189,8 +287,121 @@ export class ApiClient {
   async getUserEnrolledMissions(limit: number = 100): Promise<ApiResponse<UserEnrolledMission[]>> {
     return this.get<UserEnrolledMission[]>(`/user/enrolled-missions?limit=${limit}`);
   }
+
+  // The current user's activity since a point in time, oldest first
+  async getActivityEvents(since: Date): Promise<ApiResponse<ActivityEvent[]>> {
+    const params = new URLSearchParams({ since: since.toISOString() });
+    return this.get<ActivityEvent[]>(`/user/activity?${params.toString()}`);
+  }
+
+  // List public missions, optionally filtered by level, skills and topics
+  async getPublicMissions(filters: MissionCatalogFilters = {}): Promise<ApiResponse<PaginatedResponse<Mission>>> {
+    const params = buildCatalogParams(filters);
+    return this.get<PaginatedResponse<Mission>>(`/missions/public?${params.toString()}`);
+  }
+
+  // Full-text search over public missions, with the same filters as getPublicMissions
+  async searchPublicMissions(
+    query: string,
+    filters: MissionCatalogFilters = {}
+  ): Promise<ApiResponse<PaginatedResponse<Mission>>> {
+    const params = buildCatalogParams(filters);
+    params.set('q', sanitizeInput(query));
+    return this.get<PaginatedResponse<Mission>>(`/missions/public/search?${params.toString()}`);
+  }
+
+  // Create a mission from the manual editor
+  async createMission(input: MissionInput): Promise<ApiResponse<Mission>> {
+    return this.post<Mission>('/missions/', input);
+  }
+
+  // Update a mission the current user created
+  async updateMission(missionId: string, input: Partial<MissionInput>): Promise<ApiResponse<Mission>> {
+    return this.put<Mission>(`/missions/${missionId}`, input);
+  }
+
+  // Enroll the current user in a public mission
+  async enrollInMission(missionId: string): Promise<ApiResponse<UserEnrolledMission>> {
+    return this.post<UserEnrolledMission>(`/missions/${missionId}/enroll`);
+  }
+
+  // Certificate for a completed mission; issued on first request, the same one afterwards
+  async issueCertificate(missionId: string): Promise<ApiResponse<Certificate>> {
+    return this.post<Certificate>(`/missions/${missionId}/certificate`);
+  }
+
+  // Public lookup used by the verification page, works without signing in
+  async getCertificate(certificateId: string): Promise<ApiResponse<Certificate>> {
+    return this.get<Certificate>(`/certificates/${encodeURIComponent(certificateId)}`);
+  }
+
+  async getMissionNotes(missionId: string): Promise<ApiResponse<CheckpointNote[]>> {
+    return this.get<CheckpointNote[]>(`/missions/${missionId}/notes`);
+  }
+
+  // Create or replace the note of one checkpoint
+  async saveCheckpointNote(missionId: string, checkpoint: string, content: string): Promise<ApiResponse<CheckpointNote>> {
+    return this.put<CheckpointNote>(`/missions/${missionId}/notes`, { checkpoint, content });
+  }
+
+  // Flashcards of one mission, or of every mission when no id is given
+  async getFlashcards(missionId?: string): Promise<ApiResponse<Flashcard[]>> {
+    const query = missionId ? `?${new URLSearchParams({ mission_id: missionId }).toString()}` : '';
+    return this.get<Flashcard[]>(`/flashcards/${query}`);
+  }
+
+  // Save a card; the server sets the initial schedule (due immediately)
+  async createFlashcard(missionId: string, input: FlashcardInput): Promise<ApiResponse<Flashcard>> {
+    return this.post<Flashcard>(`/missions/${missionId}/flashcards`, input);
+  }
+
+  // Store the schedule computed after a review
+  async updateFlashcardSchedule(flashcardId: string, schedule: FlashcardSchedule): Promise<ApiResponse<Flashcard>> {
+    return this.put<Flashcard>(`/flashcards/${flashcardId}`, schedule);
+  }
+
+  async deleteFlashcard(flashcardId: string): Promise<ApiResponse<void>> {
+    return this.delete<void>(`/flashcards/${flashcardId}`);
+  }
+
+  // Leave a mission, dropping its progress
+  async unenrollFromMission(missionId: string): Promise<ApiResponse<void>> {
+    return this.delete<void>(`/missions/${missionId}/enroll`);
+  }
+
+  // Archive or unarchive an enrolled mission
+  async setMissionArchived(missionId: string, archived: boolean): Promise<ApiResponse<UserEnrolledMission>> {
+    return this.put<UserEnrolledMission>(`/missions/${missionId}/archive`, { archived });
+  }
+
+  // Clear progress and completed checkpoints of the current attempt
+  async resetMissionProgress(missionId: string): Promise<ApiResponse<UserEnrolledMission>> {
+    return this.post<UserEnrolledMission>(`/missions/${missionId}/reset`);
+  }
+
+  // Start a fresh attempt at a completed mission; earlier attempts stay on record
+  async retakeMission(missionId: string): Promise<ApiResponse<UserEnrolledMission>> {
+    return this.post<UserEnrolledMission>(`/missions/${missionId}/retake`);
+  }
 }
 
+// Serialize catalog filters into query params - list filters are sent as repeated keys
+const buildCatalogParams = (filters: MissionCatalogFilters): URLSearchParams => {
+  const params = new URLSearchParams();
+  if (filters.level) {
+    params.set('level', filters.level);
+  }
+  filters.skills?.forEach(skill => params.append('skills', skill));
+  filters.topics_to_cover?.forEach(topic => params.append('topics_to_cover', topic));
+  if (filters.page !== undefined) {
+    params.set('page', String(filters.page));
+  }
+  if (filters.page_size !== undefined) {
+    params.set('page_size', String(filters.page_size));
+  }
+  return params;
+};
+
 // Hook to get an authenticated API client
 export const useApiClient = () => {
   const { user, signOut } = useAuth();
@@ -0,0 +1,179 @@
+import { Certificate } from '../types';
+import { toFileSlug } from './download';
+
+// A4 landscape at ~240 dpi; the PDF page uses the same aspect ratio in points
+export const CERTIFICATE_WIDTH = 2000;
+export const CERTIFICATE_HEIGHT = 1414;
+const PDF_PAGE_WIDTH = 842;
+const PDF_PAGE_HEIGHT = 595;
+
+const COLORS = {
+  navy: '#0B132B',
+  sky: '#5BC0BE',
+  coral: '#F25F5C',
+  gray: '#6B7280',
+};
+
+const SERIF = 'Georgia, "Times New Roman", serif';
+const SANS = '"Helvetica Neue", Arial, sans-serif';
+
+export const formatCertificateDate = (value: string): string =>
+  new Date(value).toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' });
+
+// Break text into lines that fit maxWidth with the context's current font
+const wrapText = (context: CanvasRenderingContext2D, text: string, maxWidth: number): string[] => {
+  const lines: string[] = [];
+  let line = '';
+  for (const word of text.split(/\s+/)) {
+    const candidate = line ? `${line} ${word}` : word;
+    if (line && context.measureText(candidate).width > maxWidth) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = candidate;
+    }
+  }
+  if (line) lines.push(line);
+  return lines;
+};
+
+const drawCentered = (context: CanvasRenderingContext2D, lines: string[], y: number, lineHeight: number): number => {
+  lines.forEach((line, index) => context.fillText(line, CERTIFICATE_WIDTH / 2, y + index * lineHeight));
+  return y + lines.length * lineHeight;
+};
+
+// Paint the certificate onto a canvas of CERTIFICATE_WIDTH x CERTIFICATE_HEIGHT
+export const drawCertificate = (canvas: HTMLCanvasElement, certificate: Certificate, verificationUrl: string): void => {
+  canvas.width = CERTIFICATE_WIDTH;
+  canvas.height = CERTIFICATE_HEIGHT;
+  const context = canvas.getContext('2d');
+  if (!context) return;
+
+  const maxTextWidth = CERTIFICATE_WIDTH - 400;
+
+  context.fillStyle = '#FFFFFF';
+  context.fillRect(0, 0, CERTIFICATE_WIDTH, CERTIFICATE_HEIGHT);
+
+  // Double frame
+  context.strokeStyle = COLORS.navy;
+  context.lineWidth = 12;
+  context.strokeRect(50, 50, CERTIFICATE_WIDTH - 100, CERTIFICATE_HEIGHT - 100);
+  context.strokeStyle = COLORS.sky;
+  context.lineWidth = 4;
+  context.strokeRect(80, 80, CERTIFICATE_WIDTH - 160, CERTIFICATE_HEIGHT - 160);
+
+  context.textAlign = 'center';
+  context.textBaseline = 'alphabetic';
+
+  context.fillStyle = COLORS.sky;
+  context.font = `bold 36px ${SANS}`;
+  context.fillText('L E A R N F O R G E', CERTIFICATE_WIDTH / 2, 220);
+
+  context.fillStyle = COLORS.navy;
+  context.font = `bold 96px ${SERIF}`;
+  context.fillText('Certificate of Completion', CERTIFICATE_WIDTH / 2, 360);
+
+  context.fillStyle = COLORS.gray;
+  context.font = `40px ${SANS}`;
+  context.fillText('This certifies that', CERTIFICATE_WIDTH / 2, 480);
+
+  context.fillStyle = COLORS.navy;
+  context.font = `italic bold 88px ${SERIF}`;
+  const nameBottom = drawCentered(context, wrapText(context, certificate.user_name, maxTextWidth).slice(0, 2), 600, 100);
+
+  context.strokeStyle = COLORS.coral;
+  context.lineWidth = 3;
+  context.beginPath();
+  context.moveTo(CERTIFICATE_WIDTH / 2 - 400, nameBottom - 50);
+  context.lineTo(CERTIFICATE_WIDTH / 2 + 400, nameBottom - 50);
+  context.stroke();
+
+  context.fillStyle = COLORS.gray;
+  context.font = `40px ${SANS}`;
+  context.fillText('has successfully completed the mission', CERTIFICATE_WIDTH / 2, nameBottom + 30);
+
+  context.fillStyle = COLORS.navy;
+  context.font = `bold 64px ${SANS}`;
+  const titleBottom = drawCentered(context, wrapText(context, certificate.mission_title, maxTextWidth).slice(0, 2), nameBottom + 130, 76);
+
+  if (certificate.skills.length > 0) {
+    context.fillStyle = COLORS.navy;
+    context.font = `36px ${SANS}`;
+    drawCentered(context, wrapText(context, `Skills: ${certificate.skills.join('  ·  ')}`, maxTextWidth).slice(0, 2), titleBottom + 30, 48);
+  }
+
+  // Footer: date on the left, verification on the right
+  const footerY = CERTIFICATE_HEIGHT - 200;
+  context.textAlign = 'left';
+  context.fillStyle = COLORS.gray;
+  context.font = `30px ${SANS}`;
+  context.fillText('Completed on', 200, footerY);
+  context.fillStyle = COLORS.navy;
+  context.font = `bold 40px ${SANS}`;
+  context.fillText(formatCertificateDate(certificate.completed_at), 200, footerY + 52);
+
+  context.textAlign = 'right';
+  context.fillStyle = COLORS.gray;
+  context.font = `30px ${SANS}`;
+  context.fillText(`Verification ID: ${certificate.id}`, CERTIFICATE_WIDTH - 200, footerY);
+  context.fillStyle = COLORS.sky;
+  context.font = `28px ${SANS}`;
+  context.fillText(verificationUrl, CERTIFICATE_WIDTH - 200, footerY + 52);
+};
+
+const canvasToBlob = (canvas: HTMLCanvasElement, type: string, quality?: number): Promise<Blob> =>
+  new Promise((resolve, reject) => {
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('Failed to render certificate'))), type, quality);
+  });
+
+export const certificateToPng = (canvas: HTMLCanvasElement): Promise<Blob> => canvasToBlob(canvas, 'image/png');
+
+// Single-page PDF with the rendered certificate as a full-page JPEG. Written by hand:
+// the format only needs a handful of objects and a byte-offset table for this.
+export const certificateToPdf = async (canvas: HTMLCanvasElement): Promise<Blob> => {
+  const jpeg = new Uint8Array(await (await canvasToBlob(canvas, 'image/jpeg', 0.92)).arrayBuffer());
+  const encoder = new TextEncoder();
+  const chunks: Uint8Array[] = [];
+  const offsets: number[] = [];
+  let length = 0;
+
+  const write = (part: string | Uint8Array) => {
+    const bytes = typeof part === 'string' ? encoder.encode(part) : part;
+    chunks.push(bytes);
+    length += bytes.length;
+  };
+  const startObject = () => {
+    offsets.push(length);
+    return offsets.length;
+  };
+
+  const contents = `q ${PDF_PAGE_WIDTH} 0 0 ${PDF_PAGE_HEIGHT} 0 0 cm /Certificate Do Q`;
+
+  write('%PDF-1.4\n');
+  write(`${startObject()} 0 obj\n<< /Type /Catalog /Pages 2 0 R >>\nendobj\n`);
+  write(`${startObject()} 0 obj\n<< /Type /Pages /Kids [3 0 R] /Count 1 >>\nendobj\n`);
+  write(
+    `${startObject()} 0 obj\n<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PDF_PAGE_WIDTH} ${PDF_PAGE_HEIGHT}] ` +
+    '/Resources << /XObject << /Certificate 4 0 R >> >> /Contents 5 0 R >>\nendobj\n'
+  );
+  write(
+    `${startObject()} 0 obj\n<< /Type /XObject /Subtype /Image /Width ${canvas.width} /Height ${canvas.height} ` +
+    `/ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${jpeg.length} >>\nstream\n`
+  );
+  write(jpeg);
+  write('\nendstream\nendobj\n');
+  write(`${startObject()} 0 obj\n<< /Length ${contents.length} >>\nstream\n${contents}\nendstream\nendobj\n`);
+
+  const xrefOffset = length;
+  write(`xref\n0 ${offsets.length + 1}\n0000000000 65535 f \n`);
+  offsets.forEach(offset => write(`${String(offset).padStart(10, '0')} 00000 n \n`));
+  write(`trailer\n<< /Size ${offsets.length + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`);
+
+  return new Blob(chunks, { type: 'application/pdf' });
+};
+
+// File-system friendly name, e.g. "learnforge-certificate-react-hooks"
+export const getCertificateFilename = (certificate: Certificate, extension: 'png' | 'pdf'): string => {
+  const slug = toFileSlug(certificate.mission_title);
+  return `learnforge-certificate-${slug || certificate.id}.${extension}`;
+};
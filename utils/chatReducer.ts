@@ -0,0 +1,302 @@
+import { ChatMessage, MessageDeliveryStatus } from '../types';
+
+export interface ChatState {
+  messages: ChatMessage[];
+  // Agent is composing a reply
+  isTyping: boolean;
+  // Agent handed the conversation over to a long-running job (e.g. mission generation)
+  isBusy: boolean;
+  // Id of the agent reply currently receiving deltas
+  streamingMessageId: string | null;
+  // The learner stopped generation before the first delta arrived; drop that stream when it shows up
+  discardingStream: boolean;
+  error: string | null;
+}
+
+export type ChatAction =
+  | { type: 'user_message'; id: string; text: string; status: MessageDeliveryStatus }
+  | { type: 'message_status'; id: string; status: MessageDeliveryStatus }
+  | { type: 'message_acknowledged'; clientId: string; id?: string | undefined; timestamp?: Date | undefined }
+  | { type: 'pending_failed' }
+  | { type: 'unacknowledged_requeued' }
+  | { type: 'agent_message'; text: string; id?: string | undefined; timestamp?: Date | undefined }
+  | { type: 'agent_message_delta'; messageId: string; delta: string }
+  | { type: 'agent_message_done'; messageId: string; text?: string | undefined }
+  | { type: 'generation_stopped'; byUser: boolean }
+  | { type: 'system_message'; text: string }
+  | { type: 'history_loaded'; messages: ChatMessage[] }
+  | { type: 'typing_started' }
+  | { type: 'typing_stopped' }
+  | { type: 'busy_started'; text: string }
+  | { type: 'busy_stopped' }
+  // Server or connection failure: ends whatever the agent was doing
+  | { type: 'error'; error: string; showInTranscript?: boolean }
+  // Client-side notice (rate limits, validation) that leaves the conversation state alone
+  | { type: 'notice'; error: string }
+  | { type: 'clear_error' };
+
+export const initialChatState: ChatState = {
+  messages: [],
+  isTyping: false,
+  isBusy: false,
+  streamingMessageId: null,
+  discardingStream: false,
+  error: null,
+};
+
+let localMessageCount = 0;
+
+export const createLocalMessageId = (): string => `local-${Date.now().toString(36)}-${++localMessageCount}`;
+
+// Messages created on this client get a local id until the server sends its own copy
+const createLocalMessage = (from: ChatMessage['from'], text: string): ChatMessage => ({
+  id: createLocalMessageId(),
+  from,
+  text,
+  timestamp: new Date(),
+  isLocal: true,
+});
+
+// Merge a (re)delivered history into the transcript: the server's order wins, messages already
+// on screen are matched by id (or, for ones sent from this client, by content) instead of duplicated,
+// and anything the history doesn't know about (e.g. system notices) stays after the message it followed
+const mergeHistory = (current: ChatMessage[], history: ChatMessage[]): ChatMessage[] => {
+  // Index in `current` -> the merged message that replaces it
+  const matches = new Map<number, ChatMessage>();
+  const merged = history.map(historyMessage => {
+    let index = current.findIndex((message, i) => !matches.has(i) && message.id === historyMessage.id);
+    if (index === -1) {
+      index = current.findIndex((message, i) =>
+        !matches.has(i) && message.isLocal && message.from === historyMessage.from && message.text === historyMessage.text
+      );
+    }
+    if (index === -1) return historyMessage;
+    const existing = current[index]!;
+    const message: ChatMessage = {
+      ...existing,
+      ...historyMessage,
+      timestamp: historyMessage.timestamp ?? existing.timestamp,
+      isLocal: false,
+      // The server has it, so it must not be sent again from the queue
+      ...(existing.status && { status: 'acknowledged' as const }),
+    };
+    matches.set(index, message);
+    return message;
+  });
+
+  // Unmatched messages keyed by the merged message they came after (null: before any of them).
+  // Sends the server hasn't stored yet go out after everything it has, so they stay last.
+  const following = new Map<ChatMessage | null, ChatMessage[]>();
+  const unsent: ChatMessage[] = [];
+  let anchor: ChatMessage | null = null;
+  current.forEach((message, index) => {
+    const match = matches.get(index);
+    if (match) {
+      anchor = match;
+    } else if (message.status && message.status !== 'acknowledged') {
+      unsent.push(message);
+    } else {
+      following.set(anchor, [...(following.get(anchor) ?? []), message]);
+    }
+  });
+  return [
+    ...(following.get(null) ?? []),
+    ...merged.flatMap(message => [message, ...(following.get(message) ?? [])]),
+    ...unsent,
+  ];
+};
+
+// Streamed replies are almost always at the end of the transcript, so search backwards
+const findMessageIndex = (messages: ChatMessage[], id: string): number => {
+  for (let i = messages.length - 1; i >= 0; i--) {
+    if (messages[i]!.id === id) return i;
+  }
+  return -1;
+};
+
+// Replace one message by id without touching the others, so memoized bubbles skip re-rendering
+const updateMessage = (
+  messages: ChatMessage[],
+  id: string,
+  update: (message: ChatMessage) => ChatMessage
+): ChatMessage[] => {
+  const index = findMessageIndex(messages, id);
+  if (index === -1) return messages;
+  const next = messages.slice();
+  next[index] = update(messages[index]!);
+  return next;
+};
+
+// Mark the in-flight reply (if any) as finished early
+const interruptStream = (state: ChatState): ChatMessage[] =>
+  state.streamingMessageId
+    ? updateMessage(state.messages, state.streamingMessageId, message => ({ ...message, isStreaming: false, isInterrupted: true }))
+    : state.messages;
+
+export const chatReducer = (state: ChatState, action: ChatAction): ChatState => {
+  switch (action.type) {
+    case 'user_message':
+      return {
+        ...state,
+        messages: [
+          ...state.messages,
+          { ...createLocalMessage('user', action.text), id: action.id, clientId: action.id, status: action.status },
+        ],
+        error: null,
+      };
+
+    case 'message_status':
+      return {
+        ...state,
+        messages: updateMessage(state.messages, action.id, message => ({ ...message, status: action.status })),
+      };
+
+    case 'message_acknowledged': {
+      const index = state.messages.findIndex(message => message.clientId === action.clientId);
+      if (index === -1) return state;
+      const { id, timestamp } = action;
+      return {
+        ...state,
+        messages: updateMessage(state.messages, state.messages[index]!.id, message => ({
+          ...message,
+          status: 'acknowledged',
+          ...(id && { id, isLocal: false }),
+          ...(timestamp && { timestamp }),
+        })),
+      };
+    }
+
+    case 'pending_failed':
+      return {
+        ...state,
+        messages: state.messages.some(message => message.status === 'pending')
+          ? state.messages.map(message => (message.status === 'pending' ? { ...message, status: 'failed' } : message))
+          : state.messages,
+      };
+
+    case 'unacknowledged_requeued':
+      return {
+        ...state,
+        messages: state.messages.some(message => message.status === 'sent')
+          ? state.messages.map(message => (message.status === 'sent' ? { ...message, status: 'pending' } : message))
+          : state.messages,
+      };
+
+    case 'agent_message': {
+      // Replayed after a reconnect - we already have it
+      if (action.id && findMessageIndex(state.messages, action.id) !== -1) return state;
+      const message = action.id
+        ? { id: action.id, from: 'agent' as const, text: action.text, timestamp: action.timestamp ?? new Date() }
+        : createLocalMessage('agent', action.text);
+      return { ...state, messages: [...state.messages, message] };
+    }
+
+    case 'agent_message_delta': {
+      const existing = state.messages[findMessageIndex(state.messages, action.messageId)];
+      if (existing) {
+        // Late deltas for a reply that was stopped or already completed are dropped
+        if (!existing.isStreaming) return state;
+        return {
+          ...state,
+          messages: updateMessage(state.messages, action.messageId, message => ({
+            ...message,
+            text: message.text + action.delta,
+          })),
+        };
+      }
+      if (state.discardingStream) return state;
+      return {
+        ...state,
+        isTyping: false, // The growing bubble replaces the typing indicator
+        streamingMessageId: action.messageId,
+        messages: [
+          ...state.messages,
+          { from: 'agent', id: action.messageId, text: action.delta, timestamp: new Date(), isStreaming: true },
+        ],
+      };
+    }
+
+    case 'agent_message_done': {
+      const existing = state.messages[findMessageIndex(state.messages, action.messageId)];
+      const base = {
+        ...state,
+        discardingStream: false,
+        streamingMessageId: state.streamingMessageId === action.messageId ? null : state.streamingMessageId,
+      };
+      if (!existing) {
+        // Nothing was streamed (or it was discarded); only show a final text we weren't told to drop
+        if (state.discardingStream || action.text === undefined) return base;
+        return {
+          ...base,
+          isTyping: false,
+          messages: [...state.messages, { from: 'agent', id: action.messageId, text: action.text, timestamp: new Date() }],
+        };
+      }
+      if (!existing.isStreaming) return base;
+      return {
+        ...base,
+        messages: updateMessage(state.messages, action.messageId, message => ({
+          ...message,
+          text: action.text ?? message.text,
+          isStreaming: false,
+        })),
+      };
+    }
+
+    case 'generation_stopped':
+      return {
+        ...state,
+        isTyping: false,
+        messages: interruptStream(state),
+        streamingMessageId: null,
+        // Stopping before any delta arrived: the stream may still be on its way
+        discardingStream: action.byUser && !state.streamingMessageId,
+      };
+
+    case 'system_message':
+      return {
+        ...state,
+        messages: [...state.messages, createLocalMessage('system', action.text)],
+      };
+
+    case 'history_loaded':
+      return { ...state, messages: mergeHistory(state.messages, action.messages) };
+
+    case 'typing_started':
+      return { ...state, isTyping: true };
+
+    case 'typing_stopped':
+      return { ...state, isTyping: false };
+
+    case 'busy_started':
+      return {
+        ...state,
+        isBusy: true,
+        messages: [...state.messages, createLocalMessage('system', action.text)],
+      };
+
+    case 'busy_stopped':
+      return { ...state, isBusy: false };
+
+    case 'error':
+      return {
+        ...state,
+        isTyping: false,
+        isBusy: false,
+        streamingMessageId: null,
+        error: action.error,
+        messages: action.showInTranscript
+          ? [...interruptStream(state), createLocalMessage('system', `Error: ${action.error}`)]
+          : interruptStream(state),
+      };
+
+    case 'notice':
+      return { ...state, error: action.error };
+
+    case 'clear_error':
+      return { ...state, error: null };
+
+    default:
+      return state;
+  }
+};
@@ -0,0 +1,70 @@
+import { ChatMessage } from '../types';
+
+export interface CheckpointExcerpt {
+  messageId: string;
+  from: 'user' | 'agent';
+  text: string;
+  timestamp?: Date | undefined;
+}
+
+// Words too common to tell one checkpoint from another
+const STOP_WORDS = new Set([
+  'the', 'and', 'for', 'with', 'your', 'you', 'how', 'what', 'that', 'this', 'from', 'into', 'about',
+  'using', 'use', 'learn', 'understand', 'basics', 'basic', 'introduction', 'intro', 'build', 'create',
+  'work', 'working', 'first', 'simple', 'its', 'are', 'can', 'will', 'their', 'them', 'more',
+]);
+
+const EXCERPT_RADIUS = 90; // Characters of context on each side of the first match
+
+const getKeywords = (text: string): string[] => {
+  const words = text.toLowerCase().match(/[a-z0-9][a-z0-9+#.-]*[a-z0-9+#]/g) ?? [];
+  return [...new Set(words.filter(word => word.length >= 3 && !STOP_WORDS.has(word)))];
+};
+
+// Topics from the mission's topics_to_cover that a checkpoint mentions, either verbatim or by keyword
+export const getCheckpointTopics = (checkpoint: string, topics: string[]): string[] => {
+  const lowerCheckpoint = checkpoint.toLowerCase();
+  const checkpointKeywords = new Set(getKeywords(checkpoint));
+  return topics.filter(topic =>
+    lowerCheckpoint.includes(topic.toLowerCase()) || getKeywords(topic).some(keyword => checkpointKeywords.has(keyword))
+  );
+};
+
+const toExcerpt = (text: string, matchIndex: number): string => {
+  const start = Math.max(0, matchIndex - EXCERPT_RADIUS);
+  const end = Math.min(text.length, matchIndex + EXCERPT_RADIUS);
+  const snippet = text.slice(start, end).replace(/\s+/g, ' ').trim();
+  return `${start > 0 ? '…' : ''}${snippet}${end < text.length ? '…' : ''}`;
+};
+
+// Chat messages that discuss a checkpoint, newest first. A message counts when it mentions
+// the checkpoint verbatim or shares enough of its keywords.
+export const findCheckpointExcerpts = (
+  checkpoint: string,
+  messages: ChatMessage[],
+  limit: number = 3
+): CheckpointExcerpt[] => {
+  const keywords = getKeywords(checkpoint);
+  if (keywords.length === 0) return [];
+  const requiredMatches = Math.min(2, keywords.length);
+  const lowerCheckpoint = checkpoint.toLowerCase();
+
+  const excerpts: CheckpointExcerpt[] = [];
+  for (let i = messages.length - 1; i >= 0 && excerpts.length < limit; i--) {
+    const message = messages[i]!;
+    if (message.from === 'system' || message.isStreaming) continue;
+
+    const lowerText = message.text.toLowerCase();
+    const verbatimIndex = lowerText.indexOf(lowerCheckpoint);
+    const matchIndexes = keywords.map(keyword => lowerText.indexOf(keyword)).filter(index => index !== -1);
+    if (verbatimIndex === -1 && matchIndexes.length < requiredMatches) continue;
+
+    excerpts.push({
+      messageId: message.id,
+      from: message.from,
+      text: toExcerpt(message.text, verbatimIndex !== -1 ? verbatimIndex : Math.min(...matchIndexes)),
+      timestamp: message.timestamp,
+    });
+  }
+  return excerpts;
+};
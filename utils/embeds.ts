@@ -0,0 +1,166 @@
+// Registry of link embeds. Each provider recognises its own URLs and decides how tightly its
+// iframe is sandboxed; links no provider claims stay plain anchors.
+
+export type EmbedContent =
+  | { kind: 'iframe'; src: string }
+  | { kind: 'srcdoc'; srcdoc: string } // Third-party script run inside an opaque-origin frame
+  | { kind: 'image'; src: string }
+  | { kind: 'document'; src: string }; // Shown as a card that opens the file in a new tab
+
+export interface EmbedProvider {
+  id: string;
+  name: string; // Shown on the click-to-load placeholder
+  match: (url: URL) => EmbedContent | null;
+  // iframe sandbox tokens; null leaves the frame unsandboxed
+  sandbox: string | null;
+  allow?: string;
+  // Frame size; images use the height as their maximum
+  size: { aspectRatio: number } | { height: number };
+}
+
+export interface Embed {
+  provider: EmbedProvider;
+  content: EmbedContent;
+}
+
+const VIDEO_SANDBOX = 'allow-scripts allow-same-origin allow-presentation allow-popups allow-popups-to-escape-sandbox';
+const VIDEO_ALLOW = 'accelerometer; autoplay; clipboard-write; encrypted-media; gyroscope; picture-in-picture; fullscreen';
+const CODE_SANDBOX = 'allow-scripts allow-same-origin allow-forms allow-modals allow-popups allow-popups-to-escape-sandbox';
+
+const isHost = (url: URL, ...hosts: string[]): boolean =>
+  hosts.some(host => url.hostname === host || url.hostname === `www.${host}`);
+
+// "90", "90s", "1m30s", "1h2m3s" or "1:30" to seconds
+export const parseTimestamp = (value: string | null): number | null => {
+  if (!value) return null;
+  if (/^\d+s?$/.test(value)) return parseInt(value, 10);
+  const clock = value.match(/^(?:(\d+):)?(\d{1,2}):(\d{2})$/);
+  if (clock) return Number(clock[1] ?? 0) * 3600 + Number(clock[2]) * 60 + Number(clock[3]);
+  const units = value.match(/^(?:(\d+)h)?(?:(\d+)m)?(?:(\d+)s)?$/);
+  if (!units) return null;
+  return Number(units[1] ?? 0) * 3600 + Number(units[2] ?? 0) * 60 + Number(units[3] ?? 0);
+};
+
+const getYouTubeVideoId = (url: URL): string | null => {
+  if (isHost(url, 'youtu.be')) return url.pathname.split('/')[1] || null;
+  if (!isHost(url, 'youtube.com', 'm.youtube.com', 'youtube-nocookie.com')) return null;
+  if (url.pathname === '/watch') return url.searchParams.get('v');
+  return url.pathname.match(/^\/(?:embed|shorts|live)\/([^/]+)/)?.[1] ?? null;
+};
+
+const YOUTUBE: EmbedProvider = {
+  id: 'youtube',
+  name: 'YouTube',
+  match: url => {
+    const videoId = getYouTubeVideoId(url);
+    if (!videoId || !/^[\w-]+$/.test(videoId)) return null;
+    const start = parseTimestamp(url.searchParams.get('t') ?? url.searchParams.get('start'));
+    return { kind: 'iframe', src: `https://www.youtube-nocookie.com/embed/${videoId}${start ? `?start=${start}` : ''}` };
+  },
+  sandbox: VIDEO_SANDBOX,
+  allow: VIDEO_ALLOW,
+  size: { aspectRatio: 16 / 9 },
+};
+
+const VIMEO: EmbedProvider = {
+  id: 'vimeo',
+  name: 'Vimeo',
+  match: url => {
+    if (!isHost(url, 'vimeo.com', 'player.vimeo.com')) return null;
+    // vimeo.com/123, vimeo.com/123/abcdef (unlisted hash), player.vimeo.com/video/123
+    const [, videoId, hash] = url.pathname.match(/^\/(?:video\/)?(\d+)(?:\/([\da-f]+))?/) ?? [];
+    if (!videoId) return null;
+    const params = new URLSearchParams({ dnt: '1' });
+    const privateHash = hash ?? url.searchParams.get('h');
+    if (privateHash) params.set('h', privateHash);
+    const start = url.hash.match(/^#t=([\dhms]+)$/)?.[1];
+    return { kind: 'iframe', src: `https://player.vimeo.com/video/${videoId}?${params}${start ? `#t=${start}` : ''}` };
+  },
+  sandbox: VIDEO_SANDBOX,
+  allow: VIDEO_ALLOW,
+  size: { aspectRatio: 16 / 9 },
+};
+
+const CODEPEN: EmbedProvider = {
+  id: 'codepen',
+  name: 'CodePen',
+  match: url => {
+    if (!isHost(url, 'codepen.io')) return null;
+    const [, user, penId] = url.pathname.match(/^\/([\w-]+)\/(?:pen|embed|full|details)\/(\w+)/) ?? [];
+    return user && penId ? { kind: 'iframe', src: `https://codepen.io/${user}/embed/${penId}?default-tab=result` } : null;
+  },
+  sandbox: CODE_SANDBOX,
+  size: { height: 400 },
+};
+
+const CODESANDBOX: EmbedProvider = {
+  id: 'codesandbox',
+  name: 'CodeSandbox',
+  match: url => {
+    if (!isHost(url, 'codesandbox.io')) return null;
+    const sandboxId = url.pathname.match(/^\/(?:s|embed|p\/sandbox)\/([\w-]+)/)?.[1];
+    return sandboxId ? { kind: 'iframe', src: `https://codesandbox.io/embed/${sandboxId}` } : null;
+  },
+  sandbox: CODE_SANDBOX,
+  size: { height: 500 },
+};
+
+// Gists only embed through a script that document.writes the files, so it runs in its own document
+const GIST: EmbedProvider = {
+  id: 'gist',
+  name: 'GitHub Gist',
+  match: url => {
+    if (!isHost(url, 'gist.github.com')) return null;
+    const [, user, gistId] = url.pathname.match(/^\/([\w-]+)\/([\da-f]+)\/?$/) ?? [];
+    if (!user || !gistId) return null;
+    return {
+      kind: 'srcdoc',
+      srcdoc: `<!DOCTYPE html><base target="_blank"><body style="margin:0"><script src="https://gist.github.com/${user}/${gistId}.js"></script></body>`,
+    };
+  },
+  sandbox: 'allow-scripts allow-popups allow-popups-to-escape-sandbox',
+  size: { height: 360 },
+};
+
+// Browsers refuse to show their PDF viewer inside a sandboxed frame, and an unsandboxed one would
+// trust whatever the URL really serves, so PDFs open in their own tab instead
+const PDF: EmbedProvider = {
+  id: 'pdf',
+  name: 'PDF',
+  match: url => (/\.pdf$/i.test(url.pathname) ? { kind: 'document', src: url.href } : null),
+  sandbox: null,
+  size: { height: 600 },
+};
+
+const IMAGE: EmbedProvider = {
+  id: 'image',
+  name: 'Image',
+  match: url => (/\.(?:png|jpe?g|gif|webp|avif|svg)$/i.test(url.pathname) ? { kind: 'image', src: url.href } : null),
+  sandbox: null,
+  size: { height: 320 },
+};
+
+const providers: EmbedProvider[] = [YOUTUBE, VIMEO, CODEPEN, CODESANDBOX, GIST, PDF, IMAGE];
+
+// Providers registered later are tried first, so they can take over URLs from the built-in ones
+export const registerEmbedProvider = (provider: EmbedProvider): void => {
+  const existing = providers.findIndex(item => item.id === provider.id);
+  if (existing !== -1) providers.splice(existing, 1);
+  providers.unshift(provider);
+};
+
+export const findEmbed = (href: string): Embed | null => {
+  let url: URL;
+  try {
+    url = new URL(href);
+  } catch {
+    return null;
+  }
+  if (url.protocol !== 'https:' && url.protocol !== 'http:') return null;
+
+  for (const provider of providers) {
+    const content = provider.match(url);
+    if (content) return { provider, content };
+  }
+  return null;
+};
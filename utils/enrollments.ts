@@ -0,0 +1,82 @@
+import { UserEnrolledMission } from '../types';
+
+export type DashboardTab = 'in_progress' | 'completed' | 'archived';
+export type EnrollmentSort = 'recent' | 'progress' | 'enrolled' | 'title';
+
+export const DASHBOARD_TABS: Array<{ id: DashboardTab; label: string }> = [
+  { id: 'in_progress', label: 'In Progress' },
+  { id: 'completed', label: 'Completed' },
+  { id: 'archived', label: 'Archived' },
+];
+
+export const ENROLLMENT_SORTS: Array<{ id: EnrollmentSort; label: string }> = [
+  { id: 'recent', label: 'Recently accessed' },
+  { id: 'progress', label: 'Progress' },
+  { id: 'enrolled', label: 'Enrolled date' },
+  { id: 'title', label: 'Title' },
+];
+
+// Archived wins over completed, so finished missions can be tidied away too
+export const getEnrollmentTab = (enrollment: UserEnrolledMission): DashboardTab => {
+  if (enrollment.archived) return 'archived';
+  return enrollment.completed ? 'completed' : 'in_progress';
+};
+
+const toTime = (value: string | undefined): number => {
+  const time = value ? Date.parse(value) : NaN;
+  return Number.isNaN(time) ? 0 : time;
+};
+
+// Newest first for dates, highest first for progress, A-Z for titles
+export const sortEnrollments = (enrollments: UserEnrolledMission[], sort: EnrollmentSort): UserEnrolledMission[] => {
+  const sorted = enrollments.slice();
+  switch (sort) {
+    case 'recent':
+      return sorted.sort((a, b) => toTime(b.last_accessed_at) - toTime(a.last_accessed_at));
+    case 'progress':
+      return sorted.sort((a, b) => (b.progress ?? 0) - (a.progress ?? 0));
+    case 'enrolled':
+      return sorted.sort((a, b) => toTime(b.enrolled_at) - toTime(a.enrolled_at));
+    case 'title':
+      return sorted.sort((a, b) => a.mission_title.localeCompare(b.mission_title, undefined, { sensitivity: 'base' }));
+  }
+};
+
+// Case-insensitive match on the title or any skill
+export const filterEnrollments = (enrollments: UserEnrolledMission[], query: string): UserEnrolledMission[] => {
+  const needle = query.trim().toLowerCase();
+  if (!needle) return enrollments;
+  return enrollments.filter(enrollment =>
+    enrollment.mission_title.toLowerCase().includes(needle) ||
+    enrollment.mission_skills.some(skill => skill.toLowerCase().includes(needle))
+  );
+};
+
+// The unfinished mission the learner was working on last
+export const getMostRecentEnrollment = (enrollments: UserEnrolledMission[]): UserEnrolledMission | null =>
+  sortEnrollments(enrollments.filter(enrollment => getEnrollmentTab(enrollment) === 'in_progress'), 'recent')[0] ?? null;
+
+// The first checkpoint that isn't completed yet
+export const getNextCheckpoint = (enrollment: UserEnrolledMission): string | null =>
+  enrollment.byte_size_checkpoints.find(checkpoint => !enrollment.completed_checkpoints.includes(checkpoint)) ?? null;
+
+const RELATIVE_TIME = new Intl.RelativeTimeFormat('en', { numeric: 'auto' });
+const RELATIVE_UNITS: Array<[Intl.RelativeTimeFormatUnit, number]> = [
+  ['year', 365 * 24 * 60 * 60 * 1000],
+  ['month', 30 * 24 * 60 * 60 * 1000],
+  ['week', 7 * 24 * 60 * 60 * 1000],
+  ['day', 24 * 60 * 60 * 1000],
+  ['hour', 60 * 60 * 1000],
+  ['minute', 60 * 1000],
+];
+
+// "3 days ago", "yesterday", "just now"
+export const formatRelativeTime = (value: string, now: Date = new Date()): string => {
+  const elapsed = toTime(value) - now.getTime();
+  for (const [unit, ms] of RELATIVE_UNITS) {
+    if (Math.abs(elapsed) >= ms) {
+      return RELATIVE_TIME.format(Math.round(elapsed / ms), unit);
+    }
+  }
+  return 'just now';
+};
@@ -0,0 +1,256 @@
+// Small regex-based syntax highlighter for the languages learners meet most. It only
+// classifies tokens for colouring - no parsing - so unknown languages fall back to plain text.
+
+export type TokenType = 'plain' | 'comment' | 'string' | 'number' | 'keyword' | 'literal' | 'function' | 'type' | 'property' | 'tag' | 'variable';
+
+export interface Token {
+  type: TokenType;
+  text: string;
+}
+
+type Rule = [TokenType, RegExp];
+
+const words = (list: string): RegExp => new RegExp(`\\b(?:${list.split(' ').join('|')})\\b`, 'y');
+
+const NUMBER: Rule = ['number', /\b(?:0[xX][\da-fA-F_]+|0[bB][01_]+|\d[\d_]*(?:\.\d+)?(?:[eE][+-]?\d+)?)\b/y];
+const DOUBLE_QUOTED: Rule = ['string', /"(?:\\.|[^"\\\n])*"?/y];
+const SINGLE_QUOTED: Rule = ['string', /'(?:\\.|[^'\\\n])*'?/y];
+const C_COMMENTS: Rule[] = [['comment', /\/\/.*/y], ['comment', /\/\*[\s\S]*?(?:\*\/|$)/y]];
+const HASH_COMMENT: Rule = ['comment', /#.*/y];
+const FUNCTION_CALL: Rule = ['function', /\b[A-Za-z_$][\w$]*(?=\s*\()/y];
+const TYPE_NAME: Rule = ['type', /\b[A-Z][\w$]*/y];
+
+const cLike = (keywords: string, extra: Rule[] = []): Rule[] => [
+  ...C_COMMENTS,
+  ...extra,
+  DOUBLE_QUOTED,
+  SINGLE_QUOTED,
+  NUMBER,
+  ['literal', words('true false null nullptr nil')],
+  ['keyword', words(keywords)],
+  FUNCTION_CALL,
+  TYPE_NAME,
+];
+
+const JAVASCRIPT = cLike(
+  'abstract as async await break case catch class const continue debugger declare default delete do else enum export extends ' +
+  'finally for from function get if implements import in instanceof interface keyof let new of private protected public readonly ' +
+  'return satisfies set static super switch this throw try type typeof var void while with yield',
+  [['string', /`(?:\\.|[^`\\])*`?/y]]
+);
+
+const PYTHON: Rule[] = [
+  HASH_COMMENT,
+  ['string', /[rbfu]{0,2}(?:"""[\s\S]*?(?:"""|$)|'''[\s\S]*?(?:'''|$))/iy],
+  ['string', /[rbfu]{0,2}(?:"(?:\\.|[^"\\\n])*"?|'(?:\\.|[^'\\\n])*'?)/iy],
+  ['function', /@[\w.]+/y],
+  NUMBER,
+  ['literal', words('True False None')],
+  ['keyword', words(
+    'and as assert async await break class continue def del elif else except finally for from global if import in is lambda ' +
+    'nonlocal not or pass raise return try while with yield match case self'
+  )],
+  FUNCTION_CALL,
+  TYPE_NAME,
+];
+
+const JSON_RULES: Rule[] = [
+  ['property', /"(?:\\.|[^"\\\n])*"(?=\s*:)/y],
+  DOUBLE_QUOTED,
+  NUMBER,
+  ['literal', words('true false null')],
+];
+
+const SHELL: Rule[] = [
+  HASH_COMMENT,
+  DOUBLE_QUOTED,
+  SINGLE_QUOTED,
+  ['variable', /\$(?:\{[^}\n]*\}|[\w@#?$!*-]+)/y],
+  ['keyword', words('if then else elif fi for while until do done case esac in function return export local sudo')],
+  ['function', /(?<=^|[|;&]\s*)[\w.-]+/my],
+  ['property', /(?<=\s)--?[\w-]+/y],
+];
+
+const CSS: Rule[] = [
+  ['comment', /\/\*[\s\S]*?(?:\*\/|$)/y],
+  DOUBLE_QUOTED,
+  SINGLE_QUOTED,
+  ['keyword', /@[\w-]+/y],
+  ['property', /[\w-]+(?=\s*:[^:{]*[;}\n])/y],
+  ['number', /#[\da-fA-F]{3,8}\b|-?\d*\.?\d+(?:px|r?em|%|vh|vw|s|ms|deg|fr)?/y],
+  ['tag', /[.#]?[A-Za-z_][\w-]*(?=[^{};]*\{)/y],
+];
+
+const MARKUP: Rule[] = [
+  ['comment', /<!--[\s\S]*?(?:-->|$)/y],
+  ['tag', /<\/?[\w:-]+|\/?>/y],
+  ['property', /[\w:-]+(?==)/y],
+  DOUBLE_QUOTED,
+  SINGLE_QUOTED,
+];
+
+const SQL: Rule[] = [
+  ['comment', /--.*/y],
+  ['comment', /\/\*[\s\S]*?(?:\*\/|$)/y],
+  SINGLE_QUOTED,
+  DOUBLE_QUOTED,
+  NUMBER,
+  ['literal', /\b(?:true|false|null)\b/iy],
+  ['keyword', new RegExp(`\\b(?:${(
+    'select from where and or not insert into values update set delete create table alter drop index view join left right ' +
+    'inner outer full on as group by order having limit offset distinct union all case when then else end is in like between ' +
+    'primary key foreign references default exists with returning asc desc count sum avg min max'
+  ).split(' ').join('|')})\\b`, 'iy')],
+  FUNCTION_CALL,
+];
+
+const C_FAMILY_KEYWORDS =
+  'auto break case catch char class const continue default delete do double else enum explicit extends extern final finally ' +
+  'float for friend goto if implements import include int interface long namespace new operator override package private ' +
+  'protected public register return short signed sizeof static struct super switch template this throw throws try typedef ' +
+  'typename union unsigned using virtual void volatile while bool var async await base foreach in is lock out ref string';
+
+const GO = cLike(
+  'break case chan const continue default defer else fallthrough for func go goto if import interface map package range return ' +
+  'select struct switch type var',
+  [['string', /`[^`]*`?/y]]
+);
+
+const RUST = cLike(
+  'as async await break const continue crate dyn else enum extern fn for if impl in let loop match mod move mut pub ref return ' +
+  'self Self static struct super trait type unsafe use where while',
+  [['function', /\b\w+!/y]]
+);
+
+const LATEX: Rule[] = [
+  ['comment', /%.*/y],
+  ['keyword', /\\(?:[A-Za-z]+|.)/y],
+  ['number', /\d+(?:\.\d+)?/y],
+  ['variable', /[{}^_]/y],
+];
+
+const MERMAID: Rule[] = [
+  ['comment', /%%.*/y],
+  DOUBLE_QUOTED,
+  ['keyword', words(
+    'graph flowchart sequenceDiagram classDiagram stateDiagram stateDiagram-v2 erDiagram gantt pie journey mindmap timeline ' +
+    'subgraph end participant actor loop alt else opt par and rect note over class direction TD TB BT LR RL'
+  )],
+  ['tag', /<?[-=.]+>+|<\|?--?\|?>?|-[-.]+[ox>)]?|\|[^|\n]*\|/y],
+];
+
+const LANGUAGES: Record<string, { label: string; rules: Rule[] }> = {
+  javascript: { label: 'JavaScript', rules: JAVASCRIPT },
+  typescript: { label: 'TypeScript', rules: JAVASCRIPT },
+  jsx: { label: 'JSX', rules: JAVASCRIPT },
+  tsx: { label: 'TSX', rules: JAVASCRIPT },
+  python: { label: 'Python', rules: PYTHON },
+  json: { label: 'JSON', rules: JSON_RULES },
+  bash: { label: 'Bash', rules: SHELL },
+  css: { label: 'CSS', rules: CSS },
+  scss: { label: 'SCSS', rules: [...C_COMMENTS, ...CSS] },
+  html: { label: 'HTML', rules: MARKUP },
+  xml: { label: 'XML', rules: MARKUP },
+  sql: { label: 'SQL', rules: SQL },
+  java: { label: 'Java', rules: cLike(C_FAMILY_KEYWORDS, [['function', /@\w+/y]]) },
+  c: { label: 'C', rules: cLike(C_FAMILY_KEYWORDS, [['keyword', /#\s*\w+/y]]) },
+  cpp: { label: 'C++', rules: cLike(C_FAMILY_KEYWORDS, [['keyword', /#\s*\w+/y]]) },
+  csharp: { label: 'C#', rules: cLike(C_FAMILY_KEYWORDS) },
+  go: { label: 'Go', rules: GO },
+  rust: { label: 'Rust', rules: RUST },
+  latex: { label: 'LaTeX', rules: LATEX },
+  mermaid: { label: 'Mermaid', rules: MERMAID },
+};
+
+const ALIASES: Record<string, string> = {
+  js: 'javascript',
+  mjs: 'javascript',
+  cjs: 'javascript',
+  ts: 'typescript',
+  py: 'python',
+  sh: 'bash',
+  shell: 'bash',
+  zsh: 'bash',
+  console: 'bash',
+  htm: 'html',
+  svg: 'xml',
+  'c++': 'cpp',
+  cs: 'csharp',
+  golang: 'go',
+  rs: 'rust',
+  math: 'latex',
+  tex: 'latex',
+};
+
+export const normalizeLanguage = (language: string): string => {
+  const lower = language.toLowerCase();
+  return ALIASES[lower] ?? lower;
+};
+
+// Display name for a fence language, e.g. "ts" -> "TypeScript"; unknown languages are shown as written
+export const getLanguageLabel = (language: string): string =>
+  LANGUAGES[normalizeLanguage(language)]?.label ?? language;
+
+// Unmatched text is consumed a word at a time so keywords can't match inside identifiers
+const PLAIN_CHUNK = /[\w$]+|[\s\S]/y;
+
+export const tokenize = (code: string, language: string | null): Token[] => {
+  const rules = language ? LANGUAGES[normalizeLanguage(language)]?.rules : undefined;
+  if (!rules) return [{ type: 'plain', text: code }];
+
+  const tokens: Token[] = [];
+  let plain = '';
+  let index = 0;
+  while (index < code.length) {
+    let matched: Token | null = null;
+    for (const [type, pattern] of rules) {
+      pattern.lastIndex = index;
+      const match = pattern.exec(code);
+      if (match && match[0].length > 0) {
+        matched = { type, text: match[0] };
+        break;
+      }
+    }
+    if (matched) {
+      if (plain) tokens.push({ type: 'plain', text: plain });
+      plain = '';
+      tokens.push(matched);
+      index += matched.text.length;
+    } else {
+      PLAIN_CHUNK.lastIndex = index;
+      const text = PLAIN_CHUNK.exec(code)?.[0] ?? code.charAt(index);
+      plain += text;
+      index += text.length;
+    }
+  }
+  if (plain) tokens.push({ type: 'plain', text: plain });
+  return tokens;
+};
+
+// Tokens regrouped per line, splitting multi-line tokens (block comments, template strings)
+export const tokenizeLines = (code: string, language: string | null): Token[][] => {
+  const lines: Token[][] = [[]];
+  for (const token of tokenize(code, language)) {
+    token.text.split('\n').forEach((part, partIndex) => {
+      if (partIndex > 0) lines.push([]);
+      if (part) lines[lines.length - 1]!.push({ type: token.type, text: part });
+    });
+  }
+  return lines;
+};
+
+// Line numbers from a fence's meta string, e.g. "{3-5}" or "title {1,4-6}"
+export const parseHighlightedLines = (meta: string | null): Set<number> => {
+  const lines = new Set<number>();
+  const ranges = meta?.match(/\{([\d,\s-]+)\}/)?.[1];
+  if (!ranges) return lines;
+  for (const part of ranges.split(',')) {
+    const [start, end] = part.trim().split('-').map(Number);
+    if (start === undefined || Number.isNaN(start)) continue;
+    const last = end === undefined || Number.isNaN(end) ? start : end;
+    for (let line = start; line <= Math.min(last, start + 1000); line++) {
+      lines.add(line);
+    }
+  }
+  return lines;
+};
@@ -0,0 +1,46 @@
+// Text clean-up applied to chat markdown before it is parsed
+
+// Code spans and fences (left alone apart from escaped newlines), then the math delimiters
+// models tend to use: $$...$$, \[...\], \(...\) and $...$
+const SEGMENT = /(```[\s\S]*?(?:```|$)|`[^`\n]+`)|(?<!\\)\$\$([\s\S]+?)\$\$|\\\[([\s\S]+?)\\\]|\\\(([\s\S]+?)\\\)|(?<!\\)\$([^$\n]+?)\$/g;
+
+// Agents sometimes send newlines as a literal "\n"
+const unescapeNewlines = (text: string): string => text.replace(/\\n/g, '\n');
+
+// Inside math "\n" followed by a letter is a command such as \neq or \nabla
+const unescapeMathNewlines = (tex: string): string => tex.replace(/\\n(?![A-Za-z])/g, '\n');
+
+// Pandoc's rule for telling $x$ from prices: no space just inside the dollars and no digit right after
+const isInlineMath = (tex: string, following: string): boolean =>
+  !/^\s|\s$/.test(tex) && !/\d/.test(following);
+
+// Unescapes newlines and rewrites math into the $/$$ syntax remark-math understands.
+// Display math is put on lines of its own so it renders as a block.
+export const preprocessMarkdown = (content: string): string => {
+  let result = '';
+  let index = 0;
+  SEGMENT.lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = SEGMENT.exec(content)) !== null) {
+    const [segment, code, dollarDisplay, bracketDisplay, parenInline, dollarInline] = match;
+    result += unescapeNewlines(content.slice(index, match.index));
+    index = match.index + segment.length;
+
+    const display = dollarDisplay ?? bracketDisplay;
+    if (code !== undefined) {
+      result += unescapeNewlines(code);
+    } else if (display !== undefined) {
+      result += `\n$$\n${unescapeMathNewlines(display).trim()}\n$$\n`;
+    } else if (parenInline !== undefined) {
+      result += `$${unescapeMathNewlines(parenInline).trim()}$`;
+    } else if (dollarInline !== undefined && isInlineMath(dollarInline, content.charAt(index))) {
+      result += `$${unescapeMathNewlines(dollarInline)}$`;
+    } else {
+      // A literal dollar; the closing one may still open real math
+      result += '\\$';
+      index = match.index + 1;
+      SEGMENT.lastIndex = index;
+    }
+  }
+  return result + unescapeNewlines(content.slice(index));
+};
@@ -0,0 +1,81 @@
+import { Mission } from '../types';
+
+export type DiffStatus = 'added' | 'removed' | 'unchanged';
+
+export interface ListDiffEntry {
+  value: string;
+  status: DiffStatus;
+}
+
+export interface MissionDiff {
+  checkpoints: ListDiffEntry[];
+  skills: ListDiffEntry[];
+  topics: ListDiffEntry[];
+  // Previous values, only set when they changed
+  previousLearningGoal: string | null;
+  previousLevel: string | null;
+  hasChanges: boolean;
+}
+
+const normalize = (value: string) => value.trim().toLowerCase();
+
+// Ordered diff of two short lists (longest common subsequence), keeping removed entries
+// where they used to be. Matching ignores case and surrounding whitespace.
+export const diffList = (previous: string[], next: string[]): ListDiffEntry[] => {
+  const a = previous.map(normalize);
+  const b = next.map(normalize);
+
+  // lengths[i][j] = LCS length of a[i..] and b[j..]
+  const lengths = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i]![j] = a[i] === b[j]
+        ? lengths[i + 1]![j + 1]! + 1
+        : Math.max(lengths[i + 1]![j]!, lengths[i]![j + 1]!);
+    }
+  }
+
+  const entries: ListDiffEntry[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      entries.push({ value: next[j]!, status: 'unchanged' });
+      i++;
+      j++;
+    } else if (lengths[i + 1]![j]! >= lengths[i]![j + 1]!) {
+      entries.push({ value: previous[i]!, status: 'removed' });
+      i++;
+    } else {
+      entries.push({ value: next[j]!, status: 'added' });
+      j++;
+    }
+  }
+  for (; i < a.length; i++) entries.push({ value: previous[i]!, status: 'removed' });
+  for (; j < b.length; j++) entries.push({ value: next[j]!, status: 'added' });
+  return entries;
+};
+
+export const diffMission = (previous: Mission, next: Mission): MissionDiff => {
+  const checkpoints = diffList(previous.byte_size_checkpoints, next.byte_size_checkpoints);
+  const skills = diffList(previous.skills, next.skills);
+  const topics = diffList(previous.topics_to_cover, next.topics_to_cover);
+  const previousLearningGoal = normalize(previous.learning_goal) !== normalize(next.learning_goal) ? previous.learning_goal : null;
+  const previousLevel = normalize(previous.level) !== normalize(next.level) ? previous.level : null;
+
+  return {
+    checkpoints,
+    skills,
+    topics,
+    previousLearningGoal,
+    previousLevel,
+    hasChanges:
+      [...checkpoints, ...skills, ...topics].some(entry => entry.status !== 'unchanged') ||
+      previousLearningGoal !== null ||
+      previousLevel !== null,
+  };
+};
+
+// Lists without a previous version render as all unchanged
+export const listWithoutDiff = (values: string[]): ListDiffEntry[] =>
+  values.map(value => ({ value, status: 'unchanged' }));
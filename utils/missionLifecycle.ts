@@ -0,0 +1,93 @@
+import { MissionLifecycleAction, UserEnrolledMission } from '../types';
+import { ApiClient, ApiResponse } from './api';
+
+interface LifecycleActionCopy {
+  label: string;
+  success: string;
+  // Destructive actions ask first
+  confirm?: { title: string; message: string; confirmLabel: string };
+}
+
+export const LIFECYCLE_ACTION_COPY: Record<MissionLifecycleAction, LifecycleActionCopy> = {
+  unenroll: {
+    label: 'Unenroll',
+    success: 'You left the mission',
+    confirm: {
+      title: 'Leave this mission?',
+      message: 'Your progress and completed checkpoints will be deleted. You can enroll again later, but you will start over.',
+      confirmLabel: 'Unenroll',
+    },
+  },
+  archive: { label: 'Archive', success: 'Mission archived' },
+  unarchive: { label: 'Unarchive', success: 'Mission moved back to your missions' },
+  reset: {
+    label: 'Reset progress',
+    success: 'Progress reset',
+    confirm: {
+      title: 'Reset your progress?',
+      message: 'All completed checkpoints of this mission will be cleared and you will start again from the first one.',
+      confirmLabel: 'Reset progress',
+    },
+  },
+  retake: {
+    label: 'Retake mission',
+    success: 'Fresh attempt started - good luck!',
+    confirm: {
+      title: 'Retake this mission?',
+      message: 'A new attempt starts from the first checkpoint. Your completion of the previous attempt stays on record.',
+      confirmLabel: 'Start new attempt',
+    },
+  },
+};
+
+// Actions offered for an enrollment in its current state
+export const getAvailableLifecycleActions = (enrollment: Pick<UserEnrolledMission, 'completed' | 'completed_checkpoints' | 'archived'>): MissionLifecycleAction[] => {
+  const actions: MissionLifecycleAction[] = [];
+  if (enrollment.completed) {
+    actions.push('retake');
+  } else if (enrollment.completed_checkpoints.length > 0) {
+    actions.push('reset');
+  }
+  actions.push(enrollment.archived ? 'unarchive' : 'archive');
+  actions.push('unenroll');
+  return actions;
+};
+
+// The enrollment as it will look once the server has applied the action (null once unenrolled),
+// used to update lists before the request returns
+export const applyLifecycleAction = (
+  enrollment: UserEnrolledMission,
+  action: MissionLifecycleAction
+): UserEnrolledMission | null => {
+  switch (action) {
+    case 'unenroll':
+      return null;
+    case 'archive':
+      return { ...enrollment, archived: true };
+    case 'unarchive':
+      return { ...enrollment, archived: false };
+    case 'reset':
+      return { ...enrollment, progress: 0, completed_checkpoints: [], completed: false };
+    case 'retake':
+      return { ...enrollment, progress: 0, completed_checkpoints: [], completed: false, attempt: (enrollment.attempt ?? 1) + 1 };
+  }
+};
+
+export const requestLifecycleAction = (
+  apiClient: ApiClient,
+  missionId: string,
+  action: MissionLifecycleAction
+): Promise<ApiResponse<UserEnrolledMission | void>> => {
+  switch (action) {
+    case 'unenroll':
+      return apiClient.unenrollFromMission(missionId);
+    case 'archive':
+      return apiClient.setMissionArchived(missionId, true);
+    case 'unarchive':
+      return apiClient.setMissionArchived(missionId, false);
+    case 'reset':
+      return apiClient.resetMissionProgress(missionId);
+    case 'retake':
+      return apiClient.retakeMission(missionId);
+  }
+};
@@ -0,0 +1,24 @@
+import { ChatMessage } from '../types';
+import { toFileSlug } from './download';
+
+// Chat excerpt as a markdown quote, attributed to whoever wrote it
+export const quoteForNotes = (text: string, author: string): string =>
+  `${text.trim().split('\n').map(line => `> ${line}`).join('\n')}\n>\n> — ${author}`;
+
+export const appendToNote = (content: string, addition: string): string =>
+  content.trim() ? `${content.trimEnd()}\n\n${addition}\n` : `${addition}\n`;
+
+export const getNoteAuthor = (message: ChatMessage, agentName: string): string =>
+  message.from === 'user' ? 'Me' : message.from === 'agent' ? agentName : 'Learnforge';
+
+// One document with a section per checkpoint that has notes, in checkpoint order
+export const notesToMarkdown = (missionTitle: string, checkpoints: string[], notes: Record<string, string>): string => {
+  const sections = checkpoints
+    .map((checkpoint, index) => ({ checkpoint, index, content: notes[checkpoint]?.trim() ?? '' }))
+    .filter(section => section.content)
+    .map(section => `## Checkpoint ${section.index + 1}: ${section.checkpoint}\n\n${section.content}\n`);
+  return [`# ${missionTitle} - Notes\n`, ...sections].join('\n');
+};
+
+export const getNotesFilename = (missionTitle: string): string =>
+  `${toFileSlug(missionTitle) || 'mission'}-notes.md`;
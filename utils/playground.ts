@@ -0,0 +1,210 @@
+import { OutboundFrame } from './protocol';
+import { normalizeLanguage } from './highlight';
+
+export type CodeRun = Omit<Extract<OutboundFrame, { type: 'code_run' }>, 'type'>;
+export type PlaygroundLanguage = CodeRun['language'];
+export type ConsoleEntry = CodeRun['output'][number];
+
+export const RUN_TIMEOUT_MS = 5000;
+
+// Fences opt in with a "runnable" flag, e.g. ```ts runnable
+export const getPlaygroundLanguage = (language: string | null, meta: string | null): PlaygroundLanguage | null => {
+  if (!language || !meta || !/(?:^|\s)runnable(?:\s|$)/.test(meta)) return null;
+  const normalized = normalizeLanguage(language);
+  return normalized === 'javascript' || normalized === 'typescript' ? normalized : null;
+};
+
+// Runs inside the sandbox worker. The learner's code becomes the body of an async function so
+// top-level await works; the run is over once it settles and no timers are left pending.
+const RUNNER_SCRIPT = `
+(function () {
+  var MAX_ENTRIES = 200;
+  var MAX_TEXT = 2000;
+  var entries = 0;
+  var pending = new Set();
+  var settled = false;
+  var send = function (message) { self.postMessage(message); };
+
+  var inspect = function (value, depth, seen) {
+    if (typeof value === 'string') return depth > 0 ? JSON.stringify(value) : value;
+    if (typeof value === 'function') return '[Function: ' + (value.name || 'anonymous') + ']';
+    if (typeof value === 'bigint') return value + 'n';
+    if (value === null || typeof value !== 'object') return String(value);
+    if (value instanceof Error) return value.name + ': ' + value.message;
+    if (value instanceof Date) return value.toISOString();
+    if (seen.indexOf(value) !== -1) return '[Circular]';
+    if (depth > 2) return Array.isArray(value) ? '[Array]' : '[Object]';
+    var next = seen.concat([value]);
+    var show = function (item) { return inspect(item, depth + 1, next); };
+    if (Array.isArray(value)) return '[' + value.map(show).join(', ') + ']';
+    if (value instanceof Map) {
+      return 'Map(' + value.size + ') {' + Array.from(value, function (pair) { return show(pair[0]) + ' => ' + show(pair[1]); }).join(', ') + '}';
+    }
+    if (value instanceof Set) return 'Set(' + value.size + ') {' + Array.from(value, show).join(', ') + '}';
+    var keys = Object.keys(value);
+    if (keys.length === 0) return '{}';
+    return '{ ' + keys.map(function (key) { return key + ': ' + show(value[key]); }).join(', ') + ' }';
+  };
+
+  var emit = function (level, args) {
+    entries += 1;
+    if (entries > MAX_ENTRIES) return;
+    var text = entries === MAX_ENTRIES
+      ? '... output truncated'
+      : Array.prototype.map.call(args, function (arg) { return inspect(arg, 0, []); }).join(' ');
+    send({ type: 'console', level: level, text: text.length > MAX_TEXT ? text.slice(0, MAX_TEXT) + '...' : text });
+  };
+  ['log', 'info', 'warn', 'error'].forEach(function (level) {
+    console[level] = function () { emit(level, arguments); };
+  });
+  console.debug = function () { emit('log', arguments); };
+
+  var describe = function (error) {
+    return error instanceof Error ? error.name + ': ' + error.message : 'Uncaught ' + inspect(error, 1, []);
+  };
+  var finish = function () {
+    if (settled && pending.size === 0) send({ type: 'done' });
+  };
+  // Handled here so the error isn't reported a second time on the worker object
+  self.addEventListener('error', function (event) {
+    event.preventDefault();
+    send({ type: 'error', message: describe(event.error || new Error(event.message)) });
+  });
+  self.addEventListener('unhandledrejection', function (event) {
+    event.preventDefault();
+    send({ type: 'error', message: describe(event.reason) });
+  });
+
+  var nativeSetTimeout = self.setTimeout;
+  var nativeClearTimeout = self.clearTimeout;
+  self.setTimeout = function (callback, delay) {
+    var extra = Array.prototype.slice.call(arguments, 2);
+    var id = nativeSetTimeout(function () {
+      pending.delete(id);
+      try {
+        if (typeof callback === 'function') callback.apply(null, extra);
+      } finally {
+        nativeSetTimeout(finish);
+      }
+    }, delay);
+    pending.add(id);
+    return id;
+  };
+  self.clearTimeout = function (id) {
+    nativeClearTimeout(id);
+    pending.delete(id);
+    nativeSetTimeout(finish);
+  };
+  var nativeSetInterval = self.setInterval;
+  var nativeClearInterval = self.clearInterval;
+  self.setInterval = function () {
+    var id = nativeSetInterval.apply(self, arguments);
+    pending.add('interval-' + id);
+    return id;
+  };
+  self.clearInterval = function (id) {
+    nativeClearInterval(id);
+    pending.delete('interval-' + id);
+    nativeSetTimeout(finish);
+  };
+
+  self.addEventListener('message', function (event) {
+    var AsyncFunction = (async function () {}).constructor;
+    var run;
+    try {
+      run = new AsyncFunction(event.data.code);
+    } catch (error) {
+      send({ type: 'error', message: describe(error) });
+      settled = true;
+      finish();
+      return;
+    }
+    run()
+      .catch(function (error) { send({ type: 'error', message: describe(error) }); })
+      .then(function () {
+        settled = true;
+        finish();
+      });
+  }, { once: true });
+})();
+`;
+
+type RunnerMessage =
+  | { type: 'done' }
+  | { type: 'console'; level: ConsoleEntry['level']; text: string }
+  | { type: 'error'; message: string };
+
+// TypeScript is stripped to plain JavaScript; the compiler is only loaded when it's needed
+const toJavaScript = async (code: string, language: PlaygroundLanguage): Promise<string> => {
+  if (language === 'javascript') return code;
+  const { transform } = await import('sucrase');
+  return transform(code, { transforms: ['typescript'], disableESTransforms: true }).code;
+};
+
+// Runs the code in a throwaway worker loaded from a data: URL, which gives it an opaque origin
+// (no cookies, storage or access to this page) and its own thread. Terminating the worker after
+// the run also stops code that never ends, even a busy loop.
+export const runInSandbox = async (
+  code: string,
+  language: PlaygroundLanguage,
+  timeoutMs: number = RUN_TIMEOUT_MS
+): Promise<CodeRun> => {
+  const startedAt = performance.now();
+  const output: ConsoleEntry[] = [];
+  const result = (status: CodeRun['status'], error?: string): CodeRun => ({
+    language,
+    code,
+    status,
+    output,
+    ...(error !== undefined && { error }),
+    duration_ms: Math.round(performance.now() - startedAt),
+  });
+
+  let script: string;
+  try {
+    script = await toJavaScript(code, language);
+  } catch (error) {
+    return result('error', error instanceof Error ? error.message : String(error));
+  }
+
+  let worker: Worker;
+  try {
+    worker = new Worker(`data:text/javascript,${encodeURIComponent(RUNNER_SCRIPT)}`);
+  } catch (error) {
+    return result('error', error instanceof Error ? error.message : String(error));
+  }
+
+  return new Promise(resolve => {
+    let error: string | undefined;
+    const finish = (status: CodeRun['status']) => {
+      clearTimeout(timeout);
+      worker.terminate();
+      resolve(result(status, error));
+    };
+    const timeout = setTimeout(() => finish('timeout'), timeoutMs);
+
+    worker.onmessage = (event: MessageEvent<RunnerMessage>) => {
+      const message = event.data;
+      switch (message.type) {
+        case 'console':
+          output.push({ level: message.level, text: message.text });
+          break;
+        case 'error':
+          error ??= message.message;
+          output.push({ level: 'error', text: message.message });
+          break;
+        case 'done':
+          finish(error === undefined ? 'ok' : 'error');
+          break;
+      }
+    };
+    // The runner itself failed to start
+    worker.onerror = event => {
+      event.preventDefault();
+      error ??= event.message || 'The code could not be run';
+      finish('error');
+    };
+
+    worker.postMessage({ code: script });
+  });
+};
@@ -0,0 +1,150 @@
+import { Flashcard, Mission } from '../types';
+import {
+  Shape,
+  InferShape,
+  SchemaError,
+  isRecord,
+  parseShape,
+  string,
+  number,
+  boolean,
+  literal,
+  array,
+  optional,
+  object,
+  entity,
+} from './schema';
+
+// Wire protocol shared by every agent channel (Polaris, Mission Ally).
+// Frames are declared once as schemas; both the TypeScript unions and the
+// runtime validators are derived from those declarations.
+
+// --- Frame declarations ---
+
+const INBOUND_FRAMES = {
+  connected: { message: string() },
+  historical_messages: {
+    messages: array(object({
+      type: literal('user_message', 'agent_message'),
+      message: string(),
+      id: optional(string()),
+      timestamp: optional(string()), // ISO 8601
+    })),
+  },
+  agent_processing_start: { message: optional(string()) },
+  agent_processing_end: { message: optional(string()) },
+  agent_message: { message: string(), message_id: optional(string()), timestamp: optional(string()) },
+  // Streamed replies: deltas are appended in order, done carries the authoritative final text when sent
+  agent_message_delta: { message_id: string(), delta: string() },
+  agent_message_done: { message_id: string(), message: optional(string()) },
+  agent_handover: { agent: optional(string()), message: optional(string()) },
+  mission_created: {
+    mission: entity<Mission>({ id: string(), title: string() }),
+    message: optional(string()),
+  },
+  // A refined version of the proposed mission, pushed after a change request
+  mission_revised: {
+    mission: entity<Mission>({ id: string(), title: string() }),
+    version: optional(number()), // 1 is the mission from mission_created
+    message: optional(string()),
+  },
+  checkpoint_update: {
+    completed_checkpoints: array(string()),
+    progress: optional(number()),
+    message: optional(string()),
+  },
+  // A deck generated for one checkpoint; the cards are already saved server-side
+  flashcards_generated: {
+    cards: array(entity<Flashcard>({ id: string(), mission_id: string(), front: string(), back: string(), due_at: string() })),
+    checkpoint: optional(string()),
+    message: optional(string()),
+  },
+  // Confirms a user_message was stored; client_id echoes the id the client sent it under
+  user_message_ack: { client_id: string(), message_id: optional(string()), timestamp: optional(string()) },
+  session_closed: { message: optional(string()) },
+  error: { message: string() },
+  pong: {},
+} satisfies Record<string, Shape>;
+
+const OUTBOUND_FRAMES = {
+  user_message: { message: string(), client_id: optional(string()) },
+  // Ask the agent to steer the conversation to one checkpoint
+  checkpoint_focus: { checkpoint_index: number(), checkpoint: string(), intent: literal('review') },
+  // Ask the agent to write a flashcard deck covering one checkpoint
+  generate_flashcards: { checkpoint_index: number(), checkpoint: string() },
+  // Graded answers to a quiz block; the server may complete the quiz's checkpoint on a pass
+  quiz_result: {
+    quiz_id: string(),
+    checkpoint: optional(string()),
+    score: number(),
+    total: number(),
+    passed: boolean(),
+    answers: array(object({ question_id: string(), answer: string(), correct: boolean() })),
+  },
+  // Code the learner ran in a playground block, shared for feedback along with what it printed
+  code_run: {
+    language: literal('javascript', 'typescript'),
+    code: string(),
+    status: literal('ok', 'error', 'timeout'),
+    output: array(object({ level: literal('log', 'info', 'warn', 'error'), text: string() })),
+    error: optional(string()),
+    duration_ms: number(),
+  },
+  // Without a message id the server cancels whatever it is currently generating
+  stop_generation: { message_id: optional(string()) },
+  // Keep one version of the proposed mission; the server stores it and ends the planning session
+  accept_mission: { mission_id: string(), version: number() },
+  ping: {},
+} satisfies Record<string, Shape>;
+
+type FrameUnion<Frames extends Record<string, Shape>> = {
+  [K in keyof Frames & string]: { type: K } & InferShape<Frames[K]>;
+}[keyof Frames & string];
+
+export type InboundFrame = FrameUnion<typeof INBOUND_FRAMES>;
+export type InboundFrameType = InboundFrame['type'];
+
+export type OutboundFrame = FrameUnion<typeof OUTBOUND_FRAMES>;
+
+// --- Validation ---
+
+export type FrameParseResult<T> =
+  | { ok: true; frame: T }
+  | { ok: false; reason: 'malformed' | 'unknown_type'; error: string };
+
+const parseFrame = <T>(frames: Record<string, Shape>, data: unknown): FrameParseResult<T> => {
+  if (!isRecord(data)) {
+    return { ok: false, reason: 'malformed', error: 'Frame is not an object' };
+  }
+  if (typeof data.type !== 'string') {
+    return { ok: false, reason: 'malformed', error: 'Missing or invalid frame type' };
+  }
+  const shape = Object.prototype.hasOwnProperty.call(frames, data.type) ? frames[data.type] : undefined;
+  if (!shape) {
+    return { ok: false, reason: 'unknown_type', error: `Unknown frame type: ${data.type}` };
+  }
+
+  try {
+    return { ok: true, frame: { type: data.type, ...parseShape(shape, data, data.type) } as T };
+  } catch (error) {
+    if (error instanceof SchemaError) {
+      return { ok: false, reason: 'malformed', error: error.message };
+    }
+    throw error;
+  }
+};
+
+export const parseInboundFrame = (data: unknown): FrameParseResult<InboundFrame> =>
+  parseFrame<InboundFrame>(INBOUND_FRAMES, data);
+
+// Wire timestamps are ISO 8601 strings; anything unparseable is treated as missing
+export const parseFrameTimestamp = (value: string | undefined): Date | undefined => {
+  if (value === undefined) return undefined;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? undefined : date;
+};
+
+// One log format for every frame a channel refuses, so protocol drift is easy to spot
+export const logDroppedFrame = (channel: string, reason: string, error: string, data?: unknown): void => {
+  console.warn(`[${channel}] Dropped ${reason} frame: ${error}`, data);
+};
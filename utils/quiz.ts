@@ -0,0 +1,88 @@
+import { OutboundFrame } from './protocol';
+import { Infer, SchemaError, string, number, literal, array, optional, object } from './schema';
+
+// A ```quiz fenced block holds one of these as JSON. Every kind carries its expected answer as text
+// so it can be graded client-side: the correct option, the blank's word or the program's output.
+const QUIZ_BLOCK = object({
+  id: string(),
+  title: optional(string()),
+  checkpoint: optional(string()), // Checkpoint the quiz gates, if any
+  pass_score: optional(number()), // Fraction of correct answers needed to pass, defaults to all
+  questions: array(object({
+    id: string(),
+    kind: literal('multiple_choice', 'fill_blank', 'code_output'),
+    prompt: string(), // fill_blank prompts mark the gap with ___
+    options: optional(array(string())), // multiple_choice only
+    code: optional(string()), // code_output only
+    language: optional(string()),
+    answer: string(),
+    accept: optional(array(string())), // Other answers that count as correct
+    explanation: optional(string()),
+  })),
+});
+
+export type QuizBlock = Infer<typeof QUIZ_BLOCK>;
+export type QuizQuestion = QuizBlock['questions'][number];
+
+export type QuizParseResult =
+  | { ok: true; quiz: QuizBlock }
+  | { ok: false; error: string };
+
+export const parseQuizBlock = (source: string): QuizParseResult => {
+  let data: unknown;
+  try {
+    data = JSON.parse(source);
+  } catch {
+    return { ok: false, error: 'Quiz block is not valid JSON' };
+  }
+  try {
+    const quiz = QUIZ_BLOCK.parse(data, 'quiz');
+    const invalid = quiz.questions.find(question =>
+      question.kind === 'multiple_choice' && !question.options?.includes(question.answer)
+    );
+    if (invalid) {
+      return { ok: false, error: `quiz.${invalid.id}: answer is not one of the options` };
+    }
+    return { ok: true, quiz };
+  } catch (error) {
+    if (error instanceof SchemaError) {
+      return { ok: false, error: error.message };
+    }
+    throw error;
+  }
+};
+
+export type QuizResult = Omit<Extract<OutboundFrame, { type: 'quiz_result' }>, 'type'>;
+
+// Fill-in answers ignore case and spacing; program output only ignores trailing whitespace per line
+const normalizeAnswer = (question: QuizQuestion, value: string): string => {
+  if (question.kind === 'code_output') {
+    return value.replace(/\r\n/g, '\n').split('\n').map(line => line.trimEnd()).join('\n').trim();
+  }
+  if (question.kind === 'fill_blank') {
+    return value.trim().replace(/\s+/g, ' ').toLowerCase();
+  }
+  return value;
+};
+
+export const isCorrectAnswer = (question: QuizQuestion, value: string): boolean => {
+  const normalized = normalizeAnswer(question, value);
+  return [question.answer, ...(question.accept ?? [])].some(expected => normalizeAnswer(question, expected) === normalized);
+};
+
+export const gradeQuiz = (quiz: QuizBlock, answers: Record<string, string>): QuizResult => {
+  const graded = quiz.questions.map(question => {
+    const answer = answers[question.id] ?? '';
+    return { question_id: question.id, answer, correct: isCorrectAnswer(question, answer) };
+  });
+  const score = graded.filter(entry => entry.correct).length;
+  const total = quiz.questions.length;
+  return {
+    quiz_id: quiz.id,
+    ...(quiz.checkpoint !== undefined && { checkpoint: quiz.checkpoint }),
+    score,
+    total,
+    passed: total > 0 && score / total >= (quiz.pass_score ?? 1),
+    answers: graded,
+  };
+};
@@ -0,0 +1,84 @@
+// Tiny runtime schemas for JSON that comes from the server. Each schema both validates a value
+// and carries its TypeScript type, so declarations never drift from the checks.
+
+export interface Schema<T> {
+  // Returns the parsed value or throws a SchemaError describing the first mismatch
+  parse: (value: unknown, path: string) => T;
+}
+
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+export class SchemaError extends Error {}
+
+const fail = (path: string, expected: string, value: unknown): never => {
+  const actual = value === null ? 'null' : Array.isArray(value) ? 'array' : typeof value;
+  throw new SchemaError(`${path}: expected ${expected}, got ${actual}`);
+};
+
+export const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+export const string = (): Schema<string> => ({
+  parse: (value, path) => (typeof value === 'string' ? value : fail(path, 'string', value)),
+});
+
+export const number = (): Schema<number> => ({
+  parse: (value, path) => (typeof value === 'number' && Number.isFinite(value) ? value : fail(path, 'number', value)),
+});
+
+export const boolean = (): Schema<boolean> => ({
+  parse: (value, path) => (typeof value === 'boolean' ? value : fail(path, 'boolean', value)),
+});
+
+export const literal = <T extends string>(...options: T[]): Schema<T> => ({
+  parse: (value, path) =>
+    options.includes(value as T) ? (value as T) : fail(path, options.map(o => `'${o}'`).join(' | '), value),
+});
+
+export const array = <T>(item: Schema<T>): Schema<T[]> => ({
+  parse: (value, path) =>
+    Array.isArray(value) ? value.map((entry, index) => item.parse(entry, `${path}[${index}]`)) : fail(path, 'array', value),
+});
+
+// Optional fields may be missing or null on the wire; both come out as absent
+interface OptionalSchema<T> extends Schema<T | undefined> {
+  optional: true;
+}
+
+export const optional = <T>(schema: Schema<T>): OptionalSchema<T> => ({
+  optional: true,
+  parse: (value, path) => (value === undefined || value === null ? undefined : schema.parse(value, path)),
+});
+
+export type Shape = Record<string, Schema<unknown>>;
+
+export type InferShape<S extends Shape> = {
+  [K in keyof S as S[K] extends OptionalSchema<unknown> ? never : K]: Infer<S[K]>;
+} & {
+  [K in keyof S as S[K] extends OptionalSchema<unknown> ? K : never]?: Exclude<Infer<S[K]>, undefined>;
+};
+
+export const parseShape = <S extends Shape>(shape: S, value: Record<string, unknown>, path: string): InferShape<S> => {
+  const result: Record<string, unknown> = {};
+  for (const [key, schema] of Object.entries(shape)) {
+    const parsed = schema.parse(value[key], `${path}.${key}`);
+    if (parsed !== undefined) {
+      result[key] = parsed;
+    }
+  }
+  return result as InferShape<S>;
+};
+
+// Object with a known shape; unknown keys are dropped
+export const object = <S extends Shape>(shape: S): Schema<InferShape<S>> => ({
+  parse: (value, path) => (isRecord(value) ? parseShape(shape, value, path) : fail(path, 'object', value)),
+});
+
+// Domain object owned by the REST API: check the identifying fields, keep the rest as sent
+export const entity = <T>(shape: Shape): Schema<T> => ({
+  parse: (value, path) => {
+    if (!isRecord(value)) return fail(path, 'object', value);
+    parseShape(shape, value, path);
+    return value as T;
+  },
+});
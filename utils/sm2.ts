@@ -0,0 +1,84 @@
+import { Flashcard, FlashcardGrade, FlashcardSchedule } from '../types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MIN_EASE_FACTOR = 1.3;
+// A forgotten card comes back within the same review session
+const RELEARN_DELAY_MS = 10 * 60 * 1000;
+
+// SM-2 recall quality (0-5) for each answer button
+const GRADE_QUALITY: Record<FlashcardGrade, number> = {
+  again: 1,
+  hard: 3,
+  good: 4,
+  easy: 5,
+};
+
+export const FLASHCARD_GRADES: FlashcardGrade[] = ['again', 'hard', 'good', 'easy'];
+
+// Next schedule for a card after answering it with `grade`, following SM-2:
+// failed recalls restart the repetition count, successful ones grow the interval by the ease factor
+export const scheduleReview = (
+  card: Pick<Flashcard, 'ease_factor' | 'interval_days' | 'repetitions'>,
+  grade: FlashcardGrade,
+  now: Date = new Date()
+): FlashcardSchedule => {
+  const quality = GRADE_QUALITY[grade];
+  const easeFactor = Math.max(
+    MIN_EASE_FACTOR,
+    card.ease_factor + (0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02))
+  );
+
+  if (quality < 3) {
+    return {
+      ease_factor: easeFactor,
+      interval_days: 0,
+      repetitions: 0,
+      due_at: new Date(now.getTime() + RELEARN_DELAY_MS).toISOString(),
+    };
+  }
+
+  const repetitions = card.repetitions + 1;
+  let intervalDays: number;
+  if (repetitions === 1) {
+    intervalDays = 1;
+  } else if (repetitions === 2) {
+    intervalDays = 6;
+  } else {
+    intervalDays = Math.round(card.interval_days * easeFactor);
+  }
+  // Easy answers jump ahead a bit further than SM-2 alone would
+  if (grade === 'easy') {
+    intervalDays = Math.round(intervalDays * 1.3);
+  }
+
+  return {
+    ease_factor: easeFactor,
+    interval_days: intervalDays,
+    repetitions,
+    due_at: new Date(now.getTime() + intervalDays * DAY_MS).toISOString(),
+  };
+};
+
+export const isFlashcardDue = (card: Pick<Flashcard, 'due_at'>, now: Date = new Date()): boolean =>
+  new Date(card.due_at).getTime() <= now.getTime();
+
+// Due cards per mission id
+export const countDueFlashcards = (cards: Flashcard[], now: Date = new Date()): Map<string, number> => {
+  const counts = new Map<string, number>();
+  for (const card of cards) {
+    if (isFlashcardDue(card, now)) {
+      counts.set(card.mission_id, (counts.get(card.mission_id) ?? 0) + 1);
+    }
+  }
+  return counts;
+};
+
+// "10m", "1d", "3w", "2mo" - shown on the answer buttons
+export const formatReviewInterval = (schedule: FlashcardSchedule, now: Date = new Date()): string => {
+  const ms = new Date(schedule.due_at).getTime() - now.getTime();
+  const days = ms / DAY_MS;
+  if (days < 1) return `${Math.max(1, Math.round(ms / 60000))}m`;
+  if (days < 14) return `${Math.round(days)}d`;
+  if (days < 60) return `${Math.round(days / 7)}w`;
+  return `${Math.round(days / 30)}mo`;
+};
@@ -1,4 +1,5 @@
 import DOMPurify from 'dompurify';
+import { Mission, MissionInput } from '../types';
 
 // Input validation constants
 export const VALIDATION_LIMITS = {
@@ -7,7 +8,14 @@ export const VALIDATION_LIMITS = {
   USERNAME_MAX_LENGTH: 50,
   USERNAME_MIN_LENGTH: 2,
   MISSION_TITLE_MAX_LENGTH: 100,
+  MISSION_TITLE_MIN_LENGTH: 3,
+  MISSION_SHORT_DESCRIPTION_MAX_LENGTH: 200,
   MISSION_DESCRIPTION_MAX_LENGTH: 2000,
+  MISSION_LEARNING_GOAL_MAX_LENGTH: 500,
+  MISSION_TAG_MAX_LENGTH: 50, // A single skill or topic
+  MISSION_MAX_TAGS: 15,
+  MISSION_CHECKPOINT_MAX_LENGTH: 200,
+  MISSION_MAX_CHECKPOINTS: 20,
   SESSION_ID_MAX_LENGTH: 100,
   USER_ID_MAX_LENGTH: 100,
 } as const;
@@ -20,18 +28,13 @@ export const RATE_LIMITS = {
   CONNECTION_RETRY_DELAY_MS: 2000,
 } as const;
 
-// WebSocket message types
-export const VALID_WEBSOCKET_MESSAGE_TYPES = [
-  'connected',
-  'agent_message', 
-  'agent_handover',
-  'mission_created',
-  'error',
-  'ping',
-  'pong'
-] as const;
+export const MISSION_LEVELS = ['Beginner', 'Intermediate', 'Advanced'] as const;
+export type MissionLevel = typeof MISSION_LEVELS[number];
 
-export type ValidWebSocketMessageType = typeof VALID_WEBSOCKET_MESSAGE_TYPES[number];
+// Missions written by the agent may spell the level differently (e.g. "beginner"); anything
+// unrecognised falls back to the first level, which is also what the level picker shows for it
+export const normalizeMissionLevel = (level: string): MissionLevel =>
+  MISSION_LEVELS.find(option => option.toLowerCase() === level.trim().toLowerCase()) ?? MISSION_LEVELS[0];
 
 // Input sanitization
 export const sanitizeInput = (input: string): string => {
@@ -88,50 +91,105 @@ export const validateMessage = (message: string): { isValid: boolean; error?: st
   return { isValid: true };
 };
 
-// Validate WebSocket message structure
-export const validateWebSocketMessage = (data: any): { isValid: boolean; error?: string } => {
-  if (!data || typeof data !== 'object') {
-    return { isValid: false, error: 'Invalid message format' };
+export type MissionValidationErrors = Partial<Record<keyof MissionInput, string>>;
+
+const validateTagList = (values: string[], label: string): string | undefined => {
+  if (values.length > VALIDATION_LIMITS.MISSION_MAX_TAGS) {
+    return `Add at most ${VALIDATION_LIMITS.MISSION_MAX_TAGS} ${label}`;
   }
-  
-  if (!data.type || typeof data.type !== 'string') {
-    return { isValid: false, error: 'Missing or invalid message type' };
+  if (values.some(value => value.length > VALIDATION_LIMITS.MISSION_TAG_MAX_LENGTH)) {
+    return `Each entry must be at most ${VALIDATION_LIMITS.MISSION_TAG_MAX_LENGTH} characters`;
   }
-  
-  if (!VALID_WEBSOCKET_MESSAGE_TYPES.includes(data.type as ValidWebSocketMessageType)) {
-    return { isValid: false, error: `Invalid message type: ${data.type}` };
+  return undefined;
+};
+
+// Validate a mission before it's sent to the API; returns an error per invalid field
+export const validateMissionInput = (input: MissionInput): MissionValidationErrors => {
+  const errors: MissionValidationErrors = {};
+  const title = input.title.trim();
+
+  if (title.length < VALIDATION_LIMITS.MISSION_TITLE_MIN_LENGTH) {
+    errors.title = `Title must be at least ${VALIDATION_LIMITS.MISSION_TITLE_MIN_LENGTH} characters`;
+  } else if (title.length > VALIDATION_LIMITS.MISSION_TITLE_MAX_LENGTH) {
+    errors.title = `Title must be at most ${VALIDATION_LIMITS.MISSION_TITLE_MAX_LENGTH} characters`;
   }
-  
-  // Validate content based on message type
-  switch (data.type) {
-    case 'connected':
-      if (!data.message || typeof data.message !== 'string') {
-        return { isValid: false, error: 'Invalid connected message format' };
-      }
-      break;
-      
-    case 'agent_message':
-      if (!data.message || typeof data.message !== 'string') {
-        return { isValid: false, error: 'Invalid agent message format' };
-      }
-      break;
-      
-    case 'mission_created':
-      if (!data.mission || typeof data.mission !== 'object') {
-        return { isValid: false, error: 'Invalid mission created message format' };
-      }
-      break;
-      
-    case 'error':
-      if (!data.message || typeof data.message !== 'string') {
-        return { isValid: false, error: 'Invalid error message format' };
-      }
-      break;
+
+  if (!input.short_description.trim()) {
+    errors.short_description = 'Short description is required';
+  } else if (input.short_description.length > VALIDATION_LIMITS.MISSION_SHORT_DESCRIPTION_MAX_LENGTH) {
+    errors.short_description = `Short description must be at most ${VALIDATION_LIMITS.MISSION_SHORT_DESCRIPTION_MAX_LENGTH} characters`;
   }
-  
-  return { isValid: true };
+
+  if (!input.description.trim()) {
+    errors.description = 'Description is required';
+  } else if (input.description.length > VALIDATION_LIMITS.MISSION_DESCRIPTION_MAX_LENGTH) {
+    errors.description = `Description must be at most ${VALIDATION_LIMITS.MISSION_DESCRIPTION_MAX_LENGTH} characters`;
+  }
+
+  if (!MISSION_LEVELS.includes(input.level as MissionLevel)) {
+    errors.level = 'Choose a level';
+  }
+
+  if (!input.learning_goal.trim()) {
+    errors.learning_goal = 'Learning goal is required';
+  } else if (input.learning_goal.length > VALIDATION_LIMITS.MISSION_LEARNING_GOAL_MAX_LENGTH) {
+    errors.learning_goal = `Learning goal must be at most ${VALIDATION_LIMITS.MISSION_LEARNING_GOAL_MAX_LENGTH} characters`;
+  }
+
+  const skillsError = input.skills.length === 0 ? 'Add at least one skill' : validateTagList(input.skills, 'skills');
+  if (skillsError) errors.skills = skillsError;
+
+  const topicsError = input.topics_to_cover.length === 0
+    ? 'Add at least one topic'
+    : validateTagList(input.topics_to_cover, 'topics');
+  if (topicsError) errors.topics_to_cover = topicsError;
+
+  const checkpoints = input.byte_size_checkpoints;
+  if (checkpoints.length === 0) {
+    errors.byte_size_checkpoints = 'Add at least one checkpoint';
+  } else if (checkpoints.length > VALIDATION_LIMITS.MISSION_MAX_CHECKPOINTS) {
+    errors.byte_size_checkpoints = `A mission can have at most ${VALIDATION_LIMITS.MISSION_MAX_CHECKPOINTS} checkpoints`;
+  } else if (checkpoints.some(checkpoint => !checkpoint.trim())) {
+    errors.byte_size_checkpoints = 'Checkpoints cannot be empty';
+  } else if (checkpoints.some(checkpoint => checkpoint.length > VALIDATION_LIMITS.MISSION_CHECKPOINT_MAX_LENGTH)) {
+    errors.byte_size_checkpoints = `Each checkpoint must be at most ${VALIDATION_LIMITS.MISSION_CHECKPOINT_MAX_LENGTH} characters`;
+  } else if (new Set(checkpoints.map(checkpoint => checkpoint.trim().toLowerCase())).size !== checkpoints.length) {
+    // Progress is tracked by checkpoint text, so duplicates would complete together
+    errors.byte_size_checkpoints = 'Checkpoints must be unique';
+  }
+
+  return errors;
 };
 
+// sanitizeInput strips control characters, newlines included - keep paragraphs intact
+const sanitizeMultiline = (input: string): string => input.split('\n').map(sanitizeInput).join('\n').trim();
+
+// The editable fields of a saved mission
+export const toMissionInput = (mission: Mission): MissionInput => ({
+  title: mission.title,
+  short_description: mission.short_description,
+  description: mission.description,
+  level: normalizeMissionLevel(mission.level),
+  learning_goal: mission.learning_goal,
+  skills: mission.skills,
+  topics_to_cover: mission.topics_to_cover,
+  byte_size_checkpoints: mission.byte_size_checkpoints,
+  is_public: mission.is_public,
+});
+
+// Trim and sanitize every text field of a mission
+export const sanitizeMissionInput = (input: MissionInput): MissionInput => ({
+  ...input,
+  title: sanitizeInput(input.title),
+  short_description: sanitizeInput(input.short_description),
+  description: sanitizeMultiline(input.description),
+  level: sanitizeInput(input.level),
+  learning_goal: sanitizeMultiline(input.learning_goal),
+  skills: input.skills.map(sanitizeInput),
+  topics_to_cover: input.topics_to_cover.map(sanitizeInput),
+  byte_size_checkpoints: input.byte_size_checkpoints.map(sanitizeInput),
+});
+
 // Validate session ID
 export const validateSessionId = (sessionId: string): { isValid: boolean; error?: string } => {
   if (!sessionId || typeof sessionId !== 'string') {